@@ -4,6 +4,7 @@ import path from 'path';
 import fs from 'fs';
 import crypto from 'crypto';
 import ffmpeg from 'fluent-ffmpeg';
+import { ParsedSearch, SearchTerm, toMatchExpression } from './search';
 
 // Database instance
 let db: Database.Database | null = null;
@@ -13,12 +14,202 @@ export interface ClipEdits {
   trimStart?: number;
   trimEnd?: number;
   audioTracks?: AudioTrackEdit[];
+  segments?: ClipSegment[];
+  audioMix?: AudioMixEdit;
+  transform?: TransformEdit;
+  // Export playback speed (1 = unchanged)
+  speed?: number;
+  overlays?: TextOverlay[];
+  subtitles?: SubtitleEdit;
+}
+
+export interface ClipSegment {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  // Overrides the clip's speed for this segment
+  speed?: number;
 }
 
 export interface AudioTrackEdit {
   index: number;
   volume: number;
   isMuted: boolean;
+  // While any track is soloed, only soloed tracks are heard
+  isSolo?: boolean;
+  // Custom label and color; absent means the stream title / default color
+  name?: string;
+  color?: string;
+  // Audio file laid under the clip instead of one of its own streams, starting
+  // offset seconds into the clip (negative skips into the file)
+  externalPath?: string;
+  offset?: number;
+  // Seconds from the start / to the end of the exported range
+  fadeIn?: number;
+  fadeOut?: number;
+  // Loudness-normalize this track (EBU R128) before volume is applied
+  normalize?: boolean;
+  volumeKeyframes?: VolumeKeyframe[];
+}
+
+// Gain multiplier (0-2) at a source time, interpolated linearly in between
+export interface VolumeKeyframe {
+  time: number;
+  volume: number;
+}
+
+// Settings for the combined mix of all tracks
+export interface AudioMixEdit {
+  normalize: boolean;
+}
+
+// Crop rectangle as fractions (0-1) of the rotated and flipped frame
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AspectPreset = 'free' | '16:9' | '9:16' | '1:1' | '4:5';
+
+// Spatial edits: rotate (clockwise, in 90° steps), then flip, then crop
+export interface TransformEdit {
+  rotation?: number;
+  flipH?: boolean;
+  flipV?: boolean;
+  crop?: CropRect;
+  // Aspect the crop is held to while editing
+  aspect?: AspectPreset;
+}
+
+// Timed caption drawn over the exported frame
+export interface TextOverlay {
+  id: string;
+  text: string;
+  // Center of the text, as fractions (0-1) of the cropped frame
+  x: number;
+  y: number;
+  // Font size as a fraction of the cropped frame's height
+  fontSize: number;
+  // CSS hex color, e.g. #ffffff
+  color: string;
+  // Shown between these source times (seconds)
+  start: number;
+  end: number;
+}
+
+// One timed line of a transcript, in seconds from the start of the clip
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  contentHash: string;
+  // Audio stream the transcript was made from
+  trackIndex: number;
+  engine: string;
+  language: string | null;
+  segments: TranscriptSegment[];
+  createdAt: string;
+}
+
+// Subtitle track shown in the editor and carried into exports
+export interface SubtitleEdit {
+  // One of the clip's subtitle streams (nth subtitle stream), or an SRT/VTT file
+  streamIndex?: number;
+  filePath?: string;
+  // Left out of exports, muxed as a soft track, or burned into the frame
+  mode: 'none' | 'soft' | 'burn';
+}
+
+export interface TagRecord {
+  id: number;
+  name: string;
+  clipCount: number;
+}
+
+export type ExportJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'canceled';
+
+export interface ExportJobRecord {
+  id: string;
+  kind: 'video' | 'reel';
+  label: string;
+  outputPath: string;
+  params: any;
+  status: ExportJobStatus;
+  progress: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ExportPresetSettings {
+  container: 'mp4' | 'mov' | 'mkv' | 'webm';
+  videoCodec: 'copy' | 'libx264' | 'libx265' | 'libvpx-vp9';
+  // 'crf' encodes at constant quality, 'size' aims for targetSizeMB
+  rateControl: 'crf' | 'size';
+  crf: number;
+  targetSizeMB: number;
+  // Resolution cap as output height; null keeps the source size
+  maxHeight: number | null;
+  fps: number | null;
+  audioCodec: 'aac' | 'libmp3lame' | 'libopus';
+  audioBitrateKbps: number;
+  audioMode: 'combine' | 'separate';
+}
+
+export interface ExportPresetRecord {
+  id: number;
+  name: string;
+  settings: ExportPresetSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A library file as stored in the search index
+export interface SearchIndexEntry {
+  path: string;
+  // Unknown until the file has been hashed
+  contentHash: string | null;
+  name: string;
+  // Folder relative to the library root, '' for the root itself
+  folder: string;
+  size: number;
+  duration: number | null;
+}
+
+// Text split into runs that did and didn't match the search
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchMatch {
+  path: string;
+  // Highlighted file name, and the best matching notes or transcript
+  // excerpt; null when the search has no text to highlight
+  name: HighlightPart[] | null;
+  snippet: HighlightPart[] | null;
+}
+
+export type CollectionSortBy = 'name' | 'date' | 'size';
+export type CollectionSortOrder = 'asc' | 'desc';
+
+// A saved library search, listed as a smart collection
+export interface CollectionRecord {
+  id: number;
+  name: string;
+  // In the library search syntax
+  query: string;
+  sortBy: CollectionSortBy;
+  sortOrder: CollectionSortOrder;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface ClipRecord {
@@ -30,11 +221,306 @@ export interface ClipRecord {
   trimStart: number | null;
   trimEnd: number | null;
   audioTracks: string | null;
+  segments: string | null;
+  audioMix: string | null;
+  transform: string | null;
+  speed: number | null;
+  overlays: string | null;
+  subtitles: string | null;
+  notes: string | null;
+  // When the edit columns last changed; updatedAt also moves on favorites and notes
+  editedAt: string | null;
   updatedAt: string;
 }
 
 /**
- * Initialize the database and create tables if they don't exist
+ * A single schema upgrade step. Versions must be strictly increasing,
+ * and each step runs inside its own transaction.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  up: (database: Database.Database) => void;
+}
+
+/**
+ * Ordered list of schema migrations. Never edit a migration that has shipped;
+ * append a new one instead.
+ */
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create clips table',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS clips (
+          contentHash TEXT PRIMARY KEY,
+          filepath TEXT NOT NULL,
+          fileSize INTEGER NOT NULL,
+          duration REAL,
+          isFavorite INTEGER DEFAULT 0,
+          trimStart REAL,
+          trimEnd REAL,
+          audioTracks TEXT,
+          updatedAt TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_filepath ON clips(filepath);
+        CREATE INDEX IF NOT EXISTS idx_favorite ON clips(isFavorite);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Add tags and clip_tags tables',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          createdAt TEXT NOT NULL
+        );
+
+        CREATE TABLE clip_tags (
+          contentHash TEXT NOT NULL,
+          tagId INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          createdAt TEXT NOT NULL,
+          PRIMARY KEY (contentHash, tagId)
+        );
+
+        CREATE INDEX idx_clip_tags_tag ON clip_tags(tagId);
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Add named segments to clips',
+    up: (database) => {
+      database.exec('ALTER TABLE clips ADD COLUMN segments TEXT');
+    },
+  },
+  {
+    version: 4,
+    description: 'Add export job queue and app settings',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE export_jobs (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          label TEXT NOT NULL,
+          outputPath TEXT NOT NULL,
+          params TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'queued',
+          progress REAL NOT NULL DEFAULT 0,
+          error TEXT,
+          createdAt TEXT NOT NULL,
+          startedAt TEXT,
+          finishedAt TEXT
+        );
+
+        CREATE INDEX idx_export_jobs_status ON export_jobs(status);
+
+        CREATE TABLE settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add export presets',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE export_presets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          settings TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Add audio mix settings to clips',
+    up: (database) => {
+      database.exec('ALTER TABLE clips ADD COLUMN audioMix TEXT');
+    },
+  },
+  {
+    version: 7,
+    description: 'Add crop and rotation to clips',
+    up: (database) => {
+      database.exec('ALTER TABLE clips ADD COLUMN transform TEXT');
+    },
+  },
+  {
+    version: 8,
+    description: 'Add export speed to clips',
+    up: (database) => {
+      database.exec('ALTER TABLE clips ADD COLUMN speed REAL');
+    },
+  },
+  {
+    version: 9,
+    description: 'Add text overlays to clips',
+    up: (database) => {
+      database.exec('ALTER TABLE clips ADD COLUMN overlays TEXT');
+    },
+  },
+  {
+    version: 10,
+    description: 'Add subtitle track to clips',
+    up: (database) => {
+      database.exec('ALTER TABLE clips ADD COLUMN subtitles TEXT');
+    },
+  },
+  {
+    version: 11,
+    description: 'Add transcripts',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE transcripts (
+          contentHash TEXT NOT NULL,
+          trackIndex INTEGER NOT NULL,
+          engine TEXT NOT NULL,
+          language TEXT,
+          segments TEXT NOT NULL,
+          text TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          PRIMARY KEY (contentHash, trackIndex)
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: 'Add clip notes and full-text search index',
+    up: (database) => {
+      database.exec(`
+        ALTER TABLE clips ADD COLUMN notes TEXT;
+
+        CREATE VIRTUAL TABLE clip_search USING fts5(
+          path UNINDEXED,
+          root UNINDEXED,
+          contentHash UNINDEXED,
+          size UNINDEXED,
+          duration UNINDEXED,
+          name,
+          folder,
+          notes,
+          tags,
+          transcript,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Add smart collections',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE collections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          query TEXT NOT NULL,
+          sortBy TEXT NOT NULL,
+          sortOrder TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: 'Track when clip edits last changed',
+    up: (database) => {
+      // updatedAt is the closest record existing edits have
+      database.exec(`
+        ALTER TABLE clips ADD COLUMN editedAt TEXT;
+        UPDATE clips SET editedAt = updatedAt
+        WHERE trimStart IS NOT NULL OR trimEnd IS NOT NULL OR audioTracks IS NOT NULL
+          OR segments IS NOT NULL OR audioMix IS NOT NULL OR transform IS NOT NULL
+          OR speed IS NOT NULL OR overlays IS NOT NULL OR subtitles IS NOT NULL;
+      `);
+    },
+  },
+];
+
+/**
+ * Schema version this build of the app expects
+ */
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Thrown when the database on disk was written by a newer version of the app
+ */
+export class DatabaseVersionError extends Error {
+  constructor(public readonly dbVersion: number, public readonly appVersion: number) {
+    super(
+      `The clip database was created by a newer version of Clipfolio (schema v${dbVersion}, ` +
+        `this version supports up to v${appVersion}). Please update Clipfolio to open it.`
+    );
+    this.name = 'DatabaseVersionError';
+  }
+}
+
+/**
+ * Copy the database to a timestamped backup file next to it before upgrading
+ */
+function backupDatabase(database: Database.Database, dbPath: string, fromVersion: number): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = `${dbPath}.v${fromVersion}-${stamp}.bak`;
+
+  // VACUUM INTO produces a consistent snapshot, including pages still in the WAL
+  database.prepare('VACUUM INTO ?').run(backupPath);
+
+  return backupPath;
+}
+
+/**
+ * Bring the schema up to SCHEMA_VERSION, backing up the file first
+ */
+function runMigrations(database: Database.Database, dbPath: string): void {
+  const currentVersion = database.pragma('user_version', { simple: true }) as number;
+
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new DatabaseVersionError(currentVersion, SCHEMA_VERSION);
+  }
+
+  const pending = migrations.filter((m) => m.version > currentVersion);
+  if (pending.length === 0) return;
+
+  // Only back up databases that already hold data; a fresh file has nothing to lose
+  const hasTables = database
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' LIMIT 1")
+    .get() !== undefined;
+  if (hasTables) {
+    const backupPath = backupDatabase(database, dbPath, currentVersion);
+    console.log('[Database] Backed up database to:', backupPath);
+  }
+
+  for (const migration of pending) {
+    console.log(`[Database] Applying migration v${migration.version}: ${migration.description}`);
+
+    const apply = database.transaction(() => {
+      migration.up(database);
+      database.pragma(`user_version = ${migration.version}`);
+    });
+
+    apply();
+  }
+
+  console.log(`[Database] Schema upgraded from v${currentVersion} to v${SCHEMA_VERSION}`);
+}
+
+/**
+ * Initialize the database and apply any pending schema migrations
  */
 export function initDatabase(): void {
   const userDataPath = app.getPath('userData');
@@ -46,27 +532,16 @@ export function initDatabase(): void {
 
   // Enable WAL mode for better concurrent access
   db.pragma('journal_mode = WAL');
+  // Needed so deleting a tag cascades to its clip links
+  db.pragma('foreign_keys = ON');
 
-  // Create tables
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS clips (
-      contentHash TEXT PRIMARY KEY,
-      filepath TEXT NOT NULL,
-      fileSize INTEGER NOT NULL,
-      duration REAL,
-      isFavorite INTEGER DEFAULT 0,
-      trimStart REAL,
-      trimEnd REAL,
-      audioTracks TEXT,
-      updatedAt TEXT NOT NULL
-    )
-  `);
-
-  // Create indexes
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_filepath ON clips(filepath);
-    CREATE INDEX IF NOT EXISTS idx_favorite ON clips(isFavorite);
-  `);
+  try {
+    runMigrations(db, dbPath);
+  } catch (error) {
+    db.close();
+    db = null;
+    throw error;
+  }
 
   console.log('[Database] Database initialized successfully');
 }
@@ -147,16 +622,45 @@ export function saveClipEdits(
 ): void {
   if (!db) throw new Error('Database not initialized');
 
+  const columns = [
+    edits.trimStart ?? null,
+    edits.trimEnd ?? null,
+    edits.audioTracks ? JSON.stringify(edits.audioTracks) : null,
+    edits.segments && edits.segments.length > 0 ? JSON.stringify(edits.segments) : null,
+    edits.audioMix ? JSON.stringify(edits.audioMix) : null,
+    edits.transform ? JSON.stringify(edits.transform) : null,
+    edits.speed ?? null,
+    edits.overlays && edits.overlays.length > 0 ? JSON.stringify(edits.overlays) : null,
+    edits.subtitles ? JSON.stringify(edits.subtitles) : null,
+  ];
+  const now = new Date().toISOString();
+
+  // The editor autosaves unchanged edits too, so editedAt only moves when a column differs
   const stmt = db.prepare(`
-    INSERT INTO clips (contentHash, filepath, fileSize, duration, trimStart, trimEnd, audioTracks, updatedAt)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO clips (contentHash, filepath, fileSize, duration, trimStart, trimEnd, audioTracks, segments, audioMix, transform, speed, overlays, subtitles, editedAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(contentHash) DO UPDATE SET
+      editedAt = CASE
+        WHEN clips.trimStart IS excluded.trimStart AND clips.trimEnd IS excluded.trimEnd
+          AND clips.audioTracks IS excluded.audioTracks AND clips.segments IS excluded.segments
+          AND clips.audioMix IS excluded.audioMix AND clips.transform IS excluded.transform
+          AND clips.speed IS excluded.speed AND clips.overlays IS excluded.overlays
+          AND clips.subtitles IS excluded.subtitles
+        THEN clips.editedAt
+        ELSE excluded.updatedAt
+      END,
       filepath = excluded.filepath,
       fileSize = excluded.fileSize,
       duration = excluded.duration,
       trimStart = excluded.trimStart,
       trimEnd = excluded.trimEnd,
       audioTracks = excluded.audioTracks,
+      segments = excluded.segments,
+      audioMix = excluded.audioMix,
+      transform = excluded.transform,
+      speed = excluded.speed,
+      overlays = excluded.overlays,
+      subtitles = excluded.subtitles,
       updatedAt = excluded.updatedAt
   `);
 
@@ -165,13 +669,27 @@ export function saveClipEdits(
     filepath,
     fileSize,
     duration,
-    edits.trimStart ?? null,
-    edits.trimEnd ?? null,
-    edits.audioTracks ? JSON.stringify(edits.audioTracks) : null,
-    new Date().toISOString()
+    ...columns,
+    // A new row only counts as edited when it holds something
+    columns.some((value) => value !== null) ? now : null,
+    now
   );
 }
 
+/**
+ * Clear a clip's edits (trim, audio tracks, segments, crop, speed, text, subtitles), keeping its favorite and tags
+ */
+export function clearClipEdits(contentHash: string): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    UPDATE clips
+    SET trimStart = NULL, trimEnd = NULL, audioTracks = NULL, segments = NULL, audioMix = NULL,
+      transform = NULL, speed = NULL, overlays = NULL, subtitles = NULL, updatedAt = ?
+    WHERE contentHash = ?
+  `).run(new Date().toISOString(), contentHash);
+}
+
 /**
  * Get clip edits by content hash
  */
@@ -179,7 +697,7 @@ export function getClipEdits(contentHash: string): ClipEdits | null {
   if (!db) throw new Error('Database not initialized');
 
   const stmt = db.prepare(`
-    SELECT trimStart, trimEnd, audioTracks
+    SELECT trimStart, trimEnd, audioTracks, segments, audioMix, transform, speed, overlays, subtitles
     FROM clips
     WHERE contentHash = ?
   `);
@@ -188,6 +706,12 @@ export function getClipEdits(contentHash: string): ClipEdits | null {
     trimStart: number | null;
     trimEnd: number | null;
     audioTracks: string | null;
+    segments: string | null;
+    audioMix: string | null;
+    transform: string | null;
+    speed: number | null;
+    overlays: string | null;
+    subtitles: string | null;
   } | undefined;
 
   if (!row) return null;
@@ -196,6 +720,7 @@ export function getClipEdits(contentHash: string): ClipEdits | null {
 
   if (row.trimStart !== null) edits.trimStart = row.trimStart;
   if (row.trimEnd !== null) edits.trimEnd = row.trimEnd;
+  if (row.speed !== null) edits.speed = row.speed;
   if (row.audioTracks) {
     try {
       edits.audioTracks = JSON.parse(row.audioTracks);
@@ -203,6 +728,41 @@ export function getClipEdits(contentHash: string): ClipEdits | null {
       console.error('[Database] Failed to parse audioTracks JSON:', e);
     }
   }
+  if (row.segments) {
+    try {
+      edits.segments = JSON.parse(row.segments);
+    } catch (e) {
+      console.error('[Database] Failed to parse segments JSON:', e);
+    }
+  }
+  if (row.audioMix) {
+    try {
+      edits.audioMix = JSON.parse(row.audioMix);
+    } catch (e) {
+      console.error('[Database] Failed to parse audioMix JSON:', e);
+    }
+  }
+  if (row.transform) {
+    try {
+      edits.transform = JSON.parse(row.transform);
+    } catch (e) {
+      console.error('[Database] Failed to parse transform JSON:', e);
+    }
+  }
+  if (row.overlays) {
+    try {
+      edits.overlays = JSON.parse(row.overlays);
+    } catch (e) {
+      console.error('[Database] Failed to parse overlays JSON:', e);
+    }
+  }
+  if (row.subtitles) {
+    try {
+      edits.subtitles = JSON.parse(row.subtitles);
+    } catch (e) {
+      console.error('[Database] Failed to parse subtitles JSON:', e);
+    }
+  }
 
   return edits;
 }
@@ -279,6 +839,847 @@ export function getAllClips(): ClipRecord[] {
   return stmt.all() as ClipRecord[];
 }
 
+/**
+ * Normalize a user-entered tag or preset name (trim and collapse whitespace)
+ */
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+// Search queries write tags as tag:"a,b", so a tag can't hold either separator
+function normalizeTagName(name: string): string {
+  const tagName = normalizeName(name);
+  if (!tagName) throw new Error('Tag name cannot be empty');
+  if (/[,"]/.test(tagName)) throw new Error('Tag names cannot contain commas or double quotes');
+  return tagName;
+}
+
+/**
+ * Get all tags with the number of clips using each
+ */
+export function getAllTags(): TagRecord[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT tags.id, tags.name, COUNT(clip_tags.contentHash) AS clipCount
+    FROM tags
+    LEFT JOIN clip_tags ON clip_tags.tagId = tags.id
+    GROUP BY tags.id
+    ORDER BY tags.name COLLATE NOCASE
+  `);
+
+  return stmt.all() as TagRecord[];
+}
+
+/**
+ * Get the tags attached to a clip
+ */
+export function getClipTags(contentHash: string): TagRecord[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT tags.id, tags.name,
+      (SELECT COUNT(*) FROM clip_tags AS ct WHERE ct.tagId = tags.id) AS clipCount
+    FROM clip_tags
+    JOIN tags ON tags.id = clip_tags.tagId
+    WHERE clip_tags.contentHash = ?
+    ORDER BY tags.name COLLATE NOCASE
+  `);
+
+  return stmt.all(contentHash) as TagRecord[];
+}
+
+/**
+ * Attach a tag to one or more clips, creating the tag if it doesn't exist
+ */
+export function addClipTag(contentHashes: string[], name: string): TagRecord {
+  if (!db) throw new Error('Database not initialized');
+
+  const tagName = normalizeTagName(name);
+
+  const database = db;
+  const now = new Date().toISOString();
+
+  const tagId = database.transaction(() => {
+    database
+      .prepare('INSERT INTO tags (name, createdAt) VALUES (?, ?) ON CONFLICT(name) DO NOTHING')
+      .run(tagName, now);
+    const tag = database.prepare('SELECT id FROM tags WHERE name = ?').get(tagName) as { id: number };
+
+    const linkStmt = database.prepare(`
+      INSERT OR IGNORE INTO clip_tags (contentHash, tagId, createdAt)
+      VALUES (?, ?, ?)
+    `);
+    for (const contentHash of contentHashes) {
+      linkStmt.run(contentHash, tag.id, now);
+    }
+
+    return tag.id;
+  })();
+
+  refreshSearchText(contentHashes);
+  return getTagById(tagId)!;
+}
+
+/**
+ * Detach a tag from one or more clips (the tag itself is kept)
+ */
+export function removeClipTag(contentHashes: string[], tagId: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const database = db;
+  const stmt = database.prepare('DELETE FROM clip_tags WHERE contentHash = ? AND tagId = ?');
+
+  database.transaction(() => {
+    for (const contentHash of contentHashes) {
+      stmt.run(contentHash, tagId);
+    }
+  })();
+
+  refreshSearchText(contentHashes);
+}
+
+/**
+ * Rename a tag. Fails if another tag already has the new name; merge instead.
+ */
+export function renameTag(tagId: number, newName: string): TagRecord {
+  if (!db) throw new Error('Database not initialized');
+
+  const tagName = normalizeTagName(newName);
+
+  const existing = db.prepare('SELECT id FROM tags WHERE name = ?').get(tagName) as
+    | { id: number }
+    | undefined;
+  if (existing && existing.id !== tagId) {
+    throw new Error(`A tag named "${tagName}" already exists`);
+  }
+
+  db.prepare('UPDATE tags SET name = ? WHERE id = ?').run(tagName, tagId);
+  refreshSearchText();
+
+  const tag = getTagById(tagId);
+  if (!tag) throw new Error(`Tag ${tagId} not found`);
+  return tag;
+}
+
+/**
+ * Merge source tags into a target tag: clips keep a single link to the target
+ * and the source tags are deleted
+ */
+export function mergeTags(sourceTagIds: number[], targetTagId: number): TagRecord {
+  if (!db) throw new Error('Database not initialized');
+
+  const database = db;
+  const sources = sourceTagIds.filter((id) => id !== targetTagId);
+
+  database.transaction(() => {
+    const relinkStmt = database.prepare(`
+      INSERT OR IGNORE INTO clip_tags (contentHash, tagId, createdAt)
+      SELECT contentHash, ?, createdAt FROM clip_tags WHERE tagId = ?
+    `);
+    const deleteStmt = database.prepare('DELETE FROM tags WHERE id = ?');
+
+    for (const sourceId of sources) {
+      relinkStmt.run(targetTagId, sourceId);
+      deleteStmt.run(sourceId);
+    }
+  })();
+  refreshSearchText();
+
+  const tag = getTagById(targetTagId);
+  if (!tag) throw new Error(`Tag ${targetTagId} not found`);
+  return tag;
+}
+
+/**
+ * Delete a tag and remove it from every clip
+ */
+export function deleteTag(tagId: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare('DELETE FROM tags WHERE id = ?').run(tagId);
+  refreshSearchText();
+}
+
+function getTagById(tagId: number): TagRecord | undefined {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT tags.id, tags.name,
+      (SELECT COUNT(*) FROM clip_tags WHERE clip_tags.tagId = tags.id) AS clipCount
+    FROM tags
+    WHERE tags.id = ?
+  `);
+
+  return stmt.get(tagId) as TagRecord | undefined;
+}
+
+function rowToExportJob(row: any): ExportJobRecord {
+  let params: any = {};
+  try {
+    params = JSON.parse(row.params);
+  } catch (e) {
+    console.error('[Database] Failed to parse export job params JSON:', e);
+  }
+  return { ...row, params };
+}
+
+/**
+ * Persist a new export job in the queued state
+ */
+export function createExportJob(
+  id: string,
+  kind: ExportJobRecord['kind'],
+  label: string,
+  outputPath: string,
+  params: any
+): ExportJobRecord {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    INSERT INTO export_jobs (id, kind, label, outputPath, params, status, progress, createdAt)
+    VALUES (?, ?, ?, ?, ?, 'queued', 0, ?)
+  `).run(id, kind, label, outputPath, JSON.stringify(params), new Date().toISOString());
+
+  return getExportJob(id)!;
+}
+
+/**
+ * Get a single export job
+ */
+export function getExportJob(id: string): ExportJobRecord | null {
+  if (!db) throw new Error('Database not initialized');
+
+  const row = db.prepare('SELECT * FROM export_jobs WHERE id = ?').get(id);
+  return row ? rowToExportJob(row) : null;
+}
+
+/**
+ * Get all export jobs, oldest first
+ */
+export function getExportJobs(): ExportJobRecord[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const rows = db.prepare('SELECT * FROM export_jobs ORDER BY createdAt ASC').all();
+  return rows.map(rowToExportJob);
+}
+
+/**
+ * Move an export job to a new status, stamping start/finish times
+ */
+export function updateExportJobStatus(
+  id: string,
+  status: ExportJobStatus,
+  error: string | null = null
+): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const now = new Date().toISOString();
+  const isFinished = status === 'done' || status === 'failed' || status === 'canceled';
+  const progress = status === 'done' ? 100 : status === 'queued' || status === 'running' ? 0 : null;
+
+  db.prepare(`
+    UPDATE export_jobs
+    SET status = @status,
+      error = @error,
+      progress = COALESCE(@progress, progress),
+      startedAt = CASE WHEN @status = 'running' THEN @now WHEN @status = 'queued' THEN NULL ELSE startedAt END,
+      finishedAt = @finishedAt
+    WHERE id = @id
+  `).run({ id, status, error, progress, now, finishedAt: isFinished ? now : null });
+}
+
+/**
+ * Record the latest progress percentage of a running job
+ */
+export function updateExportJobProgress(id: string, progress: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare('UPDATE export_jobs SET progress = ? WHERE id = ?').run(progress, id);
+}
+
+/**
+ * Put jobs that were running when the app last quit back in the queue
+ */
+export function requeueInterruptedExportJobs(): number {
+  if (!db) throw new Error('Database not initialized');
+
+  const result = db.prepare(`
+    UPDATE export_jobs
+    SET status = 'queued', progress = 0, startedAt = NULL
+    WHERE status = 'running'
+  `).run();
+
+  return result.changes;
+}
+
+/**
+ * Delete an export job that is no longer queued or running
+ */
+export function deleteExportJob(id: string): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    DELETE FROM export_jobs
+    WHERE id = ? AND status NOT IN ('queued', 'running')
+  `).run(id);
+}
+
+/**
+ * Delete every finished (done, failed or canceled) export job
+ */
+export function clearFinishedExportJobs(): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    DELETE FROM export_jobs
+    WHERE status IN ('done', 'failed', 'canceled')
+  `).run();
+}
+
+const PRESET_CONTAINERS: ExportPresetSettings['container'][] = ['mp4', 'mov', 'mkv', 'webm'];
+const PRESET_VIDEO_CODECS: ExportPresetSettings['videoCodec'][] = ['copy', 'libx264', 'libx265', 'libvpx-vp9'];
+const PRESET_AUDIO_CODECS: ExportPresetSettings['audioCodec'][] = ['aac', 'libmp3lame', 'libopus'];
+
+/**
+ * Validate preset settings (from the UI or an imported file), filling in
+ * defaults for anything missing. Throws on values ffmpeg can't honour.
+ */
+export function normalizeExportPresetSettings(raw: any): ExportPresetSettings {
+  const input = raw && typeof raw === 'object' ? raw : {};
+  const pick = <T>(value: any, allowed: T[], fallback: T): T => {
+    if (value === undefined || value === null || value === '') return fallback;
+    if (!allowed.includes(value)) throw new Error(`Unsupported preset value: ${value}`);
+    return value;
+  };
+  const positiveOrNull = (value: any): number | null => {
+    const n = Number(value);
+    return value === null || value === '' || !Number.isFinite(n) || n <= 0 ? null : n;
+  };
+
+  const settings: ExportPresetSettings = {
+    container: pick(input.container, PRESET_CONTAINERS, 'mp4'),
+    videoCodec: pick(input.videoCodec, PRESET_VIDEO_CODECS, 'libx264'),
+    rateControl: pick<ExportPresetSettings['rateControl']>(input.rateControl, ['crf', 'size'], 'crf'),
+    crf: Math.min(51, Math.max(0, Math.round(Number(input.crf ?? 23) || 0))),
+    targetSizeMB: positiveOrNull(input.targetSizeMB) ?? 25,
+    maxHeight: positiveOrNull(input.maxHeight),
+    fps: positiveOrNull(input.fps),
+    audioCodec: pick(input.audioCodec, PRESET_AUDIO_CODECS, 'aac'),
+    audioBitrateKbps: Math.min(512, Math.max(32, Math.round(Number(input.audioBitrateKbps) || 128))),
+    audioMode: pick<ExportPresetSettings['audioMode']>(input.audioMode, ['combine', 'separate'], 'combine'),
+  };
+  if (settings.maxHeight !== null) {
+    settings.maxHeight = Math.max(2, Math.round(settings.maxHeight / 2) * 2);
+  }
+
+  if (settings.container === 'webm') {
+    if (settings.videoCodec === 'libx264' || settings.videoCodec === 'libx265') {
+      throw new Error('WebM presets need the VP9 video codec (or stream copy)');
+    }
+    if (settings.audioCodec !== 'libopus') {
+      throw new Error('WebM presets need the Opus audio codec');
+    }
+  }
+  if (settings.container === 'mov' && settings.audioCodec === 'libopus') {
+    throw new Error('MOV presets cannot use the Opus audio codec');
+  }
+  // Stream copy can't resize, change frame rate or hit a size budget
+  if (settings.videoCodec === 'copy') {
+    settings.rateControl = 'crf';
+    settings.maxHeight = null;
+    settings.fps = null;
+  }
+
+  return settings;
+}
+
+function rowToExportPreset(row: any): ExportPresetRecord {
+  return { ...row, settings: normalizeExportPresetSettings(JSON.parse(row.settings)) };
+}
+
+/**
+ * Get all export presets, alphabetically
+ */
+export function getExportPresets(): ExportPresetRecord[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const rows = db.prepare('SELECT * FROM export_presets ORDER BY name COLLATE NOCASE').all();
+  return rows.map(rowToExportPreset);
+}
+
+/**
+ * Create a preset, or update it when an id is given. Names must be unique.
+ */
+export function saveExportPreset(
+  name: string,
+  settings: Partial<ExportPresetSettings>,
+  id?: number
+): ExportPresetRecord {
+  if (!db) throw new Error('Database not initialized');
+
+  const presetName = normalizeName(name || '');
+  if (!presetName) throw new Error('Preset name cannot be empty');
+  const normalized = JSON.stringify(normalizeExportPresetSettings(settings));
+
+  const existing = db.prepare('SELECT id FROM export_presets WHERE name = ?').get(presetName) as
+    | { id: number }
+    | undefined;
+  if (existing && existing.id !== id) {
+    throw new Error(`A preset named "${presetName}" already exists`);
+  }
+
+  const now = new Date().toISOString();
+  let presetId = id;
+  if (presetId !== undefined) {
+    const result = db
+      .prepare('UPDATE export_presets SET name = ?, settings = ?, updatedAt = ? WHERE id = ?')
+      .run(presetName, normalized, now, presetId);
+    if (result.changes === 0) throw new Error(`Preset ${presetId} not found`);
+  } else {
+    const result = db
+      .prepare('INSERT INTO export_presets (name, settings, createdAt, updatedAt) VALUES (?, ?, ?, ?)')
+      .run(presetName, normalized, now, now);
+    presetId = Number(result.lastInsertRowid);
+  }
+
+  return rowToExportPreset(db.prepare('SELECT * FROM export_presets WHERE id = ?').get(presetId));
+}
+
+/**
+ * Delete an export preset
+ */
+export function deleteExportPreset(id: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare('DELETE FROM export_presets WHERE id = ?').run(id);
+}
+
+/**
+ * Import shared presets, overwriting any preset with the same name.
+ * Every entry is validated before anything is written.
+ */
+export function importExportPresets(
+  presets: Array<{ name: string; settings: Partial<ExportPresetSettings> }>
+): number {
+  if (!db) throw new Error('Database not initialized');
+
+  const entries = presets.map((preset) => {
+    const name = normalizeName(String(preset?.name ?? ''));
+    if (!name) throw new Error('Every preset needs a name');
+    return { name, settings: JSON.stringify(normalizeExportPresetSettings(preset.settings)) };
+  });
+
+  const database = db;
+  const now = new Date().toISOString();
+  const upsert = database.prepare(`
+    INSERT INTO export_presets (name, settings, createdAt, updatedAt)
+    VALUES (@name, @settings, @now, @now)
+    ON CONFLICT(name) DO UPDATE SET settings = excluded.settings, updatedAt = excluded.updatedAt
+  `);
+
+  database.transaction(() => {
+    for (const entry of entries) {
+      upsert.run({ ...entry, now });
+    }
+  })();
+
+  return entries.length;
+}
+
+/**
+ * Store (or replace) the transcript of one of a clip's audio tracks
+ */
+export function saveTranscript(transcript: Omit<Transcript, 'createdAt'>): Transcript {
+  if (!db) throw new Error('Database not initialized');
+
+  const createdAt = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO transcripts (contentHash, trackIndex, engine, language, segments, text, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(contentHash, trackIndex) DO UPDATE SET
+      engine = excluded.engine,
+      language = excluded.language,
+      segments = excluded.segments,
+      text = excluded.text,
+      createdAt = excluded.createdAt
+  `).run(
+    transcript.contentHash,
+    transcript.trackIndex,
+    transcript.engine,
+    transcript.language,
+    JSON.stringify(transcript.segments),
+    transcript.segments.map((segment) => segment.text).join(' '),
+    createdAt
+  );
+  refreshSearchText([transcript.contentHash]);
+  return { ...transcript, createdAt };
+}
+
+/**
+ * Transcripts of a clip, by track
+ */
+export function getTranscripts(contentHash: string): Transcript[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const rows = db.prepare(`
+    SELECT contentHash, trackIndex, engine, language, segments, createdAt
+    FROM transcripts
+    WHERE contentHash = ?
+    ORDER BY trackIndex
+  `).all(contentHash) as Array<Omit<Transcript, 'segments'> & { segments: string }>;
+
+  return rows.map((row) => {
+    let segments: TranscriptSegment[] = [];
+    try {
+      segments = JSON.parse(row.segments);
+    } catch (e) {
+      console.error('[Database] Failed to parse transcript JSON:', e);
+    }
+    return { ...row, segments };
+  });
+}
+
+export function deleteTranscript(contentHash: string, trackIndex: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare('DELETE FROM transcripts WHERE contentHash = ? AND trackIndex = ?').run(
+    contentHash,
+    trackIndex
+  );
+  refreshSearchText([contentHash]);
+}
+
+/**
+ * Get a clip's notes ('' when it has none)
+ */
+export function getClipNotes(contentHash: string): string {
+  if (!db) throw new Error('Database not initialized');
+
+  const row = db.prepare('SELECT notes FROM clips WHERE contentHash = ?').get(contentHash) as
+    | { notes: string | null }
+    | undefined;
+  return row?.notes ?? '';
+}
+
+/**
+ * Set a clip's notes, creating its record if needed
+ */
+export function setClipNotes(
+  contentHash: string,
+  filepath: string,
+  fileSize: number,
+  duration: number | null,
+  notes: string
+): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    INSERT INTO clips (contentHash, filepath, fileSize, duration, notes, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(contentHash) DO UPDATE SET
+      notes = excluded.notes,
+      updatedAt = excluded.updatedAt
+  `).run(contentHash, filepath, fileSize, duration, notes.trim() || null, new Date().toISOString());
+
+  refreshSearchText([contentHash]);
+}
+
+// Wrapped around matched text by highlight() and snippet()
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// Whether the joined clips row holds any saved edits
+const HAS_EDITS = `(clips.trimStart IS NOT NULL OR clips.trimEnd IS NOT NULL
+  OR clips.audioTracks IS NOT NULL OR clips.segments IS NOT NULL OR clips.audioMix IS NOT NULL
+  OR clips.transform IS NOT NULL OR clips.speed IS NOT NULL OR clips.overlays IS NOT NULL
+  OR clips.subtitles IS NOT NULL)`;
+
+// bm25 weights, in column order: a name hit counts most, transcripts least
+const SEARCH_RANK = 'bm25(clip_search, 0, 0, 0, 0, 0, 10, 4, 3, 5, 1)';
+
+/**
+ * Notes, tag names and transcript text of the clip whose hash is hashExpr,
+ * as the values of the index's notes, tags and transcript columns
+ */
+function searchTextColumns(hashExpr: string): string {
+  return `
+    COALESCE((SELECT notes FROM clips WHERE clips.contentHash = ${hashExpr}), ''),
+    COALESCE((
+      SELECT group_concat(tags.name, ' ')
+      FROM clip_tags JOIN tags ON tags.id = clip_tags.tagId
+      WHERE clip_tags.contentHash = ${hashExpr}
+    ), ''),
+    COALESCE((SELECT group_concat(text, ' ') FROM transcripts WHERE transcripts.contentHash = ${hashExpr}), '')
+  `;
+}
+
+function insertSearchEntry(database: Database.Database, root: string, entry: SearchIndexEntry): void {
+  database.prepare(`
+    INSERT INTO clip_search (path, root, contentHash, size, duration, name, folder, notes, tags, transcript)
+    VALUES (@path, @root, @contentHash, @size, @duration, @name, @folder, ${searchTextColumns('@contentHash')})
+  `).run({ ...entry, root });
+}
+
+/**
+ * Replace the index of a library folder with its current files
+ */
+export function syncSearchIndex(root: string, entries: SearchIndexEntry[]): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const database = db;
+  database.transaction(() => {
+    database.prepare('DELETE FROM clip_search WHERE root = ?').run(root);
+    for (const entry of entries) {
+      insertSearchEntry(database, root, entry);
+    }
+  })();
+}
+
+/**
+ * Add or update a single file in a library folder's index
+ */
+export function indexSearchEntry(root: string, entry: SearchIndexEntry): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const database = db;
+  database.transaction(() => {
+    database.prepare('DELETE FROM clip_search WHERE path = ?').run(entry.path);
+    insertSearchEntry(database, root, entry);
+  })();
+}
+
+export function removeSearchEntry(filePath: string): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare('DELETE FROM clip_search WHERE path = ?').run(filePath);
+}
+
+/**
+ * Re-read notes, tags and transcripts into the index, for the given clips or
+ * for every indexed clip
+ */
+function refreshSearchText(contentHashes?: string[]): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const database = db;
+  const sql = `
+    UPDATE clip_search
+    SET (notes, tags, transcript) = (SELECT ${searchTextColumns('clip_search.contentHash')})
+    WHERE contentHash ${contentHashes ? '= ?' : 'IS NOT NULL'}
+  `;
+  if (!contentHashes) {
+    database.prepare(sql).run();
+    return;
+  }
+
+  const stmt = database.prepare(sql);
+  database.transaction(() => {
+    for (const contentHash of contentHashes) {
+      stmt.run(contentHash);
+    }
+  })();
+}
+
+function toHighlightParts(marked: string | null): HighlightPart[] | null {
+  if (!marked || !marked.includes(MATCH_START)) return null;
+
+  const parts: HighlightPart[] = [];
+  for (const chunk of marked.split(MATCH_START)) {
+    const [matched, rest] = chunk.includes(MATCH_END) ? chunk.split(MATCH_END) : ['', chunk];
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+/**
+ * SQL condition (and its parameters) for one non-text search term, or a
+ * negated text term, evaluated against a clip_search row
+ */
+function searchTermCondition(root: string, term: SearchTerm): { sql: string; params: unknown[] } {
+  let sql: string;
+  let params: unknown[];
+
+  switch (term.kind) {
+    case 'text':
+      sql = `clip_search.path IN (
+        SELECT path FROM clip_search WHERE clip_search MATCH ? AND root = ?
+      )`;
+      params = [toMatchExpression(term), root];
+      break;
+    case 'tag':
+      sql = `EXISTS (
+        SELECT 1 FROM clip_tags JOIN tags ON tags.id = clip_tags.tagId
+        WHERE clip_tags.contentHash = clip_search.contentHash
+          AND tags.name IN (${term.names.map(() => '?').join(', ')})
+      )`;
+      params = term.names.map(normalizeName);
+      break;
+    case 'duration':
+    case 'size': {
+      const column = `CAST(clip_search.${term.kind} AS REAL)`;
+      if (term.op === '=') {
+        sql = `ABS(${column} - ?) < ?`;
+        params = [term.value, term.tolerance];
+      } else {
+        sql = `${column} ${term.op} ?`;
+        params = [term.value];
+      }
+      break;
+    }
+    case 'edited': {
+      // editedAt is an ISO timestamp, so string order is time order
+      const cutoff = new Date(Date.now() - term.seconds * 1000).toISOString();
+      sql = `(${HAS_EDITS} AND clips.editedAt ${term.op === '<' ? '>' : '<'} ?)`;
+      params = [cutoff];
+      break;
+    }
+    case 'is':
+      sql = term.flag === 'favorite' ? 'COALESCE(clips.isFavorite, 0) = 1' : HAS_EDITS;
+      params = [];
+      break;
+  }
+
+  return { sql: term.negated ? `NOT (${sql})` : sql, params };
+}
+
+/**
+ * Search a library folder's index. Results are ranked by relevance when the
+ * search has text, otherwise returned in no particular order.
+ */
+export function searchClips(root: string, search: ParsedSearch): SearchMatch[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const conditions = ['clip_search.root = ?'];
+  const params: unknown[] = [root];
+
+  const matchExpression = search.terms
+    .filter((term) => term.kind === 'text' && !term.negated)
+    .map((term) => toMatchExpression(term as Extract<SearchTerm, { kind: 'text' }>))
+    .join(' AND ');
+  if (matchExpression) {
+    conditions.push('clip_search MATCH ?');
+    params.push(matchExpression);
+  }
+
+  for (const term of search.terms) {
+    if (term.kind === 'text' && !term.negated) continue;
+    const condition = searchTermCondition(root, term);
+    conditions.push(condition.sql);
+    params.push(...condition.params);
+  }
+
+  const columns = matchExpression
+    ? `highlight(clip_search, 5, ?, ?) AS name,
+       snippet(clip_search, 7, ?, ?, '…', 12) AS notes,
+       snippet(clip_search, 9, ?, ?, '…', 12) AS transcript`
+    : 'NULL AS name, NULL AS notes, NULL AS transcript';
+  const markers = matchExpression
+    ? [MATCH_START, MATCH_END, MATCH_START, MATCH_END, MATCH_START, MATCH_END]
+    : [];
+
+  const rows = db.prepare(`
+    SELECT clip_search.path AS path, ${columns}
+    FROM clip_search
+    LEFT JOIN clips ON clips.contentHash = clip_search.contentHash
+    WHERE ${conditions.join(' AND ')}
+    ${matchExpression ? `ORDER BY ${SEARCH_RANK}` : ''}
+  `).all(...markers, ...params) as Array<{
+    path: string;
+    name: string | null;
+    notes: string | null;
+    transcript: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    path: row.path,
+    name: toHighlightParts(row.name),
+    snippet: toHighlightParts(row.notes) ?? toHighlightParts(row.transcript),
+  }));
+}
+
+/**
+ * Get all smart collections, alphabetically
+ */
+export function getCollections(): CollectionRecord[] {
+  if (!db) throw new Error('Database not initialized');
+
+  return db.prepare('SELECT * FROM collections ORDER BY name COLLATE NOCASE').all() as CollectionRecord[];
+}
+
+/**
+ * Create a collection, or update it when an id is given. Names must be unique.
+ */
+export function saveCollection(
+  collection: Pick<CollectionRecord, 'name' | 'query' | 'sortBy' | 'sortOrder'>,
+  id?: number
+): CollectionRecord {
+  if (!db) throw new Error('Database not initialized');
+
+  const name = normalizeName(collection.name || '');
+  if (!name) throw new Error('Collection name cannot be empty');
+  const query = (collection.query || '').trim();
+  const sortBy = ['name', 'date', 'size'].includes(collection.sortBy) ? collection.sortBy : 'date';
+  const sortOrder = collection.sortOrder === 'asc' ? 'asc' : 'desc';
+
+  const existing = db.prepare('SELECT id FROM collections WHERE name = ?').get(name) as
+    | { id: number }
+    | undefined;
+  if (existing && existing.id !== id) {
+    throw new Error(`A collection named "${name}" already exists`);
+  }
+
+  const now = new Date().toISOString();
+  let collectionId = id;
+  if (collectionId !== undefined) {
+    const result = db
+      .prepare('UPDATE collections SET name = ?, query = ?, sortBy = ?, sortOrder = ?, updatedAt = ? WHERE id = ?')
+      .run(name, query, sortBy, sortOrder, now, collectionId);
+    if (result.changes === 0) throw new Error(`Collection ${collectionId} not found`);
+  } else {
+    const result = db
+      .prepare(`
+        INSERT INTO collections (name, query, sortBy, sortOrder, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(name, query, sortBy, sortOrder, now, now);
+    collectionId = Number(result.lastInsertRowid);
+  }
+
+  return db.prepare('SELECT * FROM collections WHERE id = ?').get(collectionId) as CollectionRecord;
+}
+
+export function deleteCollection(id: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare('DELETE FROM collections WHERE id = ?').run(id);
+}
+
+/**
+ * Read an app setting, or null if it has never been set
+ */
+export function getSetting(key: string): string | null {
+  if (!db) throw new Error('Database not initialized');
+
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as
+    | { value: string }
+    | undefined;
+  return row ? row.value : null;
+}
+
+/**
+ * Store an app setting
+ */
+export function setSetting(key: string, value: string): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    INSERT INTO settings (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `).run(key, value);
+}
+
 /**
  * Update filepath for a clip (when file is moved/renamed)
  */
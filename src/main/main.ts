@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, dialog, nativeImage, shell, protocol } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, nativeImage, shell, protocol, IpcMainInvokeEvent } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import log from 'electron-log';
 import * as path from 'path';
@@ -9,6 +9,13 @@ import { execFile } from 'child_process';
 import { promisify } from 'util';
 import ffmpeg from 'fluent-ffmpeg';
 import * as db from './database';
+import { parseSearchQuery } from './search';
+import {
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  TranscriptionSettings,
+  getTranscriptionEngine,
+  listTranscriptionEngines,
+} from './transcription';
 
 const execFileAsync = promisify(execFile);
 
@@ -117,9 +124,11 @@ app.setAppUserModelId('com.clipfolio.app');
 
 let mainWindow: BrowserWindow | null = null;
 
-// Track active export commands per renderer to allow cancellation
-const activeExports = new Map<number, ffmpeg.FfmpegCommand>();
-const canceledExports = new Set<number>();
+// Track active export commands per jobId to allow cancellation
+const activeExports = new Map<string, ffmpeg.FfmpegCommand>();
+const canceledExports = new Set<string>();
+// Which renderer started each direct (non-queued) export, for cancel-export without a jobId
+const exportOwners = new Map<string, number>();
 
 // Register the protocol as privileged before app is ready
 protocol.registerSchemesAsPrivileged([
@@ -300,9 +309,20 @@ app.whenReady().then(() => {
     }
   });
 
-  db.initDatabase();
+  try {
+    db.initDatabase();
+  } catch (error: any) {
+    // Refuse to continue rather than risk writing to an incompatible database
+    console.error('[Database] Failed to open database:', error);
+    dialog.showErrorBox('Clipfolio cannot open its database', error?.message || String(error));
+    app.quit();
+    return;
+  }
+
   createWindow();
 
+  initExportQueue();
+
   setupAutoUpdate();
 });
 
@@ -360,6 +380,38 @@ ipcMain.handle('select-folder', async () => {
   return result.filePaths[0];
 });
 
+ipcMain.handle('select-audio-file', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [
+      { name: 'Audio', extensions: ['mp3', 'wav', 'm4a', 'aac', 'flac', 'ogg', 'opus', 'wma'] },
+      { name: 'All files', extensions: ['*'] }
+    ]
+  });
+
+  if (result.canceled) {
+    return null;
+  }
+
+  return result.filePaths[0];
+});
+
+ipcMain.handle('select-subtitle-file', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [
+      { name: 'Subtitles', extensions: ['srt', 'vtt'] },
+      { name: 'All files', extensions: ['*'] }
+    ]
+  });
+
+  if (result.canceled) {
+    return null;
+  }
+
+  return result.filePaths[0];
+});
+
 ipcMain.handle('select-save-location', async (event, defaultPath: string, filters?: Array<{ name: string; extensions: string[] }>) => {
   const result = await dialog.showSaveDialog({
     defaultPath,
@@ -490,6 +542,55 @@ ipcMain.handle('get-cached-metadata', async (event, videoPath: string) => {
   return await p;
 });
 
+// Keyframe (video packet) times, cached per path + mtime + size (+ range, when limited to one)
+const keyframeTasks = new Map<string, Promise<number[]>>();
+function getKeyframeTimes(videoPath: string, range?: { start: number; end: number }): Promise<number[]> {
+  let key = videoPath;
+  try {
+    const stat = fs.statSync(videoPath);
+    key = `${videoPath}:${stat.mtimeMs}:${stat.size}`;
+  } catch {}
+  // A second either side still finds the keyframes at the range edges
+  const interval = range ? `${Math.max(0, range.start - 1)}%${range.end + 1}` : null;
+  if (interval) key += `:${interval}`;
+
+  let p = keyframeTasks.get(key);
+  if (!p) {
+    p = (async () => {
+      // Reading packet flags avoids decoding, so this stays fast on long recordings
+      const { stdout } = await execFileAsync(resolveFfprobe(), [
+        '-v', 'error',
+        '-select_streams', 'v:0',
+        '-show_entries', 'packet=pts_time,dts_time,flags',
+        '-of', 'csv=p=0',
+        ...(interval ? ['-read_intervals', interval] : []),
+        '-i', videoPath
+      ], { maxBuffer: 256 * 1024 * 1024 });
+
+      const times: number[] = [];
+      for (const line of stdout.split(/\r?\n/)) {
+        const fields = line.split(',');
+        if (!fields[fields.length - 1]?.startsWith('K')) continue;
+        const time = parseFloat(fields[0] !== 'N/A' ? fields[0] : fields[1]);
+        if (Number.isFinite(time)) times.push(time);
+      }
+      return times.sort((a, b) => a - b);
+    })();
+    p.catch(() => keyframeTasks.delete(key));
+    keyframeTasks.set(key, p);
+  }
+  return p;
+}
+
+ipcMain.handle('get-keyframes', async (event, videoPath: string) => {
+  try {
+    return await getKeyframeTimes(videoPath);
+  } catch (error: any) {
+    console.error('[Keyframes] Error probing keyframes:', error.message);
+    return [];
+  }
+});
+
 ipcMain.handle('generate-thumbnail', async (event, videoPath: string, outputPath: string, timestampSeconds?: number) => {
   return new Promise((resolve, reject) => {
     const screenshotsOpts: any = {
@@ -650,6 +751,62 @@ ipcMain.handle('get-cached-thumbnail', async (event, videoPath: string, duration
   return await task;
 });
 
+// Filmstrip frames for the editor's video lane, one small JPEG per timestamp
+const filmstripTasks = new Map<string, Promise<string>>();
+function computeCachedFilmstripPath(videoPath: string, time: number): string {
+  // Keyed like computeCachedThumbPath: path + mtime + size, plus the frame time
+  const hashInput = crypto.createHash('sha1').update(videoPath);
+  try {
+    const stat = fs.statSync(videoPath);
+    hashInput.update(String(stat.mtimeMs)).update(String(stat.size));
+  } catch {}
+  hashInput.update(`frame-${time.toFixed(3)}`);
+
+  const hash = hashInput.digest('hex').slice(0, 16);
+  const base = path.basename(videoPath, path.extname(videoPath));
+  return path.join(os.tmpdir(), 'clipfolio-filmstrip', `${base}-${hash}.jpg`);
+}
+
+ipcMain.handle('get-cached-filmstrip-frame', async (event, videoPath: string, time: number) => {
+  const outPath = computeCachedFilmstripPath(videoPath, time);
+  if (fs.existsSync(outPath)) return outPath;
+
+  let task = filmstripTasks.get(outPath);
+  if (!task) {
+    task = new Promise<string>((resolve, reject) => {
+      try {
+        const dir = path.dirname(outPath);
+        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+      } catch {}
+
+      const command = ffmpeg(videoPath)
+        .seekInput(Math.max(0, time))
+        .outputOptions(['-vframes 1', '-vf scale=-2:90', '-q:v 5'])
+        .output(outPath);
+
+      const timeoutId = setTimeout(() => {
+        command.kill('SIGKILL');
+        reject(new Error('Filmstrip frame timeout'));
+      }, 10000);
+
+      command
+        .on('end', () => {
+          clearTimeout(timeoutId);
+          resolve(outPath);
+        })
+        .on('error', (err) => {
+          clearTimeout(timeoutId);
+          reject(err);
+        })
+        .run();
+    }).finally(() => {
+      filmstripTasks.delete(outPath);
+    });
+    filmstripTasks.set(outPath, task);
+  }
+  return await task;
+});
+
 ipcMain.handle('extract-audio-tracks', async (event, videoPath: string, outputDir: string) => {
   return new Promise(async (resolve, reject) => {
     try {
@@ -735,7 +892,8 @@ function computeAudioCacheDir(videoPath: string): string {
   }
 }
 
-ipcMain.handle('get-cached-extracted-audio', async (event, videoPath: string, forceRefresh: boolean = false) => {
+// Every audio stream of a video as a 48 kHz stereo WAV, extracted once and cached
+async function getCachedExtractedAudio(videoPath: string, forceRefresh: boolean = false): Promise<string[]> {
   const cacheDir = computeAudioCacheDir(videoPath);
   const ensureDir = () => {
     try {
@@ -885,6 +1043,199 @@ ipcMain.handle('get-cached-extracted-audio', async (event, videoPath: string, fo
 
   audioExtractTasks.set(cacheDir, task);
   return await task;
+}
+
+ipcMain.handle('get-cached-extracted-audio', async (event, videoPath: string, forceRefresh: boolean = false) => {
+  return await getCachedExtractedAudio(videoPath, forceRefresh);
+});
+
+// Cues of a subtitle stream (nth subtitle stream of the video) or an SRT/VTT file
+ipcMain.handle('get-subtitle-cues', async (
+  event,
+  videoPath: string,
+  source: { streamIndex?: number; filePath?: string }
+) => {
+  try {
+    return await loadSubtitleCues(videoPath, source);
+  } catch (error: any) {
+    console.error('Load subtitles error:', error);
+    throw new Error(`Failed to load subtitles: ${error.message}`);
+  }
+});
+
+// Transcriptions in progress, by `${contentHash}:${trackIndex}`
+const activeTranscriptions = new Map<string, AbortController>();
+
+function getTranscriptionSettings(): TranscriptionSettings {
+  try {
+    const stored = db.getSetting('transcription');
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS };
+  }
+}
+
+// Resample a cached track to the 16 kHz mono WAV transcription engines take
+function resampleForTranscription(inputPath: string, outputPath: string, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Transcription canceled'));
+      return;
+    }
+    const command = ffmpeg(inputPath)
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioCodec('pcm_s16le')
+      .output(outputPath);
+
+    const onAbort = () => command.kill('SIGKILL');
+    signal.addEventListener('abort', onAbort);
+
+    command
+      .on('end', () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      })
+      .on('error', (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(signal.aborted ? new Error('Transcription canceled') : err);
+      })
+      .run();
+  });
+}
+
+/**
+ * Transcribe one of a clip's audio tracks with the configured engine, working
+ * from the cached extracted WAVs, and store the result
+ */
+async function transcribeClipTrack(
+  videoPath: string,
+  contentHash: string,
+  trackIndex: number,
+  onProgress: (percent: number) => void,
+  signal: AbortSignal
+): Promise<db.Transcript> {
+  const settings = getTranscriptionSettings();
+  const engine = getTranscriptionEngine(settings.engine);
+  if (!engine) {
+    throw new Error(`Unknown transcription engine: ${settings.engine}`);
+  }
+  if (!settings.binaryPath || !fs.existsSync(settings.binaryPath)) {
+    throw new Error(`Set the path to ${engine.name} in the transcription settings first`);
+  }
+
+  const tracks = await getCachedExtractedAudio(videoPath);
+  if (!tracks[trackIndex]) {
+    throw new Error(`Audio track ${trackIndex + 1} not found`);
+  }
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipfolio-transcribe-'));
+  try {
+    const wavPath = path.join(workDir, 'audio.wav');
+    await resampleForTranscription(tracks[trackIndex], wavPath, signal);
+    if (signal.aborted) throw new Error('Transcription canceled');
+
+    const segments = await engine.transcribe(wavPath, { settings, workDir, onProgress, signal });
+    return db.saveTranscript({
+      contentHash,
+      trackIndex,
+      engine: engine.id,
+      language: settings.language === 'auto' ? null : settings.language,
+      segments,
+    });
+  } finally {
+    try { fs.rmSync(workDir, { recursive: true, force: true }); } catch {}
+  }
+}
+
+ipcMain.handle('get-transcription-settings', async () => {
+  return { settings: getTranscriptionSettings(), engines: listTranscriptionEngines() };
+});
+
+ipcMain.handle('set-transcription-settings', async (event, settings: Partial<TranscriptionSettings>) => {
+  const next = { ...getTranscriptionSettings(), ...settings };
+  db.setSetting('transcription', JSON.stringify(next));
+  return next;
+});
+
+ipcMain.handle('select-transcriber-file', async (event, kind: 'binary' | 'model') => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: kind === 'model'
+      ? [
+          { name: 'Models', extensions: ['bin', 'gguf'] },
+          { name: 'All files', extensions: ['*'] }
+        ]
+      : process.platform === 'win32'
+        ? [{ name: 'Programs', extensions: ['exe'] }]
+        : []
+  });
+
+  if (result.canceled) {
+    return null;
+  }
+
+  return result.filePaths[0];
+});
+
+ipcMain.handle('transcribe-clip', async (event, videoPath: string, contentHash: string, trackIndex: number) => {
+  const key = `${contentHash}:${trackIndex}`;
+  if (activeTranscriptions.has(key)) {
+    throw new Error('This track is already being transcribed');
+  }
+
+  const controller = new AbortController();
+  activeTranscriptions.set(key, controller);
+  try {
+    return await transcribeClipTrack(
+      videoPath,
+      contentHash,
+      trackIndex,
+      (percent) => {
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('transcription-progress', { contentHash, trackIndex, percent });
+        }
+      },
+      controller.signal
+    );
+  } catch (error: any) {
+    console.error('Transcription error:', error);
+    throw new Error(error.message);
+  } finally {
+    activeTranscriptions.delete(key);
+  }
+});
+
+ipcMain.handle('cancel-transcription', async (event, contentHash: string, trackIndex: number) => {
+  const controller = activeTranscriptions.get(`${contentHash}:${trackIndex}`);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+});
+
+ipcMain.handle('get-transcripts', async (event, contentHash: string) => {
+  try {
+    return db.getTranscripts(contentHash);
+  } catch (error) {
+    console.error('Error getting transcripts:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('delete-transcript', async (event, contentHash: string, trackIndex: number) => {
+  db.deleteTranscript(contentHash, trackIndex);
+  return true;
+});
+
+// Write a transcript as SRT, timed from the start of the clip
+ipcMain.handle('export-transcript-srt', async (event, contentHash: string, trackIndex: number, outputPath: string) => {
+  const transcript = db.getTranscripts(contentHash).find((t) => t.trackIndex === trackIndex);
+  if (!transcript) {
+    throw new Error('No transcript for this track');
+  }
+
+  await fs.promises.writeFile(outputPath, buildSrt(transcript.segments), 'utf8');
+  return outputPath;
 });
 
 ipcMain.handle('generate-timeline-thumbnails', async (event, videoPath: string, outputDir: string, count: number = 10) => {
@@ -917,213 +1268,187 @@ ipcMain.handle('generate-timeline-thumbnails', async (event, videoPath: string,
   });
 });
 
-ipcMain.handle('export-video', async (
-  event,
-  inputPath: string,
-  outputPath: string,
-  startTime: number,
-  endTime: number,
-  quality: 'full' | 'compressed',
-  audioTracks?: { index: number; volume: number }[],
-  targetSizeMB?: number,
-  jobId?: string,
-  audioMode?: 'combine' | 'separate',
-  outputType?: 'video' | 'mp3'
-) => {
-  const duration = endTime - startTime;
-  const meta: any = await new Promise((resolve) => {
-    ffmpeg.ffprobe(inputPath, (err, data) => resolve(data || { format: {}, streams: [] }));
-  });
-  const audioStreams = (meta.streams || []).filter((s: any) => s.codec_type === 'audio');
-  const numAudioStreams = audioStreams.length;
-  const getVolumeForIndex = (idx: number): number => {
-    const found = (audioTracks || []).find(t => t.index === idx);
-    return found ? (typeof found.volume === 'number' ? found.volume : 1.0) : 1.0;
-  };
-
-  const buildFilterAndMaps = (mode: 'combine' | 'separate', type: 'video' | 'mp3') => {
-    const filterParts: string[] = [];
-    const mapOptions: string[] = [];
-
-    const useCombine = type === 'mp3' ? true : (mode === 'combine');
+type ExportResult = string | { status: 'canceled' };
 
-    if (type === 'video') {
-      mapOptions.push('-map', '0:v:0');
-    } else {
-      mapOptions.push('-vn');
-    }
+// Forward encoder progress to the renderer, tagged with the export's jobId
+function sendExportProgress(progress: any, jobId?: string) {
+  if (mainWindow) {
+    try {
+      mainWindow.webContents.send('export-progress', { ...progress, jobId });
+    } catch {}
+  }
+}
 
-    if (numAudioStreams <= 0) {
-      return { filterParts, mapOptions };
-    }
+// Take a cancel that arrived while no ffmpeg command was registered to kill
+function consumeCancel(jobId: string): boolean {
+  if (!canceledExports.has(jobId)) return false;
+  canceledExports.delete(jobId);
+  return true;
+}
 
-    if (useCombine) {
-      const inputLabels: string[] = [];
-      for (let i = 0; i < numAudioStreams; i++) {
-        const vol = getVolumeForIndex(i);
-        if (Math.abs(vol - 1.0) > 1e-6) {
-          filterParts.push(`[0:a:${i}]volume=${vol}[a${i}]`);
-          inputLabels.push(`[a${i}]`);
-        } else {
-          inputLabels.push(`[0:a:${i}]`);
-        }
-      }
-      if (inputLabels.length === 1 && inputLabels[0] === '[0:a:0]') {
-        mapOptions.push('-map', '0:a:0');
-      } else {
-        filterParts.push(`${inputLabels.join('')}amix=inputs=${inputLabels.length}:duration=longest[aout]`);
-        mapOptions.push('-map', '[aout]');
-      }
-    } else {
-      for (let i = 0; i < numAudioStreams; i++) {
-        const vol = getVolumeForIndex(i);
-        if (Math.abs(vol - 1.0) > 1e-6) {
-          filterParts.push(`[0:a:${i}]volume=${vol}[a${i}]`);
-          mapOptions.push('-map', `[a${i}]`);
+/**
+ * Run an export command, registering it so 'cancel-export' can kill it.
+ * A canceled export resolves with { status: 'canceled' } instead of rejecting.
+ */
+function runExportCommand(
+  jobId: string,
+  command: ffmpeg.FfmpegCommand,
+  outputPath: string,
+  onProgress: (progress: any) => void
+): Promise<ExportResult> {
+  return new Promise<ExportResult>((resolve, reject) => {
+    command
+      .output(outputPath)
+      .on('progress', onProgress)
+      .on('start', () => {
+        try {
+          activeExports.set(jobId, command);
+          // Canceled while still probing inputs, before ffmpeg was running
+          if (canceledExports.has(jobId)) command.kill('SIGKILL');
+        } catch {}
+      })
+      .on('end', () => {
+        try { activeExports.delete(jobId); } catch {}
+        resolve(outputPath);
+      })
+      .on('error', (err, stdout, stderr) => {
+        const msg = (err && err.message) ? err.message : 'Unknown error';
+        const wasCanceled = canceledExports.has(jobId) || /kill|SIGKILL|terminated|canceled/i.test(msg);
+        try { activeExports.delete(jobId); } catch {}
+        if (wasCanceled) {
+          try { canceledExports.delete(jobId); } catch {}
+          resolve({ status: 'canceled' });
         } else {
-          mapOptions.push('-map', `0:a:${i}`);
+          console.error('Export error:', err);
+          console.error('FFmpeg stderr:', stderr);
+          reject(new Error(`Export failed: ${msg}\n${stderr}`));
         }
-      }
-    }
+      })
+      .run();
+  });
+}
 
-    return { filterParts, mapOptions };
-  };
+// One pass of a two-pass encode; both passes share the rate-control log at logPrefix
+interface EncodePass {
+  pass: 1 | 2;
+  logPrefix: string;
+  // Bitrate the frame size was planned for, so both passes see identical frames
+  planBitrateKbps: number;
+}
 
-  const encodeOnce = (videoBitrateKbps?: number) => {
-    return new Promise<string | { status: 'canceled' }>((resolve, reject) => {
-      let command = ffmpeg(inputPath)
-        .setStartTime(startTime)
-        .setDuration(duration);
-
-      const type: 'video' | 'mp3' = outputType === 'mp3' ? 'mp3' : 'video';
-      const outputExt = path.extname(outputPath).toLowerCase();
-
-      if (type === 'mp3') {
-        // Audio-only export - determine codec by extension
-        if (outputExt === '.mp3') {
-          command = command
-            .audioCodec('libmp3lame')
-            .outputOptions(['-y', '-b:a 192k']);
-        } else if (outputExt === '.wav') {
-          command = command
-            .audioCodec('pcm_s16le')
-            .outputOptions(['-y', '-ar 48000', '-ac 2']);
-        } else if (outputExt === '.aac') {
-          command = command
-            .audioCodec('aac')
-            .outputOptions(['-y', '-b:a 192k']);
-        } else {
-          // Default to mp3
-          command = command
-            .audioCodec('libmp3lame')
-            .outputOptions(['-y', '-b:a 192k']);
-        }
-      } else if (quality === 'compressed') {
-        const audioBitrateKbps = 128;
-        if (!videoBitrateKbps) {
-          videoBitrateKbps = 800;
-        }
+type TargetSizeEncoder = (videoBitrateKbps: number, encodePass?: EncodePass) => Promise<ExportResult>;
 
-        // Video codec selection based on container
-        let videoCodec = 'libx264';
-        let audioCodec = 'aac';
-        const baseOptions = ['-y', '-preset fast'];
+/**
+ * Add the -pass options for a two-pass encode. The first pass only matters for
+ * its rate-control log, so its output is written next to the log and discarded
+ * with it (the null muxer would reject container flags like -movflags).
+ */
+function applyEncodePass(
+  command: ffmpeg.FfmpegCommand,
+  videoCodec: string,
+  outputPath: string,
+  encodePass?: EncodePass
+): { command: ffmpeg.FfmpegCommand; outputPath: string } {
+  if (!encodePass) return { command, outputPath };
+
+  if (videoCodec === 'libx265') {
+    // x265 takes its pass settings through x265-params, where ':' separates options
+    const stats = `${encodePass.logPrefix}.log`.replace(/\\/g, '/').replace(/:/g, '\\:');
+    command = command.outputOptions([`-x265-params pass=${encodePass.pass}:stats=${stats}`]);
+  } else {
+    command = command.outputOptions([`-pass ${encodePass.pass}`, `-passlogfile ${encodePass.logPrefix}`]);
+  }
 
-        if (outputExt === '.avi') {
-          videoCodec = 'mpeg4';
-          audioCodec = 'libmp3lame';
-        }
+  if (encodePass.pass === 1) {
+    return { command, outputPath: `${encodePass.logPrefix}-analysis${path.extname(outputPath)}` };
+  }
+  return { command, outputPath };
+}
 
-        command = command
-          .videoCodec(videoCodec)
-          .audioCodec(audioCodec)
-          .outputOptions([
-            ...baseOptions,
-            `-b:v ${videoBitrateKbps}k`,
-            `-maxrate ${Math.max(100, Math.floor(videoBitrateKbps * 1.05))}k`,
-            `-bufsize ${Math.max(200, Math.floor(videoBitrateKbps * 2))}k`,
-            `-b:a ${audioBitrateKbps}k`
-          ]);
-
-        if (outputExt === '.mp4' || outputExt === '.mov') {
-          command = command.outputOptions(['-movflags +faststart']);
-        }
-      } else {
-        // Full quality - copy video stream
-        let audioCodec = 'aac';
-        if (outputExt === '.avi') {
-          audioCodec = 'libmp3lame';
-        }
+// Report one step of a multi-step export as its share of the overall progress
+function stepProgress(
+  onProgress: (progress: any) => void,
+  step: number,
+  steps: number
+): (progress: any) => void {
+  return (progress) => {
+    const percent = Math.min(100, Math.max(0, progress?.percent || 0));
+    onProgress({ ...progress, percent: (step * 100 + percent) / steps });
+  };
+}
 
-        command = command
-          .outputOptions(['-c:v copy'])
-          .audioCodec(audioCodec)
-          .outputOptions(['-y']);
+// Each pass of a two-pass encode counts for half of the overall progress
+function passProgress(
+  onProgress: (progress: any) => void,
+  encodePass?: EncodePass
+): (progress: any) => void {
+  if (!encodePass) return onProgress;
+  return stepProgress(onProgress, encodePass.pass - 1, 2);
+}
 
-        if (outputExt === '.mp4' || outputExt === '.mov') {
-          command = command.outputOptions(['-movflags +faststart']);
-        }
-      }
+/**
+ * Encode against a file size budget. Two-pass mode measures the clip first and
+ * lands close to the target; single-pass starts from a conservative bitrate and
+ * re-encodes lower (at most twice) if the output still overshoots.
+ */
+async function encodeForTargetSize(
+  jobId: string,
+  encodeOnce: TargetSizeEncoder,
+  outputPath: string,
+  duration: number,
+  targetSizeMB?: number,
+  audioBitrateKbps: number = 128, // estimate audio bitrate (combined)
+  twoPass: boolean = true
+): Promise<ExportResult> {
+  const targetMB = targetSizeMB || 10;
+  const targetBytes = targetMB * 1024 * 1024;
+  // Aim under target; two-pass rate control is accurate enough to leave only container overhead
+  const safetyRatio = twoPass ? 0.97 : 0.92;
+  const targetBits = Math.max(1, Math.floor(targetBytes * safetyRatio * 8));
+  let videoBitrateKbps = Math.max(100, Math.floor(targetBits / duration / 1000) - audioBitrateKbps);
+  // Between passes no ffmpeg command is registered, so a cancel only leaves the flag
+  const encode: TargetSizeEncoder = async (bitrate, encodePass) =>
+    consumeCancel(jobId) ? { status: 'canceled' } : encodeOnce(bitrate, encodePass);
 
-      const { filterParts, mapOptions } = buildFilterAndMaps(audioMode || 'combine', type);
-      if (filterParts.length > 0) {
-        command = command.complexFilter(filterParts.join(';'));
+  if (twoPass) {
+    const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipfolio-2pass-'));
+    const logPrefix = path.join(logDir, 'ffmpeg2pass');
+    const planBitrateKbps = videoBitrateKbps;
+
+    try {
+      const analysis = await encode(videoBitrateKbps, { pass: 1, logPrefix, planBitrateKbps });
+      if (typeof analysis === 'object' && analysis.status === 'canceled') {
+        return analysis;
       }
-      if (mapOptions.length > 0) {
-        command = command.outputOptions(mapOptions);
+
+      const result = await encode(videoBitrateKbps, { pass: 2, logPrefix, planBitrateKbps });
+      if (typeof result === 'object' && result.status === 'canceled') {
+        return result;
       }
 
-      command
-        .output(outputPath)
-        .on('progress', (progress) => {
-          if (mainWindow) {
-            try {
-              mainWindow.webContents.send('export-progress', { ...progress, jobId });
-            } catch {}
-          }
-        })
-        .on('start', () => {
-          try {
-            activeExports.set(event.sender.id, command);
-          } catch {}
-        })
-        .on('end', () => {
-          try { activeExports.delete(event.sender.id); } catch {}
-          resolve(outputPath);
-        })
-        .on('error', (err, stdout, stderr) => {
-          const senderId = event.sender.id;
-          const msg = (err && err.message) ? err.message : 'Unknown error';
-          const wasCanceled = canceledExports.has(senderId) || /kill|SIGKILL|terminated|canceled/i.test(msg);
-          try { activeExports.delete(senderId); } catch {}
-          if (wasCanceled) {
-            try { canceledExports.delete(senderId); } catch {}
-            resolve({ status: 'canceled' });
-          } else {
-            console.error('Export error:', err);
-            console.error('FFmpeg stderr:', stderr);
-            reject(new Error(`Export failed: ${msg}\n${stderr}`));
-          }
-        })
-        .run();
-    });
-  };
+      // Very short or static clips can still overshoot; the first-pass log stays valid for a lower bitrate
+      try {
+        const size = fs.statSync(outputPath).size;
+        if (size > targetBytes) {
+          videoBitrateKbps = Math.max(100, Math.floor(videoBitrateKbps * (targetBytes / size) * 0.97));
+          try { fs.unlinkSync(outputPath); } catch {}
+          return await encode(videoBitrateKbps, { pass: 2, logPrefix, planBitrateKbps });
+        }
+      } catch (err) {
+        console.warn('Could not validate output size:', err);
+      }
 
-  if (outputType === 'mp3' || quality !== 'compressed') {
-    return await encodeOnce();
+      return result;
+    } finally {
+      try {
+        fs.rmSync(logDir, { recursive: true, force: true });
+      } catch {}
+    }
   }
 
-  // Compressed with size target: compute conservative bitrate and retry if overshoot
-  const targetMB = targetSizeMB || 10;
-  const targetBytes = targetMB * 1024 * 1024;
-  const safetyRatio = 0.92; // aim under target
-  const audioBitrateKbps = 128; // estimate audio bitrate (combined)
-  const targetBits = Math.max(1, Math.floor(targetBytes * safetyRatio * 8));
-  let videoBitrateKbps = Math.max(100, Math.floor(targetBits / duration / 1000) - audioBitrateKbps);
-
   // First encode
-  const firstResult = await encodeOnce(videoBitrateKbps);
-  if (typeof firstResult === 'object' && (firstResult as any).status === 'canceled') {
+  const firstResult = await encode(videoBitrateKbps);
+  if (typeof firstResult === 'object' && firstResult.status === 'canceled') {
     return firstResult;
   }
 
@@ -1139,8 +1464,8 @@ ipcMain.handle('export-video', async (
           fs.unlinkSync(outputPath);
         }
       } catch {}
-      const retryResult = await encodeOnce(videoBitrateKbps);
-      if (typeof retryResult === 'object' && (retryResult as any).status === 'canceled') {
+      const retryResult = await encode(videoBitrateKbps);
+      if (typeof retryResult === 'object' && retryResult.status === 'canceled') {
         return retryResult;
       }
       size = fs.statSync(outputPath).size;
@@ -1150,23 +1475,1584 @@ ipcMain.handle('export-video', async (
   }
 
   return outputPath;
-});
+}
+
+// Audio-only exports pick their codec from the output extension (mp3 by default)
+function applyAudioOnlyCodec(command: ffmpeg.FfmpegCommand, outputExt: string): ffmpeg.FfmpegCommand {
+  if (outputExt === '.wav') {
+    return command
+      .audioCodec('pcm_s16le')
+      .outputOptions(['-y', '-ar 48000', '-ac 2']);
+  }
+  if (outputExt === '.aac') {
+    return command
+      .audioCodec('aac')
+      .outputOptions(['-y', '-b:a 192k']);
+  }
+  return command
+    .audioCodec('libmp3lame')
+    .outputOptions(['-y', '-b:a 192k']);
+}
+
+// Video filters a preset needs (resolution cap, frame rate), chained inside the complex filter
+function presetVideoFilters(preset: db.ExportPresetSettings): string[] {
+  const filters: string[] = [];
+  if (preset.maxHeight) filters.push(`scale=-2:'min(ih,${preset.maxHeight})'`);
+  if (preset.fps) filters.push(`fps=${preset.fps}`);
+  return filters;
+}
+
+// A stream-copy preset that has to re-encode gets a high quality encoder its container can hold
+function reencodePreset(preset: db.ExportPresetSettings): db.ExportPresetSettings {
+  return preset.container === 'webm'
+    ? { ...preset, videoCodec: 'libvpx-vp9', crf: 24 }
+    : { ...preset, videoCodec: 'libx264', crf: 18 };
+}
+
+/**
+ * Encoder settings for a user-defined export preset. Size-targeted presets
+ * get their video bitrate from encodeForTargetSize.
+ */
+function applyExportPreset(
+  command: ffmpeg.FfmpegCommand,
+  preset: db.ExportPresetSettings,
+  outputExt: string,
+  videoBitrateKbps?: number
+): ffmpeg.FfmpegCommand {
+  const options = ['-y'];
+
+  if (preset.videoCodec === 'copy') {
+    options.push('-c:v copy');
+  } else {
+    command = command.videoCodec(preset.videoCodec);
+    if (preset.rateControl === 'size') {
+      const bitrate = videoBitrateKbps || 800;
+      options.push(
+        `-b:v ${bitrate}k`,
+        `-maxrate ${Math.max(100, Math.floor(bitrate * 1.05))}k`,
+        `-bufsize ${Math.max(200, Math.floor(bitrate * 2))}k`
+      );
+    } else {
+      options.push(`-crf ${preset.crf}`);
+      // VP9 only treats -crf as constant quality when the bitrate is unbounded
+      if (preset.videoCodec === 'libvpx-vp9') options.push('-b:v 0');
+    }
+    if (preset.videoCodec === 'libvpx-vp9') {
+      options.push('-deadline good', '-cpu-used 4', '-row-mt 1');
+    } else {
+      options.push('-preset fast');
+    }
+    // QuickTime and Safari only play HEVC tagged as hvc1
+    if (preset.videoCodec === 'libx265' && (outputExt === '.mp4' || outputExt === '.mov')) {
+      options.push('-tag:v hvc1');
+    }
+  }
+
+  options.push(`-b:a ${preset.audioBitrateKbps}k`);
+  if (outputExt === '.mp4' || outputExt === '.mov') {
+    options.push('-movflags +faststart');
+  }
+
+  return command.audioCodec(preset.audioCodec).outputOptions(options);
+}
+
+// 'auto' fits the bitrate budget, 'source' keeps the input, a number caps height / fps
+type ScaleChoice = 'auto' | 'source' | number;
+
+// Below roughly this many bits per pixel per frame, x264 output turns to mush
+const MIN_BITS_PER_PIXEL = 0.05;
+const HEIGHT_LADDER = [2160, 1440, 1080, 720, 540, 480, 360, 240];
+
+/**
+ * Pick the output height and frame rate for a bitrate-constrained export, so a
+ * small budget isn't spread over more pixels than it can carry
+ */
+function pickCompressedScale(
+  source: { width: number; height: number; fps: number },
+  videoBitrateKbps: number,
+  resolution: ScaleChoice = 'auto',
+  frameRate: ScaleChoice = 'auto'
+): { height: number; fps: number } {
+  const aspect = source.width / source.height || 16 / 9;
+  const bitsPerPixel = (height: number, fps: number) =>
+    (videoBitrateKbps * 1000) / (height * height * aspect * fps);
+
+  let fps = source.fps;
+  if (typeof frameRate === 'number') {
+    fps = Math.min(source.fps, frameRate);
+  } else if (frameRate === 'auto' && source.fps > 30) {
+    // High frame rates are the first thing to go when even 720p can't be carried
+    if (bitsPerPixel(Math.min(source.height, 720), source.fps) < MIN_BITS_PER_PIXEL) {
+      fps = 30;
+    }
+  }
+
+  let height = source.height;
+  if (typeof resolution === 'number') {
+    height = Math.min(source.height, resolution);
+  } else if (resolution === 'auto') {
+    const candidates = [source.height, ...HEIGHT_LADDER.filter((h) => h < source.height)];
+    height = candidates.find((h) => bitsPerPixel(h, fps) >= MIN_BITS_PER_PIXEL)
+      ?? candidates[candidates.length - 1];
+  }
+
+  return { height, fps };
+}
+
+// Describe a video stream's frame size and rate, with sane fallbacks
+function getSourceFrame(stream: any): { width: number; height: number; fps: number } {
+  return {
+    width: stream?.width || 1920,
+    height: stream?.height || 1080,
+    fps: parseFrameRate(stream?.avg_frame_rate) || parseFrameRate(stream?.r_frame_rate) || 30,
+  };
+}
+
+// Export speeds outside this range aren't offered (and atempo chains get long)
+const MIN_EXPORT_SPEED = 0.25;
+const MAX_EXPORT_SPEED = 4;
+
+function getExportSpeed(speed?: number): number {
+  if (!speed || !Number.isFinite(speed)) return 1;
+  return Math.min(MAX_EXPORT_SPEED, Math.max(MIN_EXPORT_SPEED, speed));
+}
+
+// atempo only takes 0.5-2 per instance, so larger changes are chained
+function buildAtempoFilters(speed: number): string[] {
+  const filters: string[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    filters.push('atempo=2');
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push('atempo=0.5');
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 1e-6) {
+    filters.push(`atempo=${remaining}`);
+  }
+  return filters;
+}
+
+// Rotation in quarter turns, normalized to 0-3
+function getQuarterTurns(transform?: db.TransformEdit): number {
+  return ((Math.round((transform?.rotation || 0) / 90) % 4) + 4) % 4;
+}
+
+/**
+ * Video filters for a clip's spatial edits: rotation, then flips, then the
+ * crop (as fractions of the rotated frame, rounded to even sizes for yuv420p)
+ */
+function buildTransformFilters(transform?: db.TransformEdit): string[] {
+  if (!transform) return [];
+  const filters: string[] = [];
+
+  const turns = getQuarterTurns(transform);
+  if (turns === 1) filters.push('transpose=clock');
+  if (turns === 2) filters.push('hflip', 'vflip');
+  if (turns === 3) filters.push('transpose=cclock');
+  if (transform.flipH) filters.push('hflip');
+  if (transform.flipV) filters.push('vflip');
+
+  const crop = transform.crop;
+  if (crop && (crop.width < 1 || crop.height < 1)) {
+    filters.push(
+      `crop=w=trunc(iw*${crop.width}/2)*2:h=trunc(ih*${crop.height}/2)*2` +
+      `:x=trunc(iw*${crop.x}):y=trunc(ih*${crop.y})`
+    );
+  }
+  return filters;
+}
+
+// Output frame size once a transform is applied
+function getTransformedFrame(
+  source: { width: number; height: number; fps: number },
+  transform?: db.TransformEdit
+): { width: number; height: number; fps: number } {
+  const turned = getQuarterTurns(transform) % 2 === 1;
+  const crop = transform?.crop;
+  const width = turned ? source.height : source.width;
+  const height = turned ? source.width : source.height;
+  return {
+    width: Math.max(2, Math.floor((width * (crop?.width ?? 1)) / 2) * 2),
+    height: Math.max(2, Math.floor((height * (crop?.height ?? 1)) / 2) * 2),
+    fps: source.fps,
+  };
+}
+
+// drawtext needs a font file where ffmpeg was built without fontconfig
+// (Windows and most static builds); the first one found is used
+const OVERLAY_FONT_FILES = [
+  'C:\\Windows\\Fonts\\arialbd.ttf',
+  '/System/Library/Fonts/Supplemental/Arial Bold.ttf',
+  '/Library/Fonts/Arial Bold.ttf',
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+];
+
+let overlayFontFile: string | null | undefined;
+
+function getOverlayFontFile(): string | null {
+  if (overlayFontFile === undefined) {
+    overlayFontFile = OVERLAY_FONT_FILES.find((file) => fs.existsSync(file)) ?? null;
+  }
+  return overlayFontFile;
+}
+
+// Escape a filter option value for the option parser, then for the filtergraph parser
+function escapeFilterValue(value: string): string {
+  return value
+    .replace(/[\\':]/g, (c) => `\\${c}`)
+    .replace(/[\\'\[\],;]/g, (c) => `\\${c}`);
+}
+
+/**
+ * drawtext filters for the text overlays showing between startTime and
+ * endTime. They go after the crop (positions are fractions of the cropped
+ * frame, `frameHeight` high) and before any retiming, so t is still seconds
+ * since startTime.
+ */
+function buildOverlayFilters(
+  overlays: db.TextOverlay[] | undefined,
+  startTime: number,
+  endTime: number,
+  frameHeight: number
+): string[] {
+  if (!overlays) return [];
+  const fontFile = getOverlayFontFile();
+
+  return overlays
+    .filter((o) => o.text.trim() && o.end > startTime && o.start < endTime)
+    .map((o) => {
+      const fontSize = Math.max(8, Math.round(frameHeight * o.fontSize));
+      const color = /^#[0-9a-f]{6}$/i.test(o.color) ? `0x${o.color.slice(1)}` : 'white';
+      const from = Math.max(0, o.start - startTime);
+      const to = o.end - startTime;
+      return 'drawtext=' + [
+        `text=${escapeFilterValue(o.text)}`,
+        'expansion=none',
+        ...(fontFile ? [`fontfile=${escapeFilterValue(fontFile.replace(/\\/g, '/'))}`] : []),
+        `fontsize=${fontSize}`,
+        `fontcolor=${color}`,
+        `borderw=${Math.max(1, Math.round(fontSize / 16))}`,
+        'bordercolor=black@0.6',
+        `x=w*${o.x}-text_w/2`,
+        `y=h*${o.y}-text_h/2`,
+        `enable=between(t\\,${from}\\,${to})`,
+      ].join(':');
+    });
+}
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// "00:01:02,500" (SRT) or "01:02.500" (WebVTT) in seconds
+function parseSubtitleTime(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})/);
+  if (!match) return null;
+  const [, hours, mins, secs, ms] = match;
+  return Number(hours || 0) * 3600 + Number(mins) * 60 + Number(secs) + Number(ms.padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Cues of an SRT or WebVTT document, sorted by start. Blocks without a
+ * timing line (headers, NOTE and STYLE blocks) are skipped.
+ */
+function parseSubtitleText(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex((line) => line.includes('-->'));
+    if (timing < 0) continue;
+    const [from, to] = lines[timing].split('-->');
+    const start = parseSubtitleTime(from);
+    const end = parseSubtitleTime(to);
+    const text = lines.slice(timing + 1).join('\n').trim();
+    if (start === null || end === null || end <= start || !text) continue;
+    cues.push({ start, end, text });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+function formatSrtTime(seconds: number): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:` +
+    `${pad(Math.floor(ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+}
+
+function buildSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+// Extracted stream cues, keyed by path and stream; imported files are re-read every time
+const subtitleStreamCache = new Map<string, Promise<SubtitleCue[]>>();
+
+/**
+ * Cues of a clip's subtitle track: one of its own (text) subtitle streams
+ * converted by ffmpeg, or an imported SRT/VTT file
+ */
+async function loadSubtitleCues(
+  videoPath: string,
+  source: { streamIndex?: number; filePath?: string }
+): Promise<SubtitleCue[]> {
+  if (source.filePath) {
+    return parseSubtitleText(await fs.promises.readFile(source.filePath, 'utf8'));
+  }
+  if (source.streamIndex === undefined) return [];
+
+  const key = `${videoPath}:${source.streamIndex}`;
+  let task = subtitleStreamCache.get(key);
+  if (!task) {
+    task = execFileAsync(
+      resolveFfmpeg(),
+      ['-v', 'error', '-i', videoPath, '-map', `0:s:${source.streamIndex}`, '-f', 'srt', 'pipe:1'],
+      { maxBuffer: 64 * 1024 * 1024 }
+    ).then(({ stdout }) => parseSubtitleText(stdout));
+    subtitleStreamCache.set(key, task);
+    // Image-based streams (PGS, DVD) can't be converted; don't cache the failure
+    task.catch(() => subtitleStreamCache.delete(key));
+  }
+  return await task;
+}
+
+// Soft subtitle codec for a container, or null where none is supported
+function getSoftSubtitleCodec(outputExt: string): string | null {
+  if (outputExt === '.mp4' || outputExt === '.mov') return 'mov_text';
+  if (outputExt === '.mkv') return 'srt';
+  if (outputExt === '.webm') return 'webvtt';
+  return null;
+}
+
+/**
+ * Write the part of the clip's subtitle track inside the export range as an
+ * SRT file timed from the start of the output, or null when nothing is
+ * exported. Burned-in cues are drawn before retiming, so only soft tracks are
+ * scaled by the speed.
+ */
+async function writeExportSubtitles(params: VideoExportParams): Promise<string | null> {
+  const subtitles = params.subtitles;
+  const outputType = params.outputType || 'video';
+  if (!subtitles || subtitles.mode === 'none' || outputType !== 'video') return null;
+  if (subtitles.mode === 'soft' && !getSoftSubtitleCodec(path.extname(params.outputPath).toLowerCase())) {
+    console.warn('[Export] Soft subtitles are not supported in', path.extname(params.outputPath));
+    return null;
+  }
+
+  const { startTime, endTime } = params;
+  const scale = subtitles.mode === 'soft' ? getExportSpeed(params.speed) : 1;
+  const cues = (await loadSubtitleCues(params.inputPath, subtitles))
+    .filter((cue) => cue.end > startTime && cue.start < endTime);
+  if (cues.length === 0) return null;
+
+  const srt = buildSrt(
+    cues.map((cue) => ({
+      start: (Math.max(cue.start, startTime) - startTime) / scale,
+      end: (Math.min(cue.end, endTime) - startTime) / scale,
+      text: cue.text,
+    }))
+  );
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipfolio-subs-'));
+  const file = path.join(dir, 'subtitles.srt');
+  fs.writeFileSync(file, srt, 'utf8');
+  return file;
+}
+
+// EBU R128 loudness target for normalized tracks and mixes; loudnorm resamples
+// to 192kHz internally, so bring it back down afterwards
+const LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11,aresample=48000';
+
+// Piecewise-linear gain through the keyframes, as an expression of t (seconds since startTime)
+function buildVolumeEnvelope(keyframes: db.VolumeKeyframe[], startTime: number): string | null {
+  const points = [...keyframes]
+    .sort((a, b) => a.time - b.time)
+    .map((k) => ({ t: k.time - startTime, v: k.volume }));
+  if (points.length === 0) return null;
+
+  let expr = `${points[points.length - 1].v}`;
+  for (let i = points.length - 1; i > 0; i--) {
+    const a = points[i - 1];
+    const b = points[i];
+    const span = b.t - a.t;
+    const ramp = span > 0 ? `${a.v}+(${b.v - a.v})*(t-(${a.t}))/${span}` : `${b.v}`;
+    expr = `if(lt(t,${b.t}),${ramp},${expr})`;
+  }
+  return `if(lt(t,${points[0].t}),${points[0].v},${expr})`;
+}
+
+// The track as exported: while any track is soloed, the rest are silent
+function getExportTrack(
+  tracks: db.AudioTrackEdit[] | undefined,
+  idx: number
+): db.AudioTrackEdit | undefined {
+  const track = (tracks || []).find((t) => t.index === idx);
+  const isSoloActive = (tracks || []).some((t) => t.isSolo);
+  if (isSoloActive && !track?.isSolo) {
+    return { index: idx, volume: 0, isMuted: true };
+  }
+  return track;
+}
+
+/**
+ * Audio filters for one track of a range starting at startTime: loudness
+ * normalization, then volume and its keyframes, then fades. Expects the input
+ * seeked to startTime; empty when the track plays unchanged.
+ */
+function buildTrackAudioFilters(
+  track: db.AudioTrackEdit | undefined,
+  startTime: number,
+  duration: number
+): string[] {
+  if (!track) return [];
+  if (track.isMuted) return ['volume=0'];
+
+  const filters: string[] = [];
+  if (track.normalize) {
+    filters.push(LOUDNORM_FILTER);
+  }
+
+  const volume = typeof track.volume === 'number' ? track.volume : 1.0;
+  const envelope = buildVolumeEnvelope(track.volumeKeyframes || [], startTime);
+  if (envelope) {
+    filters.push(`volume='${volume}*(${envelope})':eval=frame`);
+  } else if (Math.abs(volume - 1.0) > 1e-6) {
+    filters.push(`volume=${volume}`);
+  }
+
+  const fadeIn = Math.min(track.fadeIn || 0, duration);
+  const fadeOut = Math.min(track.fadeOut || 0, duration);
+  if (fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${fadeIn}`);
+  }
+  if (fadeOut > 0) {
+    filters.push(`afade=t=out:st=${duration - fadeOut}:d=${fadeOut}`);
+  }
+  return filters;
+}
+
+interface VideoExportParams {
+  inputPath: string;
+  outputPath: string;
+  startTime: number;
+  endTime: number;
+  quality: 'full' | 'compressed';
+  audioTracks?: db.AudioTrackEdit[];
+  // Applied to the combined mix
+  audioMix?: db.AudioMixEdit;
+  targetSizeMB?: number;
+  audioMode?: 'combine' | 'separate';
+  outputType?: 'video' | 'mp3' | 'gif' | 'webp';
+  // Overrides quality/targetSizeMB/audioMode for video output
+  preset?: db.ExportPresetSettings;
+  // Output size/rate for compressed exports (default 'auto')
+  resolution?: ScaleChoice;
+  frameRate?: ScaleChoice;
+  // Size-targeted exports use two-pass encoding unless this is false
+  twoPass?: boolean;
+  // GIF/WebP output; width 0 keeps the source width
+  animation?: { fps?: number; width?: number; loop?: boolean };
+  // Crop and rotation; forces the video to be re-encoded
+  transform?: db.TransformEdit;
+  // Playback speed of the output (1 = unchanged); also forces a re-encode
+  speed?: number;
+  // Text burned into the frame; also forces a re-encode
+  overlays?: db.TextOverlay[];
+  // Subtitle track, cut to the range; burning it in forces a re-encode
+  subtitles?: db.SubtitleEdit;
+}
+
+// Codecs smart cut can stream-copy, and the encoder that rebuilds their edge GOPs
+const SMART_CUT_ENCODERS: Record<string, string> = {
+  h264: 'libx264',
+  hevc: 'libx265',
+};
+const SMART_CUT_PROFILES = ['baseline', 'main', 'high', 'high10', 'high422', 'main10'];
+
+interface SmartCutSegment {
+  start: number;
+  end: number;
+  copy: boolean;
+}
+
+/**
+ * Split a range at keyframes: everything between the first and last keyframe
+ * inside it is stream-copied, the partial GOPs before and after are re-encoded.
+ */
+function planSmartCut(
+  keyframes: number[],
+  startTime: number,
+  endTime: number,
+  frameDuration: number
+): SmartCutSegment[] {
+  const tolerance = frameDuration / 2;
+  const first = keyframes.find((k) => k >= startTime - tolerance);
+  const last = [...keyframes].reverse().find((k) => k <= endTime + tolerance);
+
+  // No whole GOP inside the range: re-encode all of it
+  if (first === undefined || last === undefined || last - first < frameDuration) {
+    return [{ start: startTime, end: endTime, copy: false }];
+  }
+
+  const segments: SmartCutSegment[] = [];
+  if (first - startTime > tolerance) {
+    segments.push({ start: startTime, end: first, copy: false });
+  }
+  const hasTail = endTime - last > tolerance;
+  segments.push({ start: first, end: hasTail ? last : endTime, copy: true });
+  if (hasTail) {
+    segments.push({ start: last, end: endTime, copy: false });
+  }
+  return segments;
+}
+
+/**
+ * Cut the video stream of a range frame-accurately without re-encoding all of it.
+ * Writes the pieces into workDir and resolves to a concat list of them, or null
+ * when the source can't be smart cut (unsupported codec, no keyframe info).
+ */
+async function smartCutVideo(
+  jobId: string,
+  inputPath: string,
+  videoStream: any,
+  startTime: number,
+  endTime: number,
+  workDir: string,
+  onProgress: (progress: any) => void
+): Promise<ExportResult | null> {
+  const encoder = SMART_CUT_ENCODERS[videoStream?.codec_name];
+  if (!encoder) return null;
+
+  // The packet scan can't be killed, so a cancel during it is picked up here
+  const keyframes = await getKeyframeTimes(inputPath, { start: startTime, end: endTime });
+  if (consumeCancel(jobId)) return { status: 'canceled' };
+  if (keyframes.length === 0) return null;
+
+  const frameDuration = 1 / getSourceFrame(videoStream).fps;
+  const segments = planSmartCut(keyframes, startTime, endTime, frameDuration);
+  // Seek and stop a quarter frame off each keyframe so rounding in the probed
+  // times can't pull in the neighbouring frame or GOP
+  const nudge = frameDuration / 4;
+  const profile = String(videoStream.profile || '')
+    .toLowerCase()
+    .replace(/^constrained /, '')
+    .replace(/[\s:]/g, '');
+
+  const listLines: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    if (consumeCancel(jobId)) return { status: 'canceled' };
+    const segment = segments[i];
+    const segmentPath = path.join(workDir, `part${i}.ts`);
+    const seekTime = segment.copy
+      ? segment.start + nudge
+      : (i > 0 ? segment.start - nudge : segment.start);
+    const stopTime = i < segments.length - 1 ? segment.end - nudge : segment.end;
+
+    let command = ffmpeg(inputPath)
+      .setStartTime(seekTime)
+      .setDuration(stopTime - seekTime)
+      .outputOptions(['-y', '-map 0:v:0', '-an', '-sn', '-dn']);
+
+    if (segment.copy) {
+      command = command.outputOptions(['-c:v copy']);
+    } else {
+      // Match the copied stream closely enough for the pieces to concatenate
+      command = command
+        .videoCodec(encoder)
+        .outputOptions(['-crf 16', '-preset fast']);
+      if (videoStream.pix_fmt) {
+        command = command.outputOptions([`-pix_fmt ${videoStream.pix_fmt}`]);
+      }
+      if (SMART_CUT_PROFILES.includes(profile)) {
+        command = command.outputOptions([`-profile:v ${profile}`]);
+      }
+    }
+
+    console.log(
+      `[Export] Smart cut ${segment.copy ? 'copy' : 'encode'} ${segment.start.toFixed(3)}-${segment.end.toFixed(3)}`
+    );
+    const result = await runExportCommand(
+      jobId,
+      command,
+      segmentPath,
+      stepProgress(onProgress, i, segments.length)
+    );
+    if (typeof result === 'object') return result;
 
-ipcMain.handle('cancel-export', async (event) => {
-  const senderId = event.sender.id;
-  const cmd = activeExports.get(senderId);
-  if (cmd) {
+    listLines.push(`file '${segmentPath.replace(/\\/g, '/').replace(/'/g, "'\\''")}'`);
+  }
+
+  const listPath = path.join(workDir, 'parts.txt');
+  fs.writeFileSync(listPath, listLines.join('\n'));
+  return listPath;
+}
+
+/**
+ * Export a range as an animated GIF (with a generated palette) or animated WebP.
+ * With a target size, the animation is re-encoded smaller until it fits.
+ */
+async function exportAnimation(
+  jobId: string,
+  params: VideoExportParams,
+  onProgress: (progress: any) => void
+): Promise<ExportResult> {
+  const { inputPath, outputPath, startTime, endTime, targetSizeMB } = params;
+  const isGif = params.outputType === 'gif';
+  const speed = getExportSpeed(params.speed);
+  const duration = (endTime - startTime) / speed;
+  const meta: any = await new Promise((resolve) => {
+    ffmpeg.ffprobe(inputPath, (err, data) => resolve(data || { format: {}, streams: [] }));
+  });
+  // The frame as cropped and rotated, before any scaling
+  const source = getTransformedFrame(
+    getSourceFrame((meta.streams || []).find((s: any) => s.codec_type === 'video')),
+    params.transform
+  );
+  const transformFilters = buildTransformFilters(params.transform);
+  const overlayFilters = buildOverlayFilters(params.overlays, startTime, endTime, source.height);
+
+  let fps = Math.min(source.fps, params.animation?.fps || 15);
+  let width = Math.min(source.width, params.animation?.width || source.width);
+  let webpQuality = 75;
+  const loop = params.animation?.loop !== false;
+
+  const encodeOnce = () => {
+    const frames = `[0:v:0]${[
+      ...transformFilters,
+      ...overlayFilters,
+      ...(speed !== 1 ? [`setpts=PTS/${speed}`] : []),
+      `fps=${fps}`,
+      `scale=${Math.round(width)}:-1:flags=lanczos`,
+    ].join(',')}`;
+    let command = ffmpeg(inputPath)
+      .setStartTime(startTime)
+      .setDuration(duration);
+
+    if (isGif) {
+      // One palette for the whole clip; diff stats favour the moving parts
+      command = command
+        .complexFilter(
+          `${frames},split[frames][paletteIn];` +
+          '[paletteIn]palettegen=stats_mode=diff[palette];' +
+          '[frames][palette]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle[out]'
+        )
+        // GIF counts extra loops: 0 repeats forever, -1 plays once
+        .outputOptions(['-y', '-map', '[out]', '-an', `-loop ${loop ? 0 : -1}`]);
+    } else {
+      command = command
+        .complexFilter(`${frames}[out]`)
+        .videoCodec('libwebp')
+        // WebP counts total plays: 0 repeats forever
+        .outputOptions([
+          '-y', '-map', '[out]', '-an', `-loop ${loop ? 0 : 1}`,
+          '-lossless 0', `-q:v ${webpQuality}`, '-compression_level 4'
+        ]);
+    }
+
+    return runExportCommand(jobId, command, outputPath, onProgress);
+  };
+
+  let result = await encodeOnce();
+  if (!targetSizeMB) return result;
+
+  const targetBytes = targetSizeMB * 1024 * 1024;
+  for (let attempt = 0; attempt < 4; attempt++) {
+    if (typeof result === 'object' && result.status === 'canceled') return result;
+
+    let size: number;
     try {
-      canceledExports.add(senderId);
-      cmd.kill('SIGKILL');
-    } catch {}
+      size = fs.statSync(outputPath).size;
+    } catch (err) {
+      console.warn('Could not validate animation size:', err);
+      break;
+    }
+    if (size <= targetBytes) break;
+
+    // Size follows pixel count; once the frame is small, drop frames (and WebP quality) too
+    const ratio = targetBytes / size;
+    width = Math.max(120, Math.floor(width * Math.sqrt(ratio) * 0.95));
+    if (width === 120) fps = Math.max(6, Math.floor(fps * 0.75));
+    if (!isGif) webpQuality = Math.max(40, webpQuality - 10);
+    console.log(`[Export] Animation over budget, retrying at ${width}px @ ${fps} fps`);
+
+    try { fs.unlinkSync(outputPath); } catch {}
+    result = await encodeOnce();
+  }
+
+  return result;
+}
+
+/**
+ * Export one contiguous range of a single video
+ */
+async function exportVideo(
+  jobId: string,
+  params: VideoExportParams,
+  onProgress: (progress: any) => void
+): Promise<ExportResult> {
+  const subtitleFile = await writeExportSubtitles(params);
+  try {
+    return await exportVideoRange(jobId, params, onProgress, subtitleFile);
+  } finally {
+    if (subtitleFile) {
+      try { fs.rmSync(path.dirname(subtitleFile), { recursive: true, force: true }); } catch {}
+    }
+  }
+}
+
+// exportVideo, once the range's subtitles (if any) are written to `subtitleFile`
+async function exportVideoRange(
+  jobId: string,
+  params: VideoExportParams,
+  onProgress: (progress: any) => void,
+  subtitleFile: string | null
+): Promise<ExportResult> {
+  const {
+    inputPath,
+    outputPath,
+    startTime,
+    endTime,
+    quality,
+    audioTracks,
+    targetSizeMB,
+    audioMode,
+    outputType,
+  } = params;
+  if (outputType === 'gif' || outputType === 'webp') {
+    return exportAnimation(jobId, params, onProgress);
+  }
+  const meta: any = await new Promise((resolve) => {
+    ffmpeg.ffprobe(inputPath, (err, data) => resolve(data || { format: {}, streams: [] }));
+  });
+  // The frame as cropped and rotated, before any scaling
+  const source = getTransformedFrame(
+    getSourceFrame((meta.streams || []).find((s: any) => s.codec_type === 'video')),
+    params.transform
+  );
+  const speed = getExportSpeed(params.speed);
+  const transformFilters = outputType === 'mp3' ? [] : buildTransformFilters(params.transform);
+  const overlayFilters = outputType === 'mp3'
+    ? []
+    : buildOverlayFilters(params.overlays, startTime, endTime, source.height);
+  // Burned-in subtitles go under the text overlays
+  const subtitleFilters = subtitleFile && params.subtitles?.mode === 'burn'
+    ? [`subtitles=filename=${escapeFilterValue(subtitleFile.replace(/\\/g, '/'))}`]
+    : [];
+  const softSubtitleFile = subtitleFile && params.subtitles?.mode === 'soft' ? subtitleFile : null;
+  const speedFilters = speed !== 1 ? [`setpts=PTS/${speed}`] : [];
+  // Cropped, captioned or retimed frames can't be stream-copied
+  const mustReencode =
+    transformFilters.length > 0 ||
+    subtitleFilters.length > 0 ||
+    overlayFilters.length > 0 ||
+    speedFilters.length > 0;
+  const requested = outputType === 'mp3' || !params.preset
+    ? undefined
+    : db.normalizeExportPresetSettings(params.preset);
+  // ...so a copy preset falls back to encoding
+  const preset = requested?.videoCodec === 'copy' && mustReencode
+    ? reencodePreset(requested)
+    : requested;
+  // Source range length, and how long it plays in the output
+  const duration = endTime - startTime;
+  const outputDuration = duration / speed;
+  const audioStreams = (meta.streams || []).filter((s: any) => s.codec_type === 'audio');
+  const numAudioStreams = audioStreams.length;
+  // Added audio files, each fed in as its own input after the source (and smart cut list)
+  const externalTracks = (audioTracks || []).filter((t) => t.externalPath);
+  // Filtered label for an audio stream, or the raw stream when it needs no filters
+  const getTrackLabel = (filterParts: string[], idx: number): string => {
+    const track = getExportTrack(audioTracks, idx);
+    const filters = [
+      ...buildTrackAudioFilters(track, startTime, duration),
+      ...buildAtempoFilters(speed),
+    ];
+    if (filters.length === 0) return `[0:a:${idx}]`;
+    filterParts.push(`[0:a:${idx}]${filters.join(',')}[a${idx}]`);
+    return `[a${idx}]`;
+  };
+
+  // An added audio file, delayed to its offset and filtered like any other track
+  const getExternalLabel = (
+    filterParts: string[],
+    track: db.AudioTrackEdit,
+    input: number
+  ): string => {
+    const exportTrack = getExportTrack(audioTracks, track.index);
+    const filters = [
+      ...buildTrackAudioFilters(exportTrack, startTime, duration),
+      ...buildAtempoFilters(speed),
+    ];
+    // The input is already seeked when the file starts before the range
+    const delay = (track.offset || 0) - startTime;
+    if (delay > 0) {
+      filters.unshift(`adelay=${Math.round(delay * 1000)}:all=1`);
+    }
+    if (filters.length === 0) return `[${input}:a:0]`;
+    filterParts.push(`[${input}:a:0]${filters.join(',')}[x${input}]`);
+    return `[x${input}]`;
+  };
+
+  const buildFilterAndMaps = (
+    mode: 'combine' | 'separate',
+    type: 'video' | 'mp3',
+    videoFilters: string[] = [],
+    videoInput = '0:v:0',
+    firstExternalInput = 1
+  ) => {
+    const filterParts: string[] = [];
+    const mapOptions: string[] = [];
+
+    const useCombine = type === 'mp3' ? true : (mode === 'combine');
+
+    if (type === 'video' && videoFilters.length > 0) {
+      filterParts.push(`[0:v:0]${videoFilters.join(',')}[vout]`);
+      mapOptions.push('-map', '[vout]');
+    } else if (type === 'video') {
+      mapOptions.push('-map', videoInput);
+    } else {
+      mapOptions.push('-vn');
+    }
+
+    if (numAudioStreams + externalTracks.length <= 0) {
+      return { filterParts, mapOptions };
+    }
+
+    const trackLabels: string[] = [];
+    for (let i = 0; i < numAudioStreams; i++) {
+      trackLabels.push(getTrackLabel(filterParts, i));
+    }
+    externalTracks.forEach((track, k) => {
+      trackLabels.push(getExternalLabel(filterParts, track, firstExternalInput + k));
+    });
+    // Unfiltered streams map directly ('[0:a:1]' -> '0:a:1')
+    const toMapTarget = (label: string) =>
+      /^\[\d+:a:\d+\]$/.test(label) ? label.slice(1, -1) : label;
+
+    if (useCombine) {
+      const inputLabels = trackLabels;
+      const mixFilters = inputLabels.length > 1
+        ? [`amix=inputs=${inputLabels.length}:duration=longest`]
+        : [];
+      if (params.audioMix?.normalize) {
+        mixFilters.push(LOUDNORM_FILTER);
+      }
+      if (mixFilters.length === 0) {
+        mapOptions.push('-map', toMapTarget(inputLabels[0]));
+      } else {
+        filterParts.push(`${inputLabels.join('')}${mixFilters.join(',')}[aout]`);
+        mapOptions.push('-map', '[aout]');
+      }
+    } else {
+      for (const label of trackLabels) {
+        mapOptions.push('-map', toMapTarget(label));
+      }
+    }
+
+    return { filterParts, mapOptions };
+  };
+
+  // Concat list of the frame-accurate video pieces while muxing a smart cut
+  let smartCutList: string | null = null;
+
+  const encodeOnce = (videoBitrateKbps?: number, encodePass?: EncodePass) => {
+    let command = ffmpeg(inputPath)
+      .setStartTime(startTime)
+      .setDuration(outputDuration);
+
+    const type: 'video' | 'mp3' = outputType === 'mp3' ? 'mp3' : 'video';
+    const outputExt = path.extname(outputPath).toLowerCase();
+    let videoFilters: string[] = [];
+    let videoCodec = 'copy';
+
+    if (type === 'mp3') {
+      command = applyAudioOnlyCodec(command, outputExt);
+    } else if (preset) {
+      command = applyExportPreset(command, preset, outputExt, videoBitrateKbps);
+      videoFilters = presetVideoFilters(preset);
+      videoCodec = preset.videoCodec;
+    } else if (quality === 'compressed') {
+      const audioBitrateKbps = 128;
+      if (!videoBitrateKbps) {
+        videoBitrateKbps = 800;
+      }
+
+      // Shrink the frame (and rate) to what the bitrate can carry
+      const scale = pickCompressedScale(
+        source,
+        encodePass ? encodePass.planBitrateKbps : videoBitrateKbps,
+        params.resolution,
+        params.frameRate
+      );
+      if (scale.height < source.height) {
+        videoFilters.push(`scale=-2:${Math.max(2, Math.round(scale.height / 2) * 2)}`);
+      }
+      if (scale.fps < source.fps - 0.01) {
+        videoFilters.push(`fps=${scale.fps}`);
+      }
+      console.log(
+        `[Export] ${videoBitrateKbps}k video budget -> ${scale.height}p @ ${Math.round(scale.fps * 100) / 100} fps`
+      );
+
+      // Video codec selection based on container
+      videoCodec = 'libx264';
+      let audioCodec = 'aac';
+      const baseOptions = ['-y', '-preset fast'];
+
+      if (outputExt === '.avi') {
+        videoCodec = 'mpeg4';
+        audioCodec = 'libmp3lame';
+      }
+
+      command = command
+        .videoCodec(videoCodec)
+        .audioCodec(audioCodec)
+        .outputOptions([
+          ...baseOptions,
+          `-b:v ${videoBitrateKbps}k`,
+          `-maxrate ${Math.max(100, Math.floor(videoBitrateKbps * 1.05))}k`,
+          `-bufsize ${Math.max(200, Math.floor(videoBitrateKbps * 2))}k`,
+          `-b:a ${audioBitrateKbps}k`
+        ]);
+
+      if (outputExt === '.mp4' || outputExt === '.mov') {
+        command = command.outputOptions(['-movflags +faststart']);
+      }
+    } else if (mustReencode) {
+      // Full quality, but cropped, captioned or retimed frames have to be re-encoded
+      videoCodec = outputExt === '.avi' ? 'mpeg4' : 'libx264';
+      command = command
+        .videoCodec(videoCodec)
+        .audioCodec(outputExt === '.avi' ? 'libmp3lame' : 'aac')
+        .outputOptions(['-y', '-preset fast', videoCodec === 'libx264' ? '-crf 18' : '-q:v 2']);
+
+      if (outputExt === '.mp4' || outputExt === '.mov') {
+        command = command.outputOptions(['-movflags +faststart']);
+      }
+    } else {
+      // Full quality - copy video stream
+      let audioCodec = 'aac';
+      if (outputExt === '.avi') {
+        audioCodec = 'libmp3lame';
+      }
+
+      if (smartCutList) {
+        command = command
+          .input(smartCutList)
+          .inputOptions(['-f concat', '-safe 0']);
+      }
+
+      command = command
+        .outputOptions(['-c:v copy'])
+        .audioCodec(audioCodec)
+        .outputOptions(['-y']);
+
+      if (outputExt === '.mp4' || outputExt === '.mov') {
+        command = command.outputOptions(['-movflags +faststart']);
+      }
+    }
+
+    if (type === 'video') {
+      videoFilters = [
+        ...transformFilters,
+        ...subtitleFilters,
+        ...overlayFilters,
+        ...speedFilters,
+        ...videoFilters,
+      ];
+    }
+
+    const firstExternalInput = smartCutList ? 2 : 1;
+    for (const track of externalTracks) {
+      // Seek into the file when it started before the range; later starts are delayed in the filter
+      const seek = startTime - (track.offset || 0);
+      command = command.input(track.externalPath as string);
+      if (seek > 0) {
+        command = command.inputOptions([`-ss ${seek}`]);
+      }
+    }
+
+    const { filterParts, mapOptions } = buildFilterAndMaps(
+      preset ? preset.audioMode : audioMode || 'combine',
+      type,
+      videoFilters,
+      smartCutList ? '1:v:0' : '0:v:0',
+      firstExternalInput
+    );
+    if (filterParts.length > 0) {
+      command = command.complexFilter(filterParts.join(';'));
+    }
+    if (mapOptions.length > 0) {
+      command = command.outputOptions(mapOptions);
+    }
+
+    // The soft track comes last, already timed from the start of the output
+    if (softSubtitleFile && type === 'video') {
+      const subtitleInput = firstExternalInput + externalTracks.length;
+      command = command
+        .input(softSubtitleFile)
+        .outputOptions([
+          '-map', `${subtitleInput}:0`,
+          '-c:s', getSoftSubtitleCodec(outputExt) as string,
+        ]);
+    }
+
+    const target = applyEncodePass(command, videoCodec, outputPath, encodePass);
+    const progress = smartCutList
+      ? stepProgress(onProgress, 1, 2)
+      : passProgress(onProgress, encodePass);
+    return runExportCommand(jobId, target.command, target.outputPath, progress);
+  };
+
+  const twoPass = params.twoPass !== false;
+
+  if (preset) {
+    return preset.rateControl === 'size'
+      ? await encodeForTargetSize(
+          jobId,
+          encodeOnce,
+          outputPath,
+          outputDuration,
+          preset.targetSizeMB,
+          preset.audioBitrateKbps,
+          twoPass
+        )
+      : await encodeOnce();
+  }
+
+  if (outputType === 'mp3') {
+    return await encodeOnce();
+  }
+
+  if (quality !== 'compressed') {
+    // Re-encoding every frame is frame-accurate already
+    if (mustReencode) {
+      return await encodeOnce();
+    }
+
+    // A plain copy snaps the start to the previous keyframe; smart cut is frame-accurate
+    const videoStream = (meta.streams || []).find((s: any) => s.codec_type === 'video');
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipfolio-smartcut-'));
     try {
-      activeExports.delete(senderId);
-    } catch {}
+      const cut = await smartCutVideo(
+        jobId,
+        inputPath,
+        videoStream,
+        startTime,
+        endTime,
+        workDir,
+        stepProgress(onProgress, 0, 2)
+      );
+      if (typeof cut === 'object' && cut !== null) return cut;
+      if (cut) {
+        smartCutList = cut;
+        return await encodeOnce();
+      }
+    } catch (err) {
+      console.warn('[Export] Smart cut failed, falling back to keyframe copy:', err);
+    } finally {
+      smartCutList = null;
+      try { fs.rmSync(workDir, { recursive: true, force: true }); } catch {}
+    }
+    return await encodeOnce();
+  }
+
+  // Compressed with size target
+  return await encodeForTargetSize(jobId, encodeOnce, outputPath, outputDuration, targetSizeMB, 128, twoPass);
+}
+
+// Run a direct (non-queued) export for a renderer, streaming progress under its jobId
+async function runDirectExport(
+  event: IpcMainInvokeEvent,
+  jobId: string | undefined,
+  run: (id: string, onProgress: (progress: any) => void) => Promise<ExportResult>
+): Promise<ExportResult> {
+  const id = jobId || crypto.randomUUID();
+  exportOwners.set(id, event.sender.id);
+  try {
+    return await run(id, (progress) => sendExportProgress(progress, id));
+  } finally {
+    exportOwners.delete(id);
+    canceledExports.delete(id);
+  }
+}
+
+ipcMain.handle('export-video', async (
+  event,
+  inputPath: string,
+  outputPath: string,
+  startTime: number,
+  endTime: number,
+  quality: 'full' | 'compressed',
+  audioTracks?: db.AudioTrackEdit[],
+  targetSizeMB?: number,
+  jobId?: string,
+  audioMode?: 'combine' | 'separate',
+  outputType?: VideoExportParams['outputType'],
+  options?: Pick<
+    VideoExportParams,
+    | 'preset'
+    | 'resolution'
+    | 'frameRate'
+    | 'twoPass'
+    | 'animation'
+    | 'audioMix'
+    | 'transform'
+    | 'speed'
+    | 'overlays'
+    | 'subtitles'
+  >
+) => {
+  return runDirectExport(event, jobId, (id, onProgress) =>
+    exportVideo(
+      id,
+      {
+        inputPath,
+        outputPath,
+        startTime,
+        endTime,
+        quality,
+        audioTracks,
+        targetSizeMB,
+        audioMode,
+        outputType,
+        ...options,
+      },
+      onProgress
+    )
+  );
+});
+
+interface ReelItem {
+  inputPath: string;
+  startTime: number;
+  endTime: number;
+  // Only the clip's own streams are used; added audio files and subtitles are left out of reels
+  audioTracks?: db.AudioTrackEdit[];
+  audioMix?: db.AudioMixEdit;
+  transform?: db.TransformEdit;
+  speed?: number;
+  overlays?: db.TextOverlay[];
+}
+
+interface ReelExportOptions {
+  outputPath: string;
+  items: ReelItem[];
+  quality: 'full' | 'compressed';
+  targetSizeMB?: number;
+  outputType?: 'video' | 'mp3';
+  // Output frame size/rate; anything left out is taken from the first item
+  normalize?: { width?: number; height?: number; fps?: number };
+  preset?: db.ExportPresetSettings;
+  // Output size/rate for compressed reels (default 'auto')
+  resolution?: ScaleChoice;
+  frameRate?: ScaleChoice;
+  // Size-targeted reels use two-pass encoding unless this is false
+  twoPass?: boolean;
+}
+
+// Parse an ffprobe rate like "30000/1001" into frames per second
+function parseFrameRate(rate?: string): number | null {
+  if (!rate) return null;
+  const [num, den] = rate.split('/').map(Number);
+  const fps = den ? num / den : num;
+  return Number.isFinite(fps) && fps > 0 ? fps : null;
+}
+
+// "00:01:02.50" -> 62.5
+function parseTimemark(timemark?: string): number {
+  if (!timemark) return 0;
+  return timemark
+    .split(':')
+    .reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+}
+
+/**
+ * Stitch ranges from one or more source files into a single output ("highlight reel")
+ */
+async function exportReel(
+  jobId: string,
+  options: ReelExportOptions,
+  onProgress: (progress: any) => void
+): Promise<ExportResult> {
+  const { outputPath, quality, targetSizeMB } = options;
+  const type: 'video' | 'mp3' = options.outputType === 'mp3' ? 'mp3' : 'video';
+  // Stitching always re-encodes, so a stream-copy preset falls back to encoding
+  const requested = type === 'mp3' || !options.preset
+    ? undefined
+    : db.normalizeExportPresetSettings(options.preset);
+  const preset = requested?.videoCodec === 'copy' ? reencodePreset(requested) : requested;
+  const items = (options.items || []).filter((item) => item.endTime > item.startTime);
+  if (items.length === 0) {
+    throw new Error('A highlight reel needs at least one non-empty range');
+  }
+
+  const probes: any[] = await Promise.all(
+    items.map((item) => new Promise((resolve) => {
+      ffmpeg.ffprobe(item.inputPath, (err, data) => resolve(data || { format: {}, streams: [] }));
+    }))
+  );
+
+  // Source span of each item, and how long it plays in the reel
+  const spans = items.map((item) => item.endTime - item.startTime);
+  const speeds = items.map((item) => getExportSpeed(item.speed));
+  const durations = spans.map((span, i) => span / speeds[i]);
+  const totalDuration = durations.reduce((sum, d) => sum + d, 0);
+
+  // Every segment is scaled/padded to one frame size and rate so concat accepts them
+  const firstVideo = (probes[0].streams || []).find((st: any) => st.codec_type === 'video') || {};
+  const firstFrame = getTransformedFrame(getSourceFrame(firstVideo), items[0].transform);
+  const toEven = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+  let width = toEven(options.normalize?.width || firstFrame.width);
+  let height = toEven(options.normalize?.height || firstFrame.height);
+  if (preset?.maxHeight && height > preset.maxHeight) {
+    width = toEven((width * preset.maxHeight) / height);
+    height = preset.maxHeight;
+  }
+  const fps = preset?.fps
+    || options.normalize?.fps
+    || parseFrameRate(firstVideo.avg_frame_rate)
+    || parseFrameRate(firstVideo.r_frame_rate)
+    || 30;
+
+  const buildReelFilter = (frame: { width: number; height: number; fps: number }): string[] => {
+    const filterParts: string[] = [];
+    const concatInputs: string[] = [];
+
+    items.forEach((item, i) => {
+      const audioStreams = (probes[i].streams || []).filter((st: any) => st.codec_type === 'audio');
+      const getTrackFilters = (idx: number): string => {
+        const track = getExportTrack(item.audioTracks, idx);
+        return [
+          'asetpts=PTS-STARTPTS',
+          ...buildTrackAudioFilters(track, item.startTime, spans[i]),
+          ...buildAtempoFilters(speeds[i]),
+        ].join(',');
+      };
+      const mixFilter = item.audioMix?.normalize ? `${LOUDNORM_FILTER},` : '';
+
+      if (type === 'video') {
+        const itemVideo = (probes[i].streams || []).find((st: any) => st.codec_type === 'video');
+        const itemFrame = getTransformedFrame(getSourceFrame(itemVideo), item.transform);
+        const spatialFilters = [
+          ...buildTransformFilters(item.transform),
+          ...buildOverlayFilters(item.overlays, item.startTime, item.endTime, itemFrame.height),
+        ].map((f) => `${f},`).join('');
+        // Text is timed against the segment, so retime only after drawing it
+        filterParts.push(
+          `[${i}:v:0]setpts=PTS-STARTPTS,${spatialFilters}setpts=PTS/${speeds[i]},` +
+          `scale=${frame.width}:${frame.height}:force_original_aspect_ratio=decrease,` +
+          `pad=${frame.width}:${frame.height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${frame.fps},format=yuv420p[v${i}]`
+        );
+        concatInputs.push(`[v${i}]`);
+      }
+
+      // Each segment contributes exactly one stereo track of its own length
+      const audioFormat = `aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,apad,atrim=0:${durations[i]}`;
+      if (audioStreams.length === 0) {
+        filterParts.push(`anullsrc=r=48000:cl=stereo,atrim=0:${durations[i]}[a${i}]`);
+      } else if (audioStreams.length === 1) {
+        filterParts.push(`[${i}:a:0]${getTrackFilters(0)},${mixFilter}${audioFormat}[a${i}]`);
+      } else {
+        const trackLabels: string[] = [];
+        audioStreams.forEach((_: any, k: number) => {
+          filterParts.push(`[${i}:a:${k}]${getTrackFilters(k)}[a${i}_${k}]`);
+          trackLabels.push(`[a${i}_${k}]`);
+        });
+        filterParts.push(
+          `${trackLabels.join('')}amix=inputs=${trackLabels.length}:duration=longest,${mixFilter}${audioFormat}[a${i}]`
+        );
+      }
+      concatInputs.push(`[a${i}]`);
+    });
+
+    filterParts.push(
+      type === 'video'
+        ? `${concatInputs.join('')}concat=n=${items.length}:v=1:a=1[vout][aout]`
+        : `${concatInputs.join('')}concat=n=${items.length}:v=0:a=1[aout]`
+    );
+    return filterParts;
+  };
+
+  const encodeOnce = (videoBitrateKbps?: number, encodePass?: EncodePass) => {
+    let command = ffmpeg();
+    items.forEach((item, i) => {
+      command = command
+        .input(item.inputPath)
+        .inputOptions([`-ss ${item.startTime}`, `-t ${spans[i]}`]);
+    });
+
+    const outputExt = path.extname(outputPath).toLowerCase();
+    let frame = { width, height, fps };
+    let videoCodec = 'copy';
+    if (type === 'video' && !preset && quality === 'compressed') {
+      const scale = pickCompressedScale(
+        frame,
+        encodePass ? encodePass.planBitrateKbps : videoBitrateKbps || 800,
+        options.resolution,
+        options.frameRate
+      );
+      frame = { width: toEven((width * scale.height) / height), height: toEven(scale.height), fps: scale.fps };
+    }
+    command = command.complexFilter(buildReelFilter(frame).join(';'));
+
+    if (type === 'mp3') {
+      command = applyAudioOnlyCodec(command.outputOptions(['-map', '[aout]']), outputExt);
+    } else if (preset) {
+      command = applyExportPreset(command, preset, outputExt, videoBitrateKbps)
+        .outputOptions(['-map', '[vout]', '-map', '[aout]']);
+      videoCodec = preset.videoCodec;
+    } else {
+      // Stitching always re-encodes; "full" keeps quality high instead of copying
+      videoCodec = outputExt === '.avi' ? 'mpeg4' : 'libx264';
+      const audioCodec = outputExt === '.avi' ? 'libmp3lame' : 'aac';
+      const rateOptions = quality === 'compressed'
+        ? [
+            `-b:v ${videoBitrateKbps || 800}k`,
+            `-maxrate ${Math.max(100, Math.floor((videoBitrateKbps || 800) * 1.05))}k`,
+            `-bufsize ${Math.max(200, Math.floor((videoBitrateKbps || 800) * 2))}k`,
+            '-b:a 128k'
+          ]
+        : videoCodec === 'libx264'
+          ? ['-crf 18', '-b:a 192k']
+          : ['-q:v 2', '-b:a 192k'];
+
+      command = command
+        .videoCodec(videoCodec)
+        .audioCodec(audioCodec)
+        .outputOptions(['-y', '-preset fast', ...rateOptions, '-map', '[vout]', '-map', '[aout]']);
+
+      if (outputExt === '.mp4' || outputExt === '.mov') {
+        command = command.outputOptions(['-movflags +faststart']);
+      }
+    }
+
+    // ffmpeg only knows the first input's duration, so compute percent over the whole reel
+    const reportProgress = passProgress(onProgress, encodePass);
+    const target = applyEncodePass(command, videoCodec, outputPath, encodePass);
+    return runExportCommand(jobId, target.command, target.outputPath, (progress) => {
+      const elapsed = parseTimemark(progress.timemark);
+      const percent = Math.min(100, (elapsed / totalDuration) * 100);
+      reportProgress({ ...progress, percent });
+    });
+  };
+
+  const twoPass = options.twoPass !== false;
+
+  if (preset) {
+    return preset.rateControl === 'size'
+      ? await encodeForTargetSize(
+          jobId,
+          encodeOnce,
+          outputPath,
+          totalDuration,
+          preset.targetSizeMB,
+          preset.audioBitrateKbps,
+          twoPass
+        )
+      : await encodeOnce();
+  }
+
+  if (type === 'mp3' || quality !== 'compressed') {
+    return await encodeOnce();
+  }
+
+  return await encodeForTargetSize(jobId, encodeOnce, outputPath, totalDuration, targetSizeMB, 128, twoPass);
+}
+
+ipcMain.handle('export-reel', async (event, options: ReelExportOptions & { jobId?: string }) => {
+  return runDirectExport(event, options.jobId, (id, onProgress) => exportReel(id, options, onProgress));
+});
+
+// Kill the ffmpeg process behind a running export, if any
+function killExport(jobId: string): boolean {
+  const cmd = activeExports.get(jobId);
+  if (!cmd) return false;
+  try {
+    canceledExports.add(jobId);
+    cmd.kill('SIGKILL');
+  } catch {}
+  try {
+    activeExports.delete(jobId);
+  } catch {}
+  return true;
+}
+
+// Without a jobId, cancels every direct export started by the calling window
+ipcMain.handle('cancel-export', async (event, jobId?: string) => {
+  // Between ffmpeg steps nothing is running to kill; the flag stops the next step
+  if (jobId) {
+    if (!killExport(jobId)) canceledExports.add(jobId);
+    return true;
+  }
+  for (const [id, senderId] of exportOwners) {
+    if (senderId === event.sender.id && !killExport(id)) canceledExports.add(id);
   }
   return true;
 });
 
+// Export queue: jobs live in the database so queued work survives a restart
+const MAX_EXPORT_CONCURRENCY = 4;
+let exportConcurrency = 1;
+const runningQueueJobs = new Set<string>();
+// Jobs whose 'running' status couldn't be written; skipped until retried so they aren't re-picked forever
+const failedToStart = new Set<string>();
+
+function broadcastExportQueue() {
+  if (!mainWindow) return;
+  try {
+    mainWindow.webContents.send('export-queue-updated', db.getExportJobs());
+  } catch {}
+}
+
+function processExportQueue() {
+  try {
+    const queued = db.getExportJobs().filter(
+      (job) => job.status === 'queued' && !runningQueueJobs.has(job.id) && !failedToStart.has(job.id)
+    );
+    while (runningQueueJobs.size < exportConcurrency && queued.length > 0) {
+      void runQueuedExport(queued.shift()!);
+    }
+  } catch (error) {
+    console.error('[Export queue] Failed to start queued jobs:', error);
+  }
+}
+
+async function runQueuedExport(job: db.ExportJobRecord) {
+  runningQueueJobs.add(job.id);
+
+  // Persist progress in whole-percent steps; live updates go out on export-progress
+  let lastSavedPercent = 0;
+  const onProgress = (progress: any) => {
+    sendExportProgress(progress, job.id);
+    const percent = Math.floor(progress?.percent || 0);
+    if (percent > lastSavedPercent) {
+      lastSavedPercent = percent;
+      try { db.updateExportJobProgress(job.id, percent); } catch {}
+    }
+  };
+
+  // Everything after claiming the slot is inside the try, so finally always frees it
+  let started = false;
+  try {
+    db.updateExportJobStatus(job.id, 'running');
+    started = true;
+    broadcastExportQueue();
+
+    await fs.promises.mkdir(path.dirname(job.outputPath), { recursive: true });
+    const params = { ...job.params, outputPath: job.outputPath };
+    const result = job.kind === 'reel'
+      ? await exportReel(job.id, params, onProgress)
+      : await exportVideo(job.id, params, onProgress);
+
+    const wasCanceled = typeof result === 'object' && result.status === 'canceled';
+    db.updateExportJobStatus(job.id, wasCanceled ? 'canceled' : 'done');
+  } catch (error: any) {
+    const message = (error?.message || String(error)).split('\n')[0];
+    console.error(`[Export queue] Job ${job.id} failed:`, error);
+    if (!started) failedToStart.add(job.id);
+    try { db.updateExportJobStatus(job.id, 'failed', message); } catch {}
+  } finally {
+    runningQueueJobs.delete(job.id);
+    // A cancel that landed after the last ffmpeg step would otherwise kill a retry at once
+    canceledExports.delete(job.id);
+    broadcastExportQueue();
+    // Next tick, so a job that fails before its first await can't recurse through here
+    setImmediate(processExportQueue);
+  }
+}
+
+/**
+ * Restore queue settings and pick up jobs left over from the last session
+ */
+function initExportQueue() {
+  const saved = Number(db.getSetting('exportConcurrency'));
+  if (Number.isInteger(saved) && saved >= 1) {
+    exportConcurrency = Math.min(MAX_EXPORT_CONCURRENCY, saved);
+  }
+
+  const requeued = db.requeueInterruptedExportJobs();
+  if (requeued > 0) {
+    console.log(`[Export queue] Re-queued ${requeued} interrupted job(s)`);
+  }
+  processExportQueue();
+}
+
+ipcMain.handle('enqueue-export', async (event, job: {
+  kind: 'video' | 'reel';
+  label: string;
+  params: VideoExportParams | ReelExportOptions;
+}) => {
+  const created = db.createExportJob(
+    crypto.randomUUID(),
+    job.kind,
+    job.label,
+    job.params.outputPath,
+    job.params
+  );
+  broadcastExportQueue();
+  processExportQueue();
+  return created;
+});
+
+ipcMain.handle('get-export-jobs', async () => {
+  return db.getExportJobs();
+});
+
+ipcMain.handle('cancel-export-job', async (event, jobId: string) => {
+  const job = db.getExportJob(jobId);
+  if (!job) return false;
+
+  if (job.status === 'running') {
+    // runQueuedExport records the canceled status once ffmpeg exits
+    if (!killExport(jobId)) canceledExports.add(jobId);
+  } else if (job.status === 'queued') {
+    db.updateExportJobStatus(jobId, 'canceled');
+    broadcastExportQueue();
+  }
+  return true;
+});
+
+ipcMain.handle('retry-export-job', async (event, jobId: string) => {
+  const job = db.getExportJob(jobId);
+  if (!job || (job.status !== 'failed' && job.status !== 'canceled')) return false;
+
+  failedToStart.delete(jobId);
+  canceledExports.delete(jobId);
+  db.updateExportJobStatus(jobId, 'queued');
+  broadcastExportQueue();
+  processExportQueue();
+  return true;
+});
+
+ipcMain.handle('remove-export-job', async (event, jobId: string) => {
+  db.deleteExportJob(jobId);
+  broadcastExportQueue();
+  return true;
+});
+
+ipcMain.handle('clear-finished-export-jobs', async () => {
+  db.clearFinishedExportJobs();
+  broadcastExportQueue();
+  return true;
+});
+
+ipcMain.handle('get-export-concurrency', async () => {
+  return exportConcurrency;
+});
+
+ipcMain.handle('set-export-concurrency', async (event, concurrency: number) => {
+  exportConcurrency = Math.max(1, Math.min(MAX_EXPORT_CONCURRENCY, Math.floor(concurrency) || 1));
+  db.setSetting('exportConcurrency', String(exportConcurrency));
+  processExportQueue();
+  return exportConcurrency;
+});
+
 ipcMain.handle('start-drag', async (event, payload: { filePath: string; iconPath?: string }) => {
   const win = BrowserWindow.fromWebContents(event.sender);
   if (!win) return;
@@ -1235,6 +3121,17 @@ ipcMain.handle('save-clip-edits', async (event, data: {
   }
 });
 
+// Revert a clip to the original by dropping its saved edits
+ipcMain.handle('clear-clip-edits', async (event, contentHash: string) => {
+  try {
+    db.clearClipEdits(contentHash);
+    return { success: true };
+  } catch (error) {
+    console.error('Error clearing clip edits:', error);
+    throw error;
+  }
+});
+
 // Get saved edits for a clip
 ipcMain.handle('get-clip-edits', async (event, contentHash: string) => {
   try {
@@ -1289,6 +3186,232 @@ ipcMain.handle('get-all-favorites', async () => {
   }
 });
 
+// Get all tags with usage counts
+ipcMain.handle('get-all-tags', async () => {
+  try {
+    return db.getAllTags();
+  } catch (error) {
+    console.error('Error getting tags:', error);
+    return [];
+  }
+});
+
+// Notes attached to a clip
+ipcMain.handle('get-clip-notes', async (event, contentHash: string) => {
+  try {
+    return db.getClipNotes(contentHash);
+  } catch (error) {
+    console.error('Error getting clip notes:', error);
+    return '';
+  }
+});
+
+ipcMain.handle('set-clip-notes', async (event, data: {
+  contentHash: string;
+  filepath: string;
+  fileSize: number;
+  duration: number | null;
+  notes: string;
+}) => {
+  db.setClipNotes(data.contentHash, data.filepath, data.fileSize, data.duration, data.notes);
+  return true;
+});
+
+// Replace the search index of a library folder with its scanned files
+ipcMain.handle('sync-search-index', async (event, root: string, entries: db.SearchIndexEntry[]) => {
+  db.syncSearchIndex(root, entries);
+  return true;
+});
+
+ipcMain.handle('index-search-entry', async (event, root: string, entry: db.SearchIndexEntry) => {
+  db.indexSearchEntry(root, entry);
+  return true;
+});
+
+// Search a library folder; results are in relevance order when ranked
+ipcMain.handle('search-clips', async (event, root: string, query: string) => {
+  const search = parseSearchQuery(query);
+  try {
+    return { ranked: search.hasText, matches: db.searchClips(root, search) };
+  } catch (error) {
+    console.error('Error searching clips:', error);
+    return { ranked: false, matches: [] };
+  }
+});
+
+// Smart collections, each with the number of clips it holds in a library folder
+ipcMain.handle('get-collections', async (event, root: string | null) => {
+  try {
+    return db.getCollections().map((collection) => ({
+      ...collection,
+      count: root ? db.searchClips(root, parseSearchQuery(collection.query)).length : 0,
+    }));
+  } catch (error) {
+    console.error('Error getting collections:', error);
+    return [];
+  }
+});
+
+// Create or update a smart collection
+ipcMain.handle('save-collection', async (event, data: {
+  id?: number;
+  name: string;
+  query: string;
+  sortBy: db.CollectionSortBy;
+  sortOrder: db.CollectionSortOrder;
+}) => {
+  try {
+    return db.saveCollection(data, data.id);
+  } catch (error) {
+    console.error('Error saving collection:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('delete-collection', async (event, id: number) => {
+  try {
+    db.deleteCollection(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    throw error;
+  }
+});
+
+// Get tags for a clip
+ipcMain.handle('get-clip-tags', async (event, contentHash: string) => {
+  try {
+    return db.getClipTags(contentHash);
+  } catch (error) {
+    console.error('Error getting clip tags:', error);
+    return [];
+  }
+});
+
+// Add a tag (by name) to one or more clips
+ipcMain.handle('add-clip-tag', async (event, data: { contentHashes: string[]; name: string }) => {
+  try {
+    return db.addClipTag(data.contentHashes, data.name);
+  } catch (error) {
+    console.error('Error adding clip tag:', error);
+    throw error;
+  }
+});
+
+// Remove a tag from one or more clips
+ipcMain.handle('remove-clip-tag', async (event, data: { contentHashes: string[]; tagId: number }) => {
+  try {
+    db.removeClipTag(data.contentHashes, data.tagId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing clip tag:', error);
+    throw error;
+  }
+});
+
+// Rename a tag
+ipcMain.handle('rename-tag', async (event, tagId: number, name: string) => {
+  try {
+    return db.renameTag(tagId, name);
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    throw error;
+  }
+});
+
+// Merge several tags into one
+ipcMain.handle('merge-tags', async (event, sourceTagIds: number[], targetTagId: number) => {
+  try {
+    return db.mergeTags(sourceTagIds, targetTagId);
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    throw error;
+  }
+});
+
+// Delete a tag entirely
+ipcMain.handle('delete-tag', async (event, tagId: number) => {
+  try {
+    db.deleteTag(tagId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    throw error;
+  }
+});
+
+// Get all export presets
+ipcMain.handle('get-export-presets', async () => {
+  try {
+    return db.getExportPresets();
+  } catch (error) {
+    console.error('Error getting export presets:', error);
+    return [];
+  }
+});
+
+// Create or update an export preset
+ipcMain.handle('save-export-preset', async (event, data: {
+  id?: number;
+  name: string;
+  settings: Partial<db.ExportPresetSettings>;
+}) => {
+  try {
+    return db.saveExportPreset(data.name, data.settings, data.id);
+  } catch (error) {
+    console.error('Error saving export preset:', error);
+    throw error;
+  }
+});
+
+// Delete an export preset
+ipcMain.handle('delete-export-preset', async (event, id: number) => {
+  try {
+    db.deleteExportPreset(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting export preset:', error);
+    throw error;
+  }
+});
+
+// Write presets (all, or the given ids) to a JSON file for sharing
+ipcMain.handle('export-presets-to-file', async (event, ids?: number[]) => {
+  const presets = db.getExportPresets().filter((preset) => !ids || ids.includes(preset.id));
+  const result = await dialog.showSaveDialog({
+    defaultPath: presets.length === 1 ? `${presets[0].name}.json` : 'Clipfolio presets.json',
+    filters: [{ name: 'Preset files', extensions: ['json'] }]
+  });
+  if (result.canceled || !result.filePath) return { canceled: true, count: 0 };
+
+  const file = {
+    type: 'clipfolio-export-presets',
+    version: 1,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  await fs.promises.writeFile(result.filePath, JSON.stringify(file, null, 2), 'utf8');
+  return { canceled: false, count: presets.length };
+});
+
+// Import presets from a JSON file written by 'export-presets-to-file'
+ipcMain.handle('import-presets-from-file', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [{ name: 'Preset files', extensions: ['json'] }]
+  });
+  if (result.canceled || result.filePaths.length === 0) return { canceled: true, count: 0 };
+
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(result.filePaths[0], 'utf8'));
+    // Accept a bare array or a single preset as well as the full file format
+    const presets = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.presets) ? parsed.presets : [parsed];
+    return { canceled: false, count: db.importExportPresets(presets) };
+  } catch (error) {
+    console.error('Error importing export presets:', error);
+    throw error;
+  }
+});
+
 // Get file stats
 ipcMain.handle('get-file-stats', async (event, filePath: string) => {
   try {
@@ -1420,6 +3543,7 @@ ipcMain.handle('watch-folder', async (event, folderPath: string) => {
             // File removed
             console.log('[FileWatcher] File removed from library:', fullPath);
             existingFiles.delete(fullPath);
+            db.removeSearchEntry(fullPath);
             if (mainWindow) {
               mainWindow.webContents.send('file-removed', { filePath: fullPath });
             }
@@ -1455,6 +3579,7 @@ ipcMain.handle('trash-files', async (event, filePaths: string[]) => {
     for (const filePath of filePaths) {
       try {
         await shell.trashItem(filePath);
+        db.removeSearchEntry(filePath);
         console.log('[Trash] Moved to trash:', filePath);
         results.push({ path: filePath, success: true });
       } catch (error) {
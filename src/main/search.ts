@@ -0,0 +1,209 @@
+// Types
+export type SearchTextField = 'folder';
+export type SearchComparison = '<' | '<=' | '>' | '>=' | '=';
+
+// A word or quoted phrase, optionally limited to one indexed column
+export interface SearchTextTerm {
+  kind: 'text';
+  text: string;
+  phrase: boolean;
+  field?: SearchTextField;
+  negated: boolean;
+}
+
+// Has any of the tags
+export interface SearchTagTerm {
+  kind: 'tag';
+  names: string[];
+  negated: boolean;
+}
+
+// duration: is in seconds, size: in bytes
+export interface SearchRangeTerm {
+  kind: 'duration' | 'size';
+  op: SearchComparison;
+  value: number;
+  // Tolerance for '=', half of the unit the value was written in
+  tolerance: number;
+  negated: boolean;
+}
+
+// Edits last changed less ('<') or more ('>') than the given seconds ago
+export interface SearchAgeTerm {
+  kind: 'edited';
+  op: '<' | '>';
+  seconds: number;
+  negated: boolean;
+}
+
+export interface SearchFlagTerm {
+  kind: 'is';
+  flag: 'favorite' | 'edited';
+  negated: boolean;
+}
+
+export type SearchTerm =
+  | SearchTextTerm
+  | SearchTagTerm
+  | SearchRangeTerm
+  | SearchAgeTerm
+  | SearchFlagTerm;
+
+/**
+ * A library search, one chunk of input per term. Text terms are matched
+ * against the full-text index; the rest filter on clip properties.
+ */
+export interface ParsedSearch {
+  terms: SearchTerm[];
+  // Whether any positive text term is present, so results can be ranked
+  hasText: boolean;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  '': 1,
+  s: 1,
+  sec: 1,
+  m: 60,
+  min: 60,
+  h: 3600,
+};
+
+// Bare numbers are megabytes
+const SIZE_UNITS: Record<string, number> = {
+  '': 1024 * 1024,
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+// Bare numbers are days
+const AGE_UNITS: Record<string, number> = {
+  '': 86400,
+  h: 3600,
+  d: 86400,
+  w: 7 * 86400,
+};
+
+const FLAG_ALIASES: Record<string, SearchFlagTerm['flag']> = {
+  favorite: 'favorite',
+  favourite: 'favorite',
+  fav: 'favorite',
+  edited: 'edited',
+};
+
+/**
+ * Split the input into tokens, keeping quoted phrases (also after a prefix,
+ * as in tag:"road trip") together. An unclosed quote runs to the end.
+ */
+function tokenize(query: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /[^\s"]*"[^"]*("|$)|[^\s"]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    tokens.push(match[0]);
+  }
+  return tokens;
+}
+
+function unquote(value: string): { text: string; phrase: boolean } {
+  if (value.startsWith('"')) {
+    return { text: value.replace(/^"|"$/g, '').trim(), phrase: true };
+  }
+  return { text: value, phrase: false };
+}
+
+function parseRange(kind: 'duration' | 'size', value: string, negated: boolean): SearchRangeTerm | null {
+  const match = value.toLowerCase().match(/^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)([a-z]*)$/);
+  if (!match) return null;
+
+  const units = kind === 'duration' ? DURATION_UNITS : SIZE_UNITS;
+  const unit = units[match[3]];
+  if (unit === undefined) return null;
+
+  return {
+    kind,
+    op: (match[1] as SearchComparison) || '=',
+    value: Number(match[2]) * unit,
+    tolerance: unit / 2,
+    negated,
+  };
+}
+
+function parseAge(value: string, negated: boolean): SearchAgeTerm | null {
+  const match = value.toLowerCase().match(/^(<|>)?(\d+(?:\.\d+)?)([a-z]*)$/);
+  if (!match) return null;
+
+  const unit = AGE_UNITS[match[3]];
+  if (unit === undefined) return null;
+
+  return {
+    kind: 'edited',
+    op: (match[1] as '<' | '>') || '<',
+    seconds: Number(match[2]) * unit,
+    negated,
+  };
+}
+
+function parseToken(token: string): SearchTerm | null {
+  let negated = false;
+  let body = token;
+  if (body.length > 1 && body.startsWith('-')) {
+    negated = true;
+    body = body.slice(1);
+  }
+
+  const prefix = body.match(/^([a-z]+):(.+)$/i);
+  if (prefix) {
+    const key = prefix[1].toLowerCase();
+    const value = prefix[2];
+
+    if (key === 'folder') {
+      const { text, phrase } = unquote(value);
+      if (text) return { kind: 'text', text, phrase, field: 'folder', negated };
+    } else if (key === 'tag') {
+      const names = unquote(value).text.split(',').map((name) => name.trim()).filter(Boolean);
+      if (names.length > 0) return { kind: 'tag', names, negated };
+    } else if (key === 'duration' || key === 'size') {
+      const range = parseRange(key, value, negated);
+      if (range) return range;
+    } else if (key === 'edited') {
+      const age = parseAge(value, negated);
+      if (age) return age;
+    } else if (key === 'is') {
+      const flag = FLAG_ALIASES[value.toLowerCase()];
+      if (flag) return { kind: 'is', flag, negated };
+    }
+    // Anything else is searched for as typed
+  }
+
+  const { text, phrase } = unquote(body);
+  // Punctuation alone has nothing for the index to match
+  if (!/[\p{L}\p{N}]/u.test(text)) return null;
+  return { kind: 'text', text, phrase, negated };
+}
+
+/**
+ * Parse library search syntax: words (prefix-matched), "quoted phrases",
+ * -exclusions, folder:, tag: (tag:a,b for either), duration:>30s,
+ * size:<50mb, edited:<7d, is:favorite and is:edited
+ */
+export function parseSearchQuery(query: string): ParsedSearch {
+  const terms = tokenize(query)
+    .map(parseToken)
+    .filter((term): term is SearchTerm => term !== null);
+
+  return {
+    terms,
+    hasText: terms.some((term) => term.kind === 'text' && !term.negated),
+  };
+}
+
+/**
+ * Build an FTS5 MATCH expression for a text term. Input is always quoted, so
+ * operators and punctuation typed by the user are taken literally.
+ */
+export function toMatchExpression(term: SearchTextTerm): string {
+  const quoted = `"${term.text.replace(/"/g, '""')}"${term.phrase ? '' : '*'}`;
+  return term.field ? `${term.field} : ${quoted}` : quoted;
+}
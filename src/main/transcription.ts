@@ -0,0 +1,144 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { spawn } from 'child_process';
+import { TranscriptSegment } from './database';
+
+// Types
+export interface TranscriptionSettings {
+  // Id of a registered engine
+  engine: string;
+  // Engine executable and model, chosen by the user
+  binaryPath: string;
+  modelPath: string;
+  // Spoken language code, or 'auto' to detect it
+  language: string;
+}
+
+export interface TranscribeOptions {
+  settings: TranscriptionSettings;
+  // Scratch directory for the engine's own output files
+  workDir: string;
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * An offline speech-to-text engine. Engines are handed 16 kHz mono 16-bit
+ * WAV files, which is what local speech models expect.
+ */
+export interface TranscriptionEngine {
+  id: string;
+  name: string;
+  transcribe: (wavPath: string, options: TranscribeOptions) => Promise<TranscriptSegment[]>;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  engine: 'whisper.cpp',
+  binaryPath: '',
+  modelPath: '',
+  language: 'auto',
+};
+
+const engines = new Map<string, TranscriptionEngine>();
+
+export function registerTranscriptionEngine(engine: TranscriptionEngine): void {
+  engines.set(engine.id, engine);
+}
+
+export function getTranscriptionEngine(id: string): TranscriptionEngine | null {
+  return engines.get(id) ?? null;
+}
+
+export function listTranscriptionEngines(): Array<{ id: string; name: string }> {
+  return Array.from(engines.values()).map(({ id, name }) => ({ id, name }));
+}
+
+/**
+ * Run an engine executable, reporting stderr lines as they arrive. Rejects
+ * with the tail of stderr when it exits with an error, or on abort.
+ */
+function runEngineProcess(
+  binaryPath: string,
+  args: string[],
+  onStderrLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binaryPath, args, { windowsHide: true });
+    let stderrTail = '';
+    let pending = '';
+
+    const onAbort = () => child.kill();
+    signal?.addEventListener('abort', onAbort);
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderrTail = (stderrTail + text).slice(-2000);
+      pending += text;
+      const lines = pending.split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      lines.forEach(onStderrLine);
+    });
+    // Results go to files; stdout only echoes them
+    child.stdout.resume();
+
+    child.on('error', (error) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        reject(new Error('Transcription canceled'));
+      } else if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Exited with code ${code}: ${stderrTail.trim().split('\n').pop() || ''}`));
+      }
+    });
+  });
+}
+
+// whisper.cpp's command line tool (whisper-cli, or main in older builds)
+const whisperCppEngine: TranscriptionEngine = {
+  id: 'whisper.cpp',
+  name: 'whisper.cpp',
+  transcribe: async (wavPath, { settings, workDir, onProgress, signal }) => {
+    if (!settings.modelPath) {
+      throw new Error('Choose a whisper.cpp model file first');
+    }
+
+    const outputPrefix = path.join(workDir, 'transcript');
+    await runEngineProcess(
+      settings.binaryPath,
+      [
+        '-m', settings.modelPath,
+        '-f', wavPath,
+        '-l', settings.language || 'auto',
+        '-oj',
+        '-of', outputPrefix,
+        '-pp',
+      ],
+      (line) => {
+        const match = line.match(/progress\s*=\s*(\d+)%/);
+        if (match) onProgress?.(Number(match[1]));
+      },
+      signal
+    );
+
+    // Offsets are in milliseconds
+    const output = JSON.parse(await fs.promises.readFile(`${outputPrefix}.json`, 'utf8'));
+    return (output.transcription || [])
+      .map((item: any) => ({
+        start: (item.offsets?.from ?? 0) / 1000,
+        end: (item.offsets?.to ?? 0) / 1000,
+        text: String(item.text || '').trim(),
+      }))
+      // Silence comes out as "[BLANK_AUDIO]" and the like
+      .filter((segment: TranscriptSegment) =>
+        segment.text && !/^[[(].*[\])]$/.test(segment.text) && segment.end > segment.start
+      );
+  },
+};
+
+registerTranscriptionEngine(whisperCppEngine);
@@ -22,6 +22,8 @@ contextBridge.exposeInMainWorld('api', {
 
   // Folder and file operations
   selectFolder: () => ipcRenderer.invoke('select-folder'),
+  selectAudioFile: () => ipcRenderer.invoke('select-audio-file'),
+  selectSubtitleFile: () => ipcRenderer.invoke('select-subtitle-file'),
   scanVideos: (folderPath: string) => ipcRenderer.invoke('scan-videos', folderPath),
   watchFolder: (folderPath: string) => ipcRenderer.invoke('watch-folder', folderPath),
   unwatchFolder: (folderPath: string) => ipcRenderer.invoke('unwatch-folder', folderPath),
@@ -32,6 +34,9 @@ contextBridge.exposeInMainWorld('api', {
   // Video metadata and thumbnails
   getVideoMetadata: (videoPath: string) => ipcRenderer.invoke('get-video-metadata', videoPath),
   getCachedMetadata: (videoPath: string) => ipcRenderer.invoke('get-cached-metadata', videoPath),
+  getKeyframes: (videoPath: string) => ipcRenderer.invoke('get-keyframes', videoPath),
+  getCachedFilmstripFrame: (videoPath: string, time: number) =>
+    ipcRenderer.invoke('get-cached-filmstrip-frame', videoPath, time),
   getCachedThumbnail: (videoPath: string, duration?: number, trimStart?: number, trimEnd?: number) =>
     ipcRenderer.invoke('get-cached-thumbnail', videoPath, duration, trimStart, trimEnd),
   generateThumbnail: (videoPath: string, outputPath: string, timestampSeconds?: number) =>
@@ -43,12 +48,37 @@ contextBridge.exposeInMainWorld('api', {
   getClipHash: (filepath: string, duration?: number | null) => ipcRenderer.invoke('get-clip-hash', filepath, duration),
   saveClipEdits: (data: any) => ipcRenderer.invoke('save-clip-edits', data),
   getClipEdits: (contentHash: string) => ipcRenderer.invoke('get-clip-edits', contentHash),
+  clearClipEdits: (contentHash: string) => ipcRenderer.invoke('clear-clip-edits', contentHash),
 
   // Favorites
   toggleFavorite: (data: any) => ipcRenderer.invoke('toggle-favorite', data),
   isFavorite: (contentHash: string) => ipcRenderer.invoke('is-favorite', contentHash),
   getAllFavorites: () => ipcRenderer.invoke('get-all-favorites'),
 
+  // Tags
+  getAllTags: () => ipcRenderer.invoke('get-all-tags'),
+  getClipTags: (contentHash: string) => ipcRenderer.invoke('get-clip-tags', contentHash),
+  addClipTag: (data: { contentHashes: string[]; name: string }) => ipcRenderer.invoke('add-clip-tag', data),
+  removeClipTag: (data: { contentHashes: string[]; tagId: number }) => ipcRenderer.invoke('remove-clip-tag', data),
+  renameTag: (tagId: number, name: string) => ipcRenderer.invoke('rename-tag', tagId, name),
+  mergeTags: (sourceTagIds: number[], targetTagId: number) =>
+    ipcRenderer.invoke('merge-tags', sourceTagIds, targetTagId),
+  deleteTag: (tagId: number) => ipcRenderer.invoke('delete-tag', tagId),
+
+  // Notes
+  getClipNotes: (contentHash: string) => ipcRenderer.invoke('get-clip-notes', contentHash),
+  setClipNotes: (data: any) => ipcRenderer.invoke('set-clip-notes', data),
+
+  // Search
+  syncSearchIndex: (root: string, entries: any[]) => ipcRenderer.invoke('sync-search-index', root, entries),
+  indexSearchEntry: (root: string, entry: any) => ipcRenderer.invoke('index-search-entry', root, entry),
+  searchClips: (root: string, query: string) => ipcRenderer.invoke('search-clips', root, query),
+
+  // Smart collections
+  getCollections: (root: string | null) => ipcRenderer.invoke('get-collections', root),
+  saveCollection: (data: any) => ipcRenderer.invoke('save-collection', data),
+  deleteCollection: (id: number) => ipcRenderer.invoke('delete-collection', id),
+
   // Export
   selectSaveLocation: (defaultPath: string, filters?: Array<{ name: string; extensions: string[] }>) =>
     ipcRenderer.invoke('select-save-location', defaultPath, filters),
@@ -62,7 +92,8 @@ contextBridge.exposeInMainWorld('api', {
     targetSizeMB?: number,
     jobId?: string,
     audioMode?: 'combine' | 'separate',
-    outputType?: 'video' | 'mp3'
+    outputType?: 'video' | 'mp3' | 'gif' | 'webp',
+    options?: any
   ) =>
     ipcRenderer.invoke(
       'export-video',
@@ -75,15 +106,55 @@ contextBridge.exposeInMainWorld('api', {
       targetSizeMB,
       jobId,
       audioMode,
-      outputType
+      outputType,
+      options
     ),
-  cancelExport: () => ipcRenderer.invoke('cancel-export'),
+  exportReel: (options: any) => ipcRenderer.invoke('export-reel', options),
+  cancelExport: (jobId?: string) => ipcRenderer.invoke('cancel-export', jobId),
+
+  // Export queue
+  enqueueExport: (job: any) => ipcRenderer.invoke('enqueue-export', job),
+  getExportJobs: () => ipcRenderer.invoke('get-export-jobs'),
+  cancelExportJob: (jobId: string) => ipcRenderer.invoke('cancel-export-job', jobId),
+  retryExportJob: (jobId: string) => ipcRenderer.invoke('retry-export-job', jobId),
+  removeExportJob: (jobId: string) => ipcRenderer.invoke('remove-export-job', jobId),
+  clearFinishedExportJobs: () => ipcRenderer.invoke('clear-finished-export-jobs'),
+  getExportConcurrency: () => ipcRenderer.invoke('get-export-concurrency'),
+  setExportConcurrency: (concurrency: number) => ipcRenderer.invoke('set-export-concurrency', concurrency),
+
+  // Export presets
+  getExportPresets: () => ipcRenderer.invoke('get-export-presets'),
+  saveExportPreset: (data: { id?: number; name: string; settings: any }) =>
+    ipcRenderer.invoke('save-export-preset', data),
+  deleteExportPreset: (id: number) => ipcRenderer.invoke('delete-export-preset', id),
+  exportPresetsToFile: (ids?: number[]) => ipcRenderer.invoke('export-presets-to-file', ids),
+  importPresetsFromFile: () => ipcRenderer.invoke('import-presets-from-file'),
 
   // Audio
   extractAudioTracks: (videoPath: string, outputDir: string) =>
     ipcRenderer.invoke('extract-audio-tracks', videoPath, outputDir),
   getCachedExtractedAudio: (videoPath: string, forceRefresh?: boolean) =>
     ipcRenderer.invoke('get-cached-extracted-audio', videoPath, forceRefresh),
+
+  // Subtitles
+  getSubtitleCues: (videoPath: string, source: { streamIndex?: number; filePath?: string }) =>
+    ipcRenderer.invoke('get-subtitle-cues', videoPath, source),
+
+  // Transcription
+  getTranscriptionSettings: () => ipcRenderer.invoke('get-transcription-settings'),
+  setTranscriptionSettings: (settings: any) =>
+    ipcRenderer.invoke('set-transcription-settings', settings),
+  selectTranscriberFile: (kind: 'binary' | 'model') =>
+    ipcRenderer.invoke('select-transcriber-file', kind),
+  transcribeClip: (videoPath: string, contentHash: string, trackIndex: number) =>
+    ipcRenderer.invoke('transcribe-clip', videoPath, contentHash, trackIndex),
+  cancelTranscription: (contentHash: string, trackIndex: number) =>
+    ipcRenderer.invoke('cancel-transcription', contentHash, trackIndex),
+  getTranscripts: (contentHash: string) => ipcRenderer.invoke('get-transcripts', contentHash),
+  deleteTranscript: (contentHash: string, trackIndex: number) =>
+    ipcRenderer.invoke('delete-transcript', contentHash, trackIndex),
+  exportTranscriptSrt: (contentHash: string, trackIndex: number, outputPath: string) =>
+    ipcRenderer.invoke('export-transcript-srt', contentHash, trackIndex, outputPath),
   readFileBuffer: (filePath: string) => ipcRenderer.invoke('read-file-buffer', filePath),
   readFileAsDataUrl: (filePath: string) => ipcRenderer.invoke('read-file-as-data-url', filePath),
 
@@ -92,7 +163,7 @@ contextBridge.exposeInMainWorld('api', {
 
   // Event listeners
   on: (channel: string, func: (payload: any) => void) => {
-    const validChannels = ['file-added', 'file-removed', 'export-progress'];
+    const validChannels = ['file-added', 'file-removed', 'export-progress', 'export-queue-updated', 'transcription-progress'];
     if (!validChannels.includes(channel)) return () => {};
 
     const subscription = (_event: any, ...args: any[]) => {
@@ -0,0 +1,505 @@
+import React, { useState, useEffect } from "react";
+import {
+  ExportJob,
+  ExportJobStatus,
+  ExportPreset,
+  VideoFileWithMetadata,
+} from "../types";
+import { getSavedClipRange, getSavedClipSpeed } from "../utils/clipRange";
+import { describePreset } from "../utils/exportPresets";
+import "../styles/ExportQueue.css";
+import "../styles/BatchExportDialog.css";
+
+const api = window.api;
+const path = window.path;
+const fs = window.fs;
+
+interface BatchExportDialogProps {
+  videos: VideoFileWithMetadata[];
+  defaultOutputDir: string | null;
+  onClose: () => void;
+}
+
+type SizeOption = "original" | "10mb" | "25mb" | "50mb" | "100mb";
+type AudioMode = "combine" | "separate";
+type OutputType = "video" | "mp3";
+
+interface BatchItem {
+  video: VideoFileWithMetadata;
+  outputPath: string;
+  jobId?: string;
+  status: ExportJobStatus;
+  progress: number;
+  error?: string | null;
+}
+
+const sizeOptions: { value: SizeOption; label: string; sizeMB?: number }[] = [
+  { value: "original", label: "Original" },
+  { value: "10mb", label: "10 MB", sizeMB: 10 },
+  { value: "25mb", label: "25 MB", sizeMB: 25 },
+  { value: "50mb", label: "50 MB", sizeMB: 50 },
+  { value: "100mb", label: "100 MB", sizeMB: 100 },
+];
+
+const DEFAULT_TEMPLATE = "{name}_{size}";
+
+const isFinished = (status: ExportJobStatus) =>
+  status === "done" || status === "failed" || status === "canceled";
+
+// Fill in {name}, {index}, {date} and {size}, stripping characters Windows rejects
+const renderFileName = (
+  template: string,
+  video: VideoFileWithMetadata,
+  index: number,
+  sizeLabel: string
+): string => {
+  const modified = new Date(video.modified);
+  const date = isNaN(modified.getTime())
+    ? ""
+    : modified.toISOString().slice(0, 10);
+  const name = (template.trim() || DEFAULT_TEMPLATE)
+    .replace(/\{name\}/g, path.basename(video.name, path.extname(video.name)))
+    .replace(/\{index\}/g, String(index + 1).padStart(2, "0"))
+    .replace(/\{date\}/g, date)
+    .replace(/\{size\}/g, sizeLabel);
+  return name.replace(/[\\/:*?"<>|]/g, "-").trim() || `clip_${index + 1}`;
+};
+
+const BatchExportDialog: React.FC<BatchExportDialogProps> = ({
+  videos,
+  defaultOutputDir,
+  onClose,
+}) => {
+  // Start from the same choices the single-clip export panel remembers
+  const [selectedSize, setSelectedSize] = useState<SizeOption>(
+    () =>
+      (localStorage.getItem("export.selectedSize") as SizeOption) || "original"
+  );
+  const [audioMode, setAudioMode] = useState<AudioMode>(
+    () => (localStorage.getItem("export.audioMode") as AudioMode) || "combine"
+  );
+  const [outputType, setOutputType] = useState<OutputType>("video");
+  const [videoFormat, setVideoFormat] = useState(
+    () => localStorage.getItem("export.videoFormat") || "mp4"
+  );
+  const [audioFormat, setAudioFormat] = useState(
+    () => localStorage.getItem("export.audioFormat") || "mp3"
+  );
+  const [outputDir, setOutputDir] = useState<string | null>(
+    () => localStorage.getItem("batchExport.outputDir") || defaultOutputDir
+  );
+  const [template, setTemplate] = useState(
+    () => localStorage.getItem("batchExport.template") || DEFAULT_TEMPLATE
+  );
+  const [presets, setPresets] = useState<ExportPreset[]>([]);
+  const [presetId, setPresetId] = useState<number | null>(
+    () => Number(localStorage.getItem("export.presetId")) || null
+  );
+  const [items, setItems] = useState<BatchItem[] | null>(null);
+
+  const activePreset =
+    outputType === "video"
+      ? presets.find((preset) => preset.id === presetId) || null
+      : null;
+  const outputExt =
+    outputType === "mp3"
+      ? audioFormat
+      : activePreset
+      ? activePreset.settings.container
+      : videoFormat;
+  const sizeLabel = activePreset
+    ? activePreset.name
+    : sizeOptions.find((opt) => opt.value === selectedSize)?.label || "";
+
+  useEffect(() => {
+    api.getExportPresets().then(setPresets).catch(() => {});
+  }, []);
+
+  // Follow queue updates for the jobs this batch created
+  useEffect(() => {
+    if (!items) return;
+
+    const applyJobs = (jobs: ExportJob[]) => {
+      setItems((prev) =>
+        prev
+          ? prev.map((item) => {
+              const job = jobs.find((j) => j.id === item.jobId);
+              return job
+                ? {
+                    ...item,
+                    status: job.status,
+                    progress: job.progress,
+                    error: job.error,
+                  }
+                : item;
+            })
+          : prev
+      );
+    };
+
+    const offQueue = api.on("export-queue-updated", (jobs: ExportJob[]) =>
+      applyJobs(jobs || [])
+    );
+    const offProgress = api.on("export-progress", (progress: any) => {
+      if (!progress?.jobId || typeof progress.percent !== "number") return;
+      setItems((prev) =>
+        prev
+          ? prev.map((item) =>
+              item.jobId === progress.jobId
+                ? { ...item, progress: Math.round(progress.percent) }
+                : item
+            )
+          : prev
+      );
+    });
+    // Catch anything that finished before we subscribed
+    api.getExportJobs().then(applyJobs).catch(() => {});
+
+    return () => {
+      if (offQueue) offQueue();
+      if (offProgress) offProgress();
+    };
+  }, [items !== null]);
+
+  const handleChooseFolder = async () => {
+    const folder = await api.selectFolder();
+    if (folder) setOutputDir(folder);
+  };
+
+  const handleStart = async () => {
+    if (!outputDir || videos.length === 0) return;
+
+    try {
+      localStorage.setItem("batchExport.outputDir", outputDir);
+      localStorage.setItem("batchExport.template", template);
+    } catch {}
+
+    const option = sizeOptions.find((opt) => opt.value === selectedSize);
+    const quality = selectedSize === "original" ? "full" : "compressed";
+    const targetSizeMB = outputType === "mp3" ? undefined : option?.sizeMB;
+    const ext = outputExt;
+
+    // Never overwrite: suffix " (2)", " (3)"... on collisions
+    const usedNames = new Set<string>();
+    const uniqueOutputPath = (baseName: string) => {
+      let candidate = `${baseName}.${ext}`;
+      for (
+        let n = 2;
+        usedNames.has(candidate.toLowerCase()) ||
+        fs.existsSync(path.join(outputDir, candidate));
+        n++
+      ) {
+        candidate = `${baseName} (${n}).${ext}`;
+      }
+      usedNames.add(candidate.toLowerCase());
+      return path.join(outputDir, candidate);
+    };
+
+    const planned: BatchItem[] = videos.map((video, index) => ({
+      video,
+      outputPath: uniqueOutputPath(
+        renderFileName(template, video, index, sizeLabel)
+      ),
+      status: "queued",
+      progress: 0,
+    }));
+    setItems(planned);
+
+    for (const item of planned) {
+      let update: Partial<BatchItem>;
+      try {
+        const range = await getSavedClipRange(item.video);
+        if (range.end <= range.start) {
+          throw new Error("Could not determine clip duration");
+        }
+        const job: ExportJob = await api.enqueueExport({
+          kind: "video",
+          label: item.video.name,
+          params: {
+            inputPath: item.video.path,
+            outputPath: item.outputPath,
+            startTime: range.start,
+            endTime: range.end,
+            quality,
+            audioTracks: item.video.edits?.audioTracks,
+            audioMix: item.video.edits?.audioMix,
+            transform: item.video.edits?.transform,
+            speed: getSavedClipSpeed(item.video.edits),
+            overlays: item.video.edits?.overlays,
+            subtitles: item.video.edits?.subtitles,
+            targetSizeMB,
+            audioMode,
+            outputType,
+            preset: activePreset?.settings,
+          },
+        });
+        update = { jobId: job.id };
+      } catch (error: any) {
+        update = { status: "failed", error: error?.message || String(error) };
+      }
+      setItems((prev) =>
+        prev
+          ? prev.map((i) =>
+              i.video.path === item.video.path ? { ...i, ...update } : i
+            )
+          : prev
+      );
+    }
+  };
+
+  const handleCancelAll = async () => {
+    if (!items) return;
+    for (const item of items) {
+      if (item.jobId && !isFinished(item.status)) {
+        await api.cancelExportJob(item.jobId);
+      }
+    }
+  };
+
+  const allFinished = !!items && items.every((item) => isFinished(item.status));
+  const doneCount = items?.filter((item) => item.status === "done").length ?? 0;
+  const failedItems =
+    items?.filter(
+      (item) => item.status === "failed" || item.status === "canceled"
+    ) ?? [];
+
+  return (
+    <div className="batch-export-overlay" onClick={onClose}>
+      <div className="batch-export-dialog" onClick={(e) => e.stopPropagation()}>
+        <button className="batch-export-close" onClick={onClose} title="Close">
+          ×
+        </button>
+        <h3>
+          Export {videos.length} clip{videos.length === 1 ? "" : "s"}
+        </h3>
+
+        {!items ? (
+          <>
+            <p className="batch-export-hint">
+              Each clip is exported with its saved trim and audio track
+              volumes.
+            </p>
+
+            <div className="batch-export-field">
+              <label>Output</label>
+              <div className="batch-export-row">
+                <select
+                  value={outputType}
+                  onChange={(e) => setOutputType(e.target.value as OutputType)}
+                >
+                  <option value="video">Video</option>
+                  <option value="mp3">Audio only</option>
+                </select>
+                {outputType === "video" ? (
+                  <select
+                    value={outputExt}
+                    disabled={!!activePreset}
+                    onChange={(e) => setVideoFormat(e.target.value)}
+                  >
+                    {(activePreset
+                      ? [outputExt]
+                      : ["mp4", "mov", "avi", "mkv"]
+                    ).map((fmt) => (
+                      <option key={fmt} value={fmt}>
+                        {fmt.toUpperCase()}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <select
+                    value={audioFormat}
+                    onChange={(e) => setAudioFormat(e.target.value)}
+                  >
+                    {["mp3", "wav", "aac"].map((fmt) => (
+                      <option key={fmt} value={fmt}>
+                        {fmt.toUpperCase()}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+
+            {outputType === "video" && presets.length > 0 && (
+              <div className="batch-export-field">
+                <label>Preset</label>
+                <select
+                  value={presetId ?? ""}
+                  onChange={(e) =>
+                    setPresetId(e.target.value ? Number(e.target.value) : null)
+                  }
+                >
+                  <option value="">No preset</option>
+                  {presets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </select>
+                {activePreset && (
+                  <span className="batch-export-hint">
+                    {describePreset(activePreset.settings)}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {outputType === "video" && !activePreset && (
+              <>
+                <div className="batch-export-field">
+                  <label>File size</label>
+                  <select
+                    value={selectedSize}
+                    onChange={(e) =>
+                      setSelectedSize(e.target.value as SizeOption)
+                    }
+                  >
+                    {sizeOptions.map((opt) => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="batch-export-field">
+                  <label>Audio tracks</label>
+                  <select
+                    value={audioMode}
+                    onChange={(e) => setAudioMode(e.target.value as AudioMode)}
+                  >
+                    <option value="combine">Combine audio tracks</option>
+                    <option value="separate">Keep tracks separate</option>
+                  </select>
+                </div>
+              </>
+            )}
+
+            <div className="batch-export-field">
+              <label>Folder</label>
+              <div className="batch-export-row">
+                <span className="batch-export-folder" title={outputDir || ""}>
+                  {outputDir || "No folder selected"}
+                </span>
+                <button className="btn" onClick={handleChooseFolder}>
+                  Choose...
+                </button>
+              </div>
+            </div>
+
+            <div className="batch-export-field">
+              <label>File name</label>
+              <input
+                type="text"
+                value={template}
+                onChange={(e) => setTemplate(e.target.value)}
+                placeholder={DEFAULT_TEMPLATE}
+              />
+              <span className="batch-export-hint">
+                {"{name}"} clip name, {"{index}"} position, {"{date}"} file
+                date, {"{size}"} size preset
+                {videos[0] &&
+                  ` • e.g. ${renderFileName(
+                    template,
+                    videos[0],
+                    0,
+                    sizeLabel
+                  )}.${outputExt}`}
+              </span>
+            </div>
+
+            <button
+              className="btn batch-export-start"
+              onClick={handleStart}
+              disabled={!outputDir}
+              data-glow
+            >
+              Export {videos.length} clip{videos.length === 1 ? "" : "s"}
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="batch-export-items">
+              {items.map((item) => (
+                <div
+                  key={item.video.path}
+                  className={`batch-export-item ${item.status}`}
+                >
+                  <div className="batch-export-item-info">
+                    <span className="batch-export-item-name">
+                      {item.video.name}
+                    </span>
+                    <span
+                      className="batch-export-item-detail"
+                      title={item.error || item.outputPath}
+                    >
+                      {item.status === "failed" && item.error
+                        ? item.error
+                        : path.basename(item.outputPath)}
+                    </span>
+                    {item.status === "running" && (
+                      <div className="export-job-progress">
+                        <div
+                          className="export-job-progress-fill"
+                          style={{ width: `${item.progress}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <span className="batch-export-item-status">
+                    {item.status === "running"
+                      ? `${item.progress}%`
+                      : item.status === "done"
+                      ? "Done"
+                      : item.status === "failed"
+                      ? "Failed"
+                      : item.status === "canceled"
+                      ? "Canceled"
+                      : "Queued"}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {allFinished ? (
+              <div className="batch-export-summary">
+                <p>
+                  Exported {doneCount} of {items.length} clip
+                  {items.length === 1 ? "" : "s"}
+                  {failedItems.length > 0 &&
+                    ` • ${failedItems.length} did not finish`}
+                </p>
+                {failedItems.length > 0 && (
+                  <ul>
+                    {failedItems.map((item) => (
+                      <li key={item.video.path}>
+                        <strong>{item.video.name}</strong>:{" "}
+                        {item.status === "canceled"
+                          ? "Canceled"
+                          : item.error || "Unknown error"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <button className="btn batch-export-start" onClick={onClose}>
+                  Close
+                </button>
+              </div>
+            ) : (
+              <div className="batch-export-footer">
+                <span className="batch-export-hint">
+                  Closing keeps the exports running in the queue.
+                </span>
+                <button className="btn" onClick={handleCancelAll}>
+                  Cancel all
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchExportDialog;
@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import { Collection } from "../types";
+import "../styles/CollectionsSidebar.css";
+
+interface CollectionsSidebarProps {
+  collections: Collection[];
+  // Clips in the library, for "All clips"
+  totalCount: number;
+  activeId: number | null;
+  onSelect: (id: number | null) => void;
+  // The current search, offered as the query of a new collection
+  currentQuery: string;
+  onSave: (data: { id?: number; name: string; query: string }) => Promise<void>;
+  onDelete: (collection: Collection) => void;
+}
+
+interface CollectionDraft {
+  id?: number;
+  name: string;
+  query: string;
+}
+
+const CollectionsSidebar: React.FC<CollectionsSidebarProps> = ({
+  collections,
+  totalCount,
+  activeId,
+  onSelect,
+  currentQuery,
+  onSave,
+  onDelete,
+}) => {
+  const [draft, setDraft] = useState<CollectionDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (next: CollectionDraft) => {
+    setDraft(next);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      setDraft(null);
+    } catch (err: any) {
+      // Strip Electron's "Error invoking remote method ..." prefix
+      const message = String(err?.message || err).replace(/^.*Error: /, "");
+      setError(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") handleSave();
+    if (e.key === "Escape") setDraft(null);
+  };
+
+  const renderForm = () =>
+    draft && (
+      <div className="collection-form">
+        <input
+          type="text"
+          placeholder="Name"
+          value={draft.name}
+          autoFocus
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          onKeyDown={handleKeyDown}
+        />
+        <input
+          type="text"
+          className="collection-query-input"
+          placeholder="e.g. edited:<7d duration:>1m folder:Valorant"
+          value={draft.query}
+          onChange={(e) => setDraft({ ...draft, query: e.target.value })}
+          onKeyDown={handleKeyDown}
+        />
+        {error && <p className="collection-form-error">{error}</p>}
+        <div className="collection-form-actions">
+          <button type="button" onClick={() => setDraft(null)}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="primary"
+            onClick={handleSave}
+            disabled={isSaving || !draft.name.trim()}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    );
+
+  return (
+    <aside className="collections-sidebar">
+      <div className="collections-header">
+        <h3>COLLECTIONS</h3>
+        <button
+          type="button"
+          className="collection-add-btn"
+          onClick={() => startEditing({ name: "", query: currentQuery })}
+          title="Save the current search as a collection"
+        >
+          +
+        </button>
+      </div>
+
+      {draft && draft.id === undefined && renderForm()}
+
+      <div className="collection-list">
+        <button
+          type="button"
+          className={`collection-item ${activeId === null ? "active" : ""}`}
+          onClick={() => onSelect(null)}
+        >
+          <span className="collection-name">All clips</span>
+          <span className="collection-count">{totalCount}</span>
+        </button>
+
+        {collections.map((collection) =>
+          draft?.id === collection.id ? (
+            <React.Fragment key={collection.id}>{renderForm()}</React.Fragment>
+          ) : (
+            <div
+              key={collection.id}
+              className={`collection-item ${
+                activeId === collection.id ? "active" : ""
+              }`}
+              onClick={() => onSelect(collection.id)}
+              title={collection.query || "All clips"}
+            >
+              <span className="collection-name">{collection.name}</span>
+              <span className="collection-count">{collection.count}</span>
+              <button
+                type="button"
+                className="collection-action"
+                title="Edit"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  startEditing({
+                    id: collection.id,
+                    name: collection.name,
+                    query: collection.query,
+                  });
+                }}
+              >
+                ✎
+              </button>
+              <button
+                type="button"
+                className="collection-action"
+                title="Delete collection"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(collection);
+                }}
+              >
+                ×
+              </button>
+            </div>
+          )
+        )}
+      </div>
+
+      {collections.length === 0 && !draft && (
+        <p className="collections-empty">
+          Search, then press + to keep it here as a collection.
+        </p>
+      )}
+    </aside>
+  );
+};
+
+export default CollectionsSidebar;
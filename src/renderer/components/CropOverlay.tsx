@@ -0,0 +1,114 @@
+import React, { useRef } from "react";
+import { CropRect } from "../types";
+import { CropHandle, moveCrop, resizeCrop } from "../utils/crop";
+import "../styles/CropOverlay.css";
+
+const HANDLES: CropHandle[] = ["nw", "ne", "sw", "se"];
+
+interface CropOverlayProps {
+  crop: CropRect;
+  // Pixel width/height to hold the crop to, null for a free crop
+  aspect: number | null;
+  // Size of the rotated frame, so aspects hold in pixels rather than fractions
+  frameWidth: number;
+  frameHeight: number;
+  // Without editing, only the area outside the crop is shaded
+  isEditing: boolean;
+  onChange?: (crop: CropRect) => void;
+}
+
+interface CropDrag {
+  mode: "move" | CropHandle;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+const CropOverlay: React.FC<CropOverlayProps> = ({
+  crop,
+  aspect,
+  frameWidth,
+  frameHeight,
+  isEditing,
+  onChange,
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<CropDrag | null>(null);
+
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    mode: CropDrag["mode"]
+  ) => {
+    if (!isEditing) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      startCrop: crop,
+    };
+  };
+
+  // Handles capture the pointer; their moves bubble up to the crop rectangle
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const overlay = overlayRef.current;
+    if (!drag || !overlay || !onChange) return;
+
+    const rect = overlay.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    onChange(
+      drag.mode === "move"
+        ? moveCrop(drag.startCrop, dx, dy)
+        : resizeCrop(drag.startCrop, drag.mode, dx, dy, aspect, {
+            width: frameWidth,
+            height: frameHeight,
+          })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`crop-overlay ${isEditing ? "editing" : ""}`}
+    >
+      <div
+        className="crop-rect"
+        style={{
+          left: `${crop.x * 100}%`,
+          top: `${crop.y * 100}%`,
+          width: `${crop.width * 100}%`,
+          height: `${crop.height * 100}%`,
+        }}
+        onPointerDown={(e) => handlePointerDown(e, "move")}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {isEditing && (
+          <>
+            <div className="crop-grid" />
+            {HANDLES.map((handle) => (
+              <div
+                key={handle}
+                className={`crop-handle crop-handle-${handle}`}
+                onPointerDown={(e) => handlePointerDown(e, handle)}
+              />
+            ))}
+            <span className="crop-size">
+              {Math.round(crop.width * frameWidth)} ×{" "}
+              {Math.round(crop.height * frameHeight)}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CropOverlay;
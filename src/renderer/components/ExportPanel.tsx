@@ -1,6 +1,17 @@
 import React, { useState, useEffect, useRef } from "react";
-import { AudioTrack } from "../types";
+import {
+  AudioMixEdit,
+  AudioTrack,
+  ClipSegment,
+  ExportPreset,
+  ScaleChoice,
+  TransformEdit,
+  TextOverlay,
+  SubtitleEdit,
+} from "../types";
 import { useGlowEffect } from "../hooks/useGlowEffect";
+import { describePreset } from "../utils/exportPresets";
+import ExportPresetEditor from "./ExportPresetEditor";
 import "../styles/ExportPanel.css";
 
 const api = window.api;
@@ -13,6 +24,17 @@ interface ExportPanelProps {
   trimStart: number;
   trimEnd: number;
   audioTracks: AudioTrack[];
+  audioMix?: AudioMixEdit;
+  // Crop and rotation; exports re-encode when present
+  transform?: TransformEdit;
+  // Export speed of the clip; segments may set their own
+  speed?: number;
+  // Burned into the frame; exports re-encode when present
+  overlays?: TextOverlay[];
+  // Subtitle track for single-range exports (reels leave it out)
+  subtitles?: SubtitleEdit;
+  segments?: ClipSegment[];
+  activeSegment?: ClipSegment | null;
   onClose: () => void;
 }
 
@@ -24,6 +46,13 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
   trimStart,
   trimEnd,
   audioTracks,
+  audioMix,
+  transform,
+  speed = 1,
+  overlays,
+  subtitles,
+  segments = [],
+  activeSegment = null,
   onClose,
 }) => {
   // Initialize glow effect system
@@ -50,19 +79,88 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
 
   type AudioMode = "combine" | "separate";
   const [audioMode, setAudioMode] = useState<AudioMode>("combine");
-  type OutputType = "video" | "mp3";
+  type OutputType = "video" | "mp3" | "gif" | "webp";
   const [outputType, setOutputType] = useState<OutputType>("video");
+  const isAnimation = outputType === "gif" || outputType === "webp";
+  // "reel" stitches every segment into one file instead of exporting the active range
+  type ExportScope = "segment" | "reel";
+  const [exportScope, setExportScope] = useState<ExportScope>("segment");
+  const isReel = exportScope === "reel" && segments.length > 1;
 
   // Format dropdowns
   type VideoFormat = "mp4" | "mov" | "avi" | "mkv";
   type AudioFormat = "mp3" | "wav" | "aac";
   const [videoFormat, setVideoFormat] = useState<VideoFormat>("mp4");
   const [audioFormat, setAudioFormat] = useState<AudioFormat>("mp3");
+  type AnimationFormat = "gif" | "webp";
+  const [animationFormat, setAnimationFormat] = useState<AnimationFormat>(
+    () =>
+      (localStorage.getItem("export.animationFormat") as AnimationFormat) ||
+      "gif"
+  );
+  const [isAnimationFormatOpen, setIsAnimationFormatOpen] = useState(false);
+  const animationFormatRef = useRef<HTMLDivElement>(null);
+
+  // GIF/WebP settings; width 0 keeps the source width
+  const [animationFps, setAnimationFps] = useState(
+    () => Number(localStorage.getItem("export.animationFps")) || 15
+  );
+  const [animationWidth, setAnimationWidth] = useState(() => {
+    const saved = localStorage.getItem("export.animationWidth");
+    return saved === null ? 480 : Number(saved) || 0;
+  });
+  const [animationLoop, setAnimationLoop] = useState(
+    () => localStorage.getItem("export.animationLoop") !== "false"
+  );
+
+  // Output size/rate for compressed exports; "auto" lets the encoder fit the budget
+  const [resolution, setResolution] = useState<string>(
+    () => localStorage.getItem("export.resolution") || "auto"
+  );
+  const [frameRate, setFrameRate] = useState<string>(
+    () => localStorage.getItem("export.frameRate") || "auto"
+  );
+  // Two-pass lands much closer to the target size at roughly twice the encode time
+  const [twoPass, setTwoPass] = useState(
+    () => localStorage.getItem("export.twoPass") !== "false"
+  );
+  const toScaleChoice = (value: string): ScaleChoice =>
+    value === "auto" || value === "source" ? value : Number(value);
   const [isVideoFormatOpen, setIsVideoFormatOpen] = useState(false);
   const [isAudioFormatOpen, setIsAudioFormatOpen] = useState(false);
   const videoFormatRef = useRef<HTMLDivElement>(null);
   const audioFormatRef = useRef<HTMLDivElement>(null);
 
+  // User-defined presets replace the size/format/audio choices for video output
+  const [presets, setPresets] = useState<ExportPreset[]>([]);
+  const [presetsLoaded, setPresetsLoaded] = useState(false);
+  const [selectedPresetId, setSelectedPresetId] = useState<number | null>(
+    () => Number(localStorage.getItem("export.presetId")) || null
+  );
+  const [isPresetMenuOpen, setIsPresetMenuOpen] = useState(false);
+  // { preset: null } opens the editor for a new preset
+  const [presetEditor, setPresetEditor] = useState<{
+    preset: ExportPreset | null;
+  } | null>(null);
+  const presetMenuRef = useRef<HTMLDivElement>(null);
+  const activePreset =
+    presets.find((preset) => preset.id === selectedPresetId) || null;
+  const presetSettings =
+    outputType === "video" && activePreset ? activePreset.settings : undefined;
+  // Stitching segments always re-encodes, so say what a copy preset turns into
+  const presetSummary = !activePreset
+    ? ""
+    : outputType === "mp3"
+    ? "Presets apply to video exports"
+    : isReel && activePreset.settings.videoCodec === "copy"
+    ? `Reels can't copy video; encoded as ${
+        activePreset.settings.container === "webm" ? "VP9" : "H.264"
+      } instead`
+    : describePreset(activePreset.settings);
+  const presetKey = activePreset
+    ? `${activePreset.id}:${JSON.stringify(activePreset.settings)}`
+    : "";
+
   const sizeOptions: { value: SizeOption; label: string; sizeMB?: number }[] = [
     { value: "original", label: "Original" },
     { value: "10mb", label: "10 MB", sizeMB: 10 },
@@ -78,6 +176,37 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     { value: "mkv", label: "MKV" },
   ];
 
+  const resolutionOptions = [
+    { value: "auto", label: "Auto" },
+    { value: "source", label: "Source" },
+    { value: "1080", label: "1080p" },
+    { value: "720", label: "720p" },
+    { value: "480", label: "480p" },
+    { value: "360", label: "360p" },
+  ];
+
+  const frameRateOptions = [
+    { value: "auto", label: "Auto" },
+    { value: "source", label: "Source" },
+    { value: "60", label: "60 fps" },
+    { value: "30", label: "30 fps" },
+    { value: "24", label: "24 fps" },
+  ];
+
+  const animationFormats: Array<{ value: AnimationFormat; label: string }> = [
+    { value: "gif", label: "GIF" },
+    { value: "webp", label: "WebP" },
+  ];
+
+  const animationFpsOptions = [10, 15, 20, 24, 30];
+  const animationWidthOptions = [
+    { value: 320, label: "320 px" },
+    { value: 480, label: "480 px" },
+    { value: 640, label: "640 px" },
+    { value: 800, label: "800 px" },
+    { value: 0, label: "Source" },
+  ];
+
   const audioFormats: Array<{ value: AudioFormat; label: string }> = [
     { value: "mp3", label: "MP3" },
     { value: "wav", label: "WAV" },
@@ -99,11 +228,25 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
       ) {
         setIsAudioFormatOpen(false);
       }
+      if (
+        animationFormatRef.current &&
+        !animationFormatRef.current.contains(e.target as Node)
+      ) {
+        setIsAnimationFormatOpen(false);
+      }
+      if (
+        presetMenuRef.current &&
+        !presetMenuRef.current.contains(e.target as Node)
+      ) {
+        setIsPresetMenuOpen(false);
+      }
     };
     const onKey = (e: KeyboardEvent) => {
       if (e.key === "Escape") {
         setIsVideoFormatOpen(false);
         setIsAudioFormatOpen(false);
+        setIsAnimationFormatOpen(false);
+        setIsPresetMenuOpen(false);
       }
     };
     document.addEventListener("mousedown", onDocClick);
@@ -163,35 +306,46 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
   }, []);
 
   useEffect(() => {
-    handleExport();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    api
+      .getExportPresets()
+      .then(setPresets)
+      .catch(() => {})
+      .finally(() => setPresetsLoaded(true));
   }, []);
 
+  // Start the first export once the saved preset (if any) is known
+  useEffect(() => {
+    if (presetsLoaded) handleExport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [presetsLoaded]);
+
+  // Cancel the running export (if any) and start over with the changed options
+  const restartExport = async (status: string) => {
+    if (!isProcessing) {
+      handleExport();
+      return;
+    }
+    setExportStatus(status);
+    // Proactively set processing state to avoid UI flashing processed view
+    setHasProcessed(false);
+    setProcessedVideoPath(null);
+    setThumbnailPath(null);
+    setExportProgress(0);
+    setIsProcessing(true);
+    try {
+      await api.cancelExport(exportTokenRef.current);
+    } catch {}
+    setTimeout(() => {
+      handleExport();
+    }, 50);
+  };
+
   // If size changes, cancel current job (if any) and reprocess with new option
   useEffect(() => {
     const isMp3 = outputType === "mp3";
     if (isMp3) return; // size does not affect MP3 export
     if (!hasStartedProcessing) return;
-    const restartForNewSize = async () => {
-      if (isProcessing) {
-        setExportStatus("Updating size...");
-        // Proactively set processing state to avoid UI flashing processed view
-        setHasProcessed(false);
-        setProcessedVideoPath(null);
-        setThumbnailPath(null);
-        setExportProgress(0);
-        setIsProcessing(true);
-        try {
-          await api.cancelExport();
-        } catch {}
-        setTimeout(() => {
-          handleExport();
-        }, 50);
-      } else {
-        handleExport();
-      }
-    };
-    restartForNewSize();
+    restartExport("Updating size...");
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedSize]);
 
@@ -204,28 +358,9 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
 
   // Restart when audio mode changes
   useEffect(() => {
-    const isMp3 = outputType === "mp3";
-    if (isMp3) return; // audio mode UI does not affect MP3 export
+    if (outputType !== "video") return; // audio mode only shapes video export
     if (!hasStartedProcessing) return;
-    const restart = async () => {
-      if (isProcessing) {
-        setExportStatus("Updating audio...");
-        setHasProcessed(false);
-        setProcessedVideoPath(null);
-        setThumbnailPath(null);
-        setExportProgress(0);
-        setIsProcessing(true);
-        try {
-          await api.cancelExport();
-        } catch {}
-        setTimeout(() => {
-          handleExport();
-        }, 50);
-      } else {
-        handleExport();
-      }
-    };
-    restart();
+    restartExport("Updating audio...");
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [audioMode]);
 
@@ -249,28 +384,71 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     } catch {}
   }, [audioFormat]);
 
-  // Restart when output type changes
+  // Restart when GIF/WebP settings change
   useEffect(() => {
+    if (!isAnimation) return;
     if (!hasStartedProcessing) return;
-    const restart = async () => {
-      if (isProcessing) {
-        setExportStatus("Updating format...");
-        setHasProcessed(false);
-        setProcessedVideoPath(null);
-        setThumbnailPath(null);
-        setExportProgress(0);
-        setIsProcessing(true);
-        try {
-          await api.cancelExport();
-        } catch {}
-        setTimeout(() => {
-          handleExport();
-        }, 50);
+    restartExport("Updating animation...");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [animationFps, animationWidth, animationLoop]);
+
+  // Persist GIF/WebP settings
+  useEffect(() => {
+    try {
+      localStorage.setItem("export.animationFormat", animationFormat);
+      localStorage.setItem("export.animationFps", String(animationFps));
+      localStorage.setItem("export.animationWidth", String(animationWidth));
+      localStorage.setItem("export.animationLoop", String(animationLoop));
+    } catch {}
+  }, [animationFormat, animationFps, animationWidth, animationLoop]);
+
+  // Restart when the compressed output size or frame rate is overridden
+  useEffect(() => {
+    if (outputType !== "video" || selectedSize === "original") return;
+    if (!hasStartedProcessing) return;
+    restartExport("Updating resolution...");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resolution, frameRate, twoPass]);
+
+  // Persist resolution/frame rate overrides and the two-pass choice
+  useEffect(() => {
+    try {
+      localStorage.setItem("export.resolution", resolution);
+      localStorage.setItem("export.frameRate", frameRate);
+      localStorage.setItem("export.twoPass", String(twoPass));
+    } catch {}
+  }, [resolution, frameRate, twoPass]);
+
+  // Restart when a different preset is picked or the active one is edited
+  useEffect(() => {
+    if (outputType !== "video") return; // presets only shape video exports
+    if (!hasStartedProcessing) return;
+    restartExport("Updating preset...");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [presetKey]);
+
+  // Persist preset selection
+  useEffect(() => {
+    try {
+      if (selectedPresetId) {
+        localStorage.setItem("export.presetId", String(selectedPresetId));
       } else {
-        handleExport();
+        localStorage.removeItem("export.presetId");
       }
-    };
-    restart();
+    } catch {}
+  }, [selectedPresetId]);
+
+  // Restart when switching between the active range and a highlight reel
+  useEffect(() => {
+    if (!hasStartedProcessing) return;
+    restartExport("Updating segments...");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [exportScope]);
+
+  // Restart when output type changes
+  useEffect(() => {
+    if (!hasStartedProcessing) return;
+    restartExport("Updating format...");
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [outputType]);
 
@@ -375,7 +553,11 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     setHasProcessed(false);
     setExportProgress(0);
     setExportStatus(
-      outputType === "mp3" ? "Processing audio..." : "Processing video..."
+      outputType === "mp3"
+        ? "Processing audio..."
+        : isAnimation
+        ? "Processing animation..."
+        : "Processing video..."
     );
     setThumbnailPath(null);
     setProcessedVideoPath(null);
@@ -393,8 +575,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
       const os = window.os;
       const tempDir = os.tmpdir();
       const timestamp = Date.now();
-      const outputExt =
-        outputType === "mp3" ? `.${audioFormat}` : `.${videoFormat}`;
+      const outputExt = `.${getOutputExtension()}`;
       const outputFileName = `export_${timestamp}${outputExt}`;
       const outputPath = path.join(tempDir, outputFileName);
 
@@ -406,19 +587,58 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
       const targetSizeMB =
         outputType === "mp3" ? undefined : selectedOption?.sizeMB;
 
-      // Export the video
-      const result = await api.exportVideo(
-        videoPath,
-        outputPath,
-        trimStart,
-        trimEnd,
-        quality,
-        audioTracks,
-        targetSizeMB,
-        token,
-        audioMode,
-        outputType
-      );
+      // Export the video (or every segment stitched together)
+      const result = isReel
+        ? await api.exportReel({
+            outputPath,
+            items: segments.map((segment) => ({
+              inputPath: videoPath,
+              startTime: segment.start,
+              endTime: segment.end,
+              audioTracks,
+              audioMix,
+              transform,
+              speed: segment.speed ?? speed,
+              overlays,
+            })),
+            quality,
+            targetSizeMB,
+            jobId: token,
+            // Animations are single-range only; the reel toggle is disabled for them
+            outputType: outputType === "mp3" ? "mp3" : "video",
+            preset: presetSettings,
+            resolution: toScaleChoice(resolution),
+            frameRate: toScaleChoice(frameRate),
+            twoPass,
+          })
+        : await api.exportVideo(
+            videoPath,
+            outputPath,
+            trimStart,
+            trimEnd,
+            quality,
+            audioTracks,
+            targetSizeMB,
+            token,
+            audioMode,
+            outputType,
+            {
+              audioMix,
+              transform,
+              speed: activeSegment?.speed ?? speed,
+              overlays,
+              subtitles,
+              preset: presetSettings,
+              resolution: toScaleChoice(resolution),
+              frameRate: toScaleChoice(frameRate),
+              twoPass,
+              animation: {
+                fps: animationFps,
+                width: animationWidth,
+                loop: animationLoop,
+              },
+            }
+          );
       if (
         result &&
         typeof result === "object" &&
@@ -427,13 +647,19 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
         throw new Error("canceled");
       }
 
-      // Generate preview image: waveform for MP3, thumbnail for video
+      // Generate preview image: waveform for MP3, the animation itself for GIF/WebP,
+      // thumbnail for video
+      const previewRange = isReel
+        ? segments[0]
+        : { start: trimStart, end: trimEnd };
       const thumb =
         outputType === "mp3"
           ? await generateWaveformImage(outputPath)
+          : isAnimation
+          ? outputPath
           : await generateThumbnail(
               videoPath,
-              trimStart + (trimEnd - trimStart) / 2
+              previewRange.start + (previewRange.end - previewRange.start) / 2
             );
 
       if (token === exportTokenRef.current) {
@@ -443,7 +669,13 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
           const stat = fs.statSync(outputPath);
           setProcessedSizeBytes(stat.size);
         } catch {}
-        setExportStatus(outputType === "mp3" ? "Audio ready!" : "Video ready!");
+        setExportStatus(
+          outputType === "mp3"
+            ? "Audio ready!"
+            : isAnimation
+            ? "Animation ready!"
+            : "Video ready!"
+        );
         setExportProgress(100);
         setHasProcessed(true);
         setIsProcessing(false);
@@ -468,30 +700,53 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     }
   };
 
+  const getOutputExtension = (): string =>
+    outputType === "mp3"
+      ? audioFormat
+      : isAnimation
+      ? outputType
+      : presetSettings
+      ? presetSettings.container
+      : videoFormat;
+
+  // Build a file name like "match_Clutch round_25 MB.mp4"; the label names a segment or reel
+  const getOutputFileName = (label: string | null): string => {
+    const selectedOption = sizeOptions.find(
+      (opt) => opt.value === selectedSize
+    );
+    const baseName = path.basename(videoName, path.extname(videoName));
+    const segmentPart = label
+      ? `_${label.replace(/[\\/:*?"<>|]/g, "-").trim()}`
+      : "";
+    const settingsPart =
+      presetSettings && activePreset
+        ? activePreset.name.replace(/[\\/:*?"<>|]/g, "-").trim()
+        : selectedOption?.label;
+    return `${baseName}${segmentPart}_${settingsPart}.${getOutputExtension()}`;
+  };
+
+  const getSaveFilters = () =>
+    outputType === "mp3"
+      ? [{ name: "Audio", extensions: [audioFormat] }]
+      : isAnimation
+      ? [{ name: "Animations", extensions: [outputType] }]
+      : [{ name: "Videos", extensions: [getOutputExtension()] }];
+
   const handleDownload = async () => {
     if (!processedVideoPath) return;
 
     try {
-      const selectedOption = sizeOptions.find(
-        (opt) => opt.value === selectedSize
-      );
       const defaultPath = path.join(
         path.dirname(videoPath),
-        outputType === "mp3"
-          ? `${path.basename(videoName, path.extname(videoName))}_${
-              selectedOption?.label
-            }.${audioFormat}`
-          : `${path.basename(videoName, path.extname(videoName))}_${
-              selectedOption?.label
-            }.${videoFormat}`
+        getOutputFileName(
+          isReel ? "Highlights" : activeSegment ? activeSegment.name : null
+        )
       );
 
-      const filters =
-        outputType === "mp3"
-          ? [{ name: "Audio", extensions: [audioFormat] }]
-          : [{ name: "Videos", extensions: [videoFormat] }];
-
-      const result = await api.selectSaveLocation(defaultPath, filters);
+      const result = await api.selectSaveLocation(
+        defaultPath,
+        getSaveFilters()
+      );
 
       if (!result.canceled && result.filePath) {
         // Copy the temporary file to the selected location
@@ -512,6 +767,192 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     }
   };
 
+  // Queue params for the current settings; `range` defaults to the active trim
+  const buildQueueJob = (
+    outputPath: string,
+    label: string,
+    range?: ClipSegment
+  ) => {
+    const selectedOption = sizeOptions.find(
+      (opt) => opt.value === selectedSize
+    );
+    const quality: "full" | "compressed" =
+      selectedSize === "original" ? "full" : "compressed";
+    const targetSizeMB =
+      outputType === "mp3" ? undefined : selectedOption?.sizeMB;
+
+    if (isReel && !range) {
+      return {
+        kind: "reel" as const,
+        label,
+        params: {
+          outputPath,
+          items: segments.map((segment) => ({
+            inputPath: videoPath,
+            startTime: segment.start,
+            endTime: segment.end,
+            audioTracks,
+            audioMix,
+            transform,
+            speed: segment.speed ?? speed,
+            overlays,
+          })),
+          quality,
+          targetSizeMB,
+          outputType: outputType === "mp3" ? "mp3" : "video",
+          preset: presetSettings,
+          resolution: toScaleChoice(resolution),
+          frameRate: toScaleChoice(frameRate),
+          twoPass,
+        },
+      };
+    }
+
+    return {
+      kind: "video" as const,
+      label,
+      params: {
+        inputPath: videoPath,
+        outputPath,
+        startTime: range ? range.start : trimStart,
+        endTime: range ? range.end : trimEnd,
+        quality,
+        audioTracks,
+        audioMix,
+        transform,
+        speed: (range ?? activeSegment)?.speed ?? speed,
+        overlays,
+        subtitles,
+        targetSizeMB,
+        audioMode,
+        outputType,
+        preset: presetSettings,
+        resolution: toScaleChoice(resolution),
+        frameRate: toScaleChoice(frameRate),
+        twoPass,
+        animation: {
+          fps: animationFps,
+          width: animationWidth,
+          loop: animationLoop,
+        },
+      },
+    };
+  };
+
+  // Queue the current export to a chosen file and keep working
+  const handleAddToQueue = async () => {
+    const outputLabel = isReel
+      ? "Highlights"
+      : activeSegment
+      ? activeSegment.name
+      : null;
+
+    try {
+      const result = await api.selectSaveLocation(
+        path.join(path.dirname(videoPath), getOutputFileName(outputLabel)),
+        getSaveFilters()
+      );
+      if (result.canceled || !result.filePath) return;
+
+      const baseName = path.basename(videoName, path.extname(videoName));
+      await api.enqueueExport(
+        buildQueueJob(
+          result.filePath,
+          outputLabel ? `${baseName} – ${outputLabel}` : baseName
+        )
+      );
+      setExportStatus("Added to export queue");
+    } catch (error: any) {
+      const errorMsg = error?.message || String(error);
+      setExportStatus(`Queueing failed: ${errorMsg.substring(0, 50)}...`);
+    }
+    setTimeout(() => {
+      setExportStatus("");
+    }, 3000);
+  };
+
+  // Queue one export per segment into a chosen folder
+  const handleExportAllSegments = async () => {
+    if (segments.length === 0) return;
+
+    const outputDir = await api.selectFolder();
+    if (!outputDir) return;
+
+    const baseName = path.basename(videoName, path.extname(videoName));
+    try {
+      for (const segment of segments) {
+        await api.enqueueExport(
+          buildQueueJob(
+            path.join(outputDir, getOutputFileName(segment.name)),
+            `${baseName} – ${segment.name}`,
+            segment
+          )
+        );
+      }
+      setExportStatus(`Queued ${segments.length} segments for export`);
+    } catch (error: any) {
+      const errorMsg = error?.message || String(error);
+      setExportStatus(`Queueing failed: ${errorMsg.substring(0, 50)}...`);
+    }
+    setTimeout(() => {
+      setExportStatus("");
+    }, 3000);
+  };
+
+  const handlePresetSaved = (saved: ExportPreset) => {
+    setPresets((prev) =>
+      [...prev.filter((preset) => preset.id !== saved.id), saved].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+    );
+    setSelectedPresetId(saved.id);
+    setPresetEditor(null);
+  };
+
+  const handlePresetDeleted = (id: number) => {
+    setPresets((prev) => prev.filter((preset) => preset.id !== id));
+    if (selectedPresetId === id) setSelectedPresetId(null);
+    setPresetEditor(null);
+  };
+
+  const handleImportPresets = async () => {
+    setIsPresetMenuOpen(false);
+    try {
+      const result = await api.importPresetsFromFile();
+      if (result.canceled) return;
+      setPresets(await api.getExportPresets());
+      setExportStatus(
+        `Imported ${result.count} preset${result.count === 1 ? "" : "s"}`
+      );
+    } catch (error: any) {
+      const errorMsg = String(error?.message || error).replace(
+        /^.*Error: /,
+        ""
+      );
+      setExportStatus(`Import failed: ${errorMsg.substring(0, 50)}`);
+    }
+    setTimeout(() => {
+      setExportStatus("");
+    }, 3000);
+  };
+
+  const handleExportPresets = async () => {
+    setIsPresetMenuOpen(false);
+    try {
+      const result = await api.exportPresetsToFile();
+      if (result.canceled) return;
+      setExportStatus(
+        `Saved ${result.count} preset${result.count === 1 ? "" : "s"}`
+      );
+    } catch (error: any) {
+      const errorMsg = error?.message || String(error);
+      setExportStatus(`Saving presets failed: ${errorMsg.substring(0, 50)}`);
+    }
+    setTimeout(() => {
+      setExportStatus("");
+    }, 3000);
+  };
+
   const handleMouseDown = async (e: React.MouseEvent) => {
     if (!processedVideoPath) return;
 
@@ -539,8 +980,14 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     e.preventDefault();
   };
 
+  // Length of the exported file, after speed changes
   const getTrimDuration = (): string => {
-    const duration = trimEnd - trimStart;
+    const duration = isReel
+      ? segments.reduce(
+          (sum, seg) => sum + (seg.end - seg.start) / (seg.speed ?? speed),
+          0
+        )
+      : (trimEnd - trimStart) / (activeSegment?.speed ?? speed);
     const mins = Math.floor(duration / 60);
     const secs = Math.floor(duration % 60);
     return `${mins}:${secs.toString().padStart(2, "0")}`;
@@ -600,6 +1047,168 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
 
   return (
     <div className="export-panel">
+      {segments.length > 1 && (
+        <>
+          <h3>Segments</h3>
+          <div className="size-selection" style={{ marginBottom: 24 }}>
+            <div className="tracks-options">
+              <label
+                className={`size-option ${
+                  exportScope === "segment" ? "selected" : ""
+                } first`}
+              >
+                <input
+                  type="radio"
+                  name="exportScope"
+                  value="segment"
+                  checked={exportScope === "segment"}
+                  onChange={() => setExportScope("segment")}
+                />
+                <div className="btn tracks-option-content" data-glow>
+                  <span className="size-label">
+                    {activeSegment ? activeSegment.name : "Current range"}
+                  </span>
+                </div>
+              </label>
+              <label
+                className={`size-option ${
+                  exportScope === "reel" ? "selected" : ""
+                } last ${isAnimation ? "disabled" : ""}`}
+              >
+                <input
+                  type="radio"
+                  name="exportScope"
+                  value="reel"
+                  checked={exportScope === "reel"}
+                  onChange={() => setExportScope("reel")}
+                  disabled={isAnimation}
+                />
+                <div className="btn tracks-option-content" data-glow>
+                  <span className="size-label">
+                    Highlight reel ({segments.length} segments)
+                  </span>
+                </div>
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+
+      <h3>Preset</h3>
+      <div className="size-selection preset-selection">
+        <div
+          ref={presetMenuRef}
+          className="export-format-container preset-picker"
+          data-glow
+        >
+          <button
+            className={`btn format-button preset-button ${
+              isPresetMenuOpen ? "open" : ""
+            }`}
+            onClick={() => setIsPresetMenuOpen((v) => !v)}
+            aria-haspopup="listbox"
+            aria-expanded={isPresetMenuOpen}
+            type="button"
+          >
+            <span className="format-dropdown-arrow">
+              {activePreset ? activePreset.name : "No preset"}
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className="format-dropdown-arrow-icon"
+                style={{ marginLeft: 4 }}
+              >
+                <path d="m6 9 6 6 6-6" />
+              </svg>
+            </span>
+          </button>
+          <button
+            className="btn format-dropdown-toggle"
+            onClick={() => setPresetEditor({ preset: activePreset })}
+            title={activePreset ? "Edit preset" : "New preset"}
+            type="button"
+          >
+            {activePreset ? "Edit" : "New"}
+          </button>
+          {isPresetMenuOpen && (
+            <div
+              className="format-dropdown-menu preset-dropdown-menu"
+              role="listbox"
+            >
+              <button
+                className={`format-dropdown-item ${
+                  activePreset ? "" : "active"
+                }`}
+                role="option"
+                aria-selected={!activePreset}
+                type="button"
+                onClick={() => {
+                  setSelectedPresetId(null);
+                  setIsPresetMenuOpen(false);
+                }}
+              >
+                No preset
+              </button>
+              {presets.map((preset) => (
+                <button
+                  key={preset.id}
+                  className={`format-dropdown-item ${
+                    preset.id === activePreset?.id ? "active" : ""
+                  }`}
+                  role="option"
+                  aria-selected={preset.id === activePreset?.id}
+                  type="button"
+                  title={describePreset(preset.settings)}
+                  onClick={() => {
+                    setSelectedPresetId(preset.id);
+                    setIsPresetMenuOpen(false);
+                  }}
+                >
+                  {preset.name}
+                </button>
+              ))}
+              <div className="preset-dropdown-divider" />
+              <button
+                className="format-dropdown-item"
+                type="button"
+                onClick={() => {
+                  setIsPresetMenuOpen(false);
+                  setPresetEditor({ preset: null });
+                }}
+              >
+                New preset...
+              </button>
+              <button
+                className="format-dropdown-item"
+                type="button"
+                onClick={handleImportPresets}
+              >
+                Import presets...
+              </button>
+              {presets.length > 0 && (
+                <button
+                  className="format-dropdown-item"
+                  type="button"
+                  onClick={handleExportPresets}
+                >
+                  Export presets...
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        {activePreset && (
+          <p className="preset-summary">{presetSummary}</p>
+        )}
+      </div>
+
       <h3>Choose a File Size</h3>
 
       {/* Size selection radio buttons */}
@@ -609,8 +1218,10 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
             <label
               key={option.value}
               className={`size-option ${
-                selectedSize === option.value ? "selected" : ""
-              }  ${outputType === "mp3" ? "disabled" : ""}`}
+                selectedSize === option.value && !presetSettings
+                  ? "selected"
+                  : ""
+              }  ${outputType === "mp3" || presetSettings ? "disabled" : ""}`}
             >
               <input
                 type="radio"
@@ -618,7 +1229,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
                 value={option.value}
                 checked={selectedSize === option.value}
                 onChange={() => setSelectedSize(option.value)}
-                disabled={outputType === "mp3"}
+                disabled={outputType === "mp3" || !!presetSettings}
               />
               <div
                 className={`btn size-option-content ${
@@ -636,13 +1247,102 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
         </div>
       </div>
 
+      {/* Output size/rate for compressed exports */}
+      {outputType === "video" &&
+        !presetSettings &&
+        selectedSize !== "original" && (
+          <div className="scale-options">
+            <label className="scale-option">
+              Resolution
+              <select
+                value={resolution}
+                onChange={(e) => setResolution(e.target.value)}
+              >
+                {resolutionOptions.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="scale-option">
+              Frame rate
+              <select
+                value={frameRate}
+                onChange={(e) => setFrameRate(e.target.value)}
+              >
+                {frameRateOptions.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label
+              className="scale-option"
+              title="Analyze the clip first so the file lands close to the chosen size"
+            >
+              <input
+                type="checkbox"
+                checked={twoPass}
+                onChange={(e) => setTwoPass(e.target.checked)}
+              />
+              Two-pass
+            </label>
+          </div>
+        )}
+
+      {/* GIF/WebP options */}
+      {isAnimation && (
+        <div className="scale-options">
+          <label className="scale-option">
+            Frame rate
+            <select
+              value={animationFps}
+              onChange={(e) => setAnimationFps(Number(e.target.value))}
+            >
+              {animationFpsOptions.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps} fps
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="scale-option">
+            Width
+            <select
+              value={animationWidth}
+              onChange={(e) => setAnimationWidth(Number(e.target.value))}
+            >
+              {animationWidthOptions.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="scale-option">
+            <input
+              type="checkbox"
+              checked={animationLoop}
+              onChange={(e) => setAnimationLoop(e.target.checked)}
+            />
+            Loop
+          </label>
+        </div>
+      )}
+
       {/* Audio output options */}
       <div className="size-selection" style={{ marginTop: 8 }}>
         <div className="tracks-options">
           <label
             className={`size-option ${
               audioMode === "combine" ? "selected" : ""
-            } first ${outputType === "mp3" ? "disabled" : ""}`}
+            } first ${
+              outputType !== "video" || isReel || presetSettings
+                ? "disabled"
+                : ""
+            }`}
           >
             <input
               type="radio"
@@ -650,7 +1350,9 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
               value="combine"
               checked={audioMode === "combine"}
               onChange={() => setAudioMode("combine")}
-              disabled={outputType === "mp3"}
+              disabled={
+                outputType !== "video" || isReel || !!presetSettings
+              }
             />
             <div className="btn tracks-option-content" data-glow>
               <span className="size-label">Combine audio tracks</span>
@@ -659,7 +1361,11 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
           <label
             className={`size-option ${
               audioMode === "separate" ? "selected" : ""
-            } last ${outputType === "mp3" ? "disabled" : ""}`}
+            } last ${
+              outputType !== "video" || isReel || presetSettings
+                ? "disabled"
+                : ""
+            }`}
           >
             <input
               type="radio"
@@ -667,7 +1373,9 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
               value="separate"
               checked={audioMode === "separate"}
               onChange={() => setAudioMode("separate")}
-              disabled={outputType === "mp3"}
+              disabled={
+                outputType !== "video" || isReel || !!presetSettings
+              }
             />
             <div className="btn tracks-option-content" data-glow>
               <span className="size-label">Keep tracks separate</span>
@@ -701,10 +1409,15 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
               onClick={() => setIsVideoFormatOpen((v) => !v)}
               aria-haspopup="listbox"
               aria-expanded={isVideoFormatOpen}
+              disabled={!!activePreset}
+              title={activePreset ? "Set by the selected preset" : undefined}
               type="button"
             >
               <span className="format-dropdown-arrow">
-                {videoFormat.toUpperCase()}
+                {(activePreset
+                  ? activePreset.settings.container
+                  : videoFormat
+                ).toUpperCase()}
                 <svg
                   xmlns="http://www.w3.org/2000/svg"
                   width="24"
@@ -809,6 +1522,73 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
               </div>
             )}
           </div>
+
+          {/* Animation format dropdown */}
+          <div
+            ref={animationFormatRef}
+            className="export-format-container"
+            data-glow
+          >
+            <button
+              className="btn format-button"
+              onClick={() => setOutputType(animationFormat)}
+              disabled={isAnimation || isReel}
+              title={isReel ? "Not available for highlight reels" : undefined}
+              type="button"
+            >
+              Export Animation
+            </button>
+            <button
+              className={`btn format-dropdown-toggle ${
+                isAnimationFormatOpen ? "open" : ""
+              }`}
+              onClick={() => setIsAnimationFormatOpen((v) => !v)}
+              aria-haspopup="listbox"
+              aria-expanded={isAnimationFormatOpen}
+              type="button"
+            >
+              <span className="format-dropdown-arrow">
+                {animationFormat.toUpperCase()}
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="24"
+                  height="24"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="format-dropdown-arrow-icon"
+                  style={{ marginLeft: 4 }}
+                >
+                  <path d="m6 9 6 6 6-6" />
+                </svg>
+              </span>
+            </button>
+            {isAnimationFormatOpen && (
+              <div className="format-dropdown-menu" role="listbox">
+                {animationFormats.map((fmt) => (
+                  <button
+                    key={fmt.value}
+                    className={`format-dropdown-item ${
+                      fmt.value === animationFormat ? "active" : ""
+                    }`}
+                    role="option"
+                    aria-selected={fmt.value === animationFormat}
+                    type="button"
+                    onClick={() => {
+                      setAnimationFormat(fmt.value);
+                      if (isAnimation) setOutputType(fmt.value);
+                      setIsAnimationFormatOpen(false);
+                    }}
+                  >
+                    {fmt.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -911,6 +1691,24 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
               Download
             </button>
 
+            <button
+              className="btn continue-btn queue-btn"
+              onClick={handleAddToQueue}
+              type="button"
+            >
+              Add to export queue
+            </button>
+
+            {segments.length > 1 && !isReel && (
+              <button
+                className="btn continue-btn queue-btn"
+                onClick={handleExportAllSegments}
+                type="button"
+              >
+                Queue all {segments.length} segments
+              </button>
+            )}
+
             {exportStatus && <p className="status-message">{exportStatus}</p>}
           </>
         ) : (
@@ -933,6 +1731,15 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
       </div>
 
       {/* No continue button; processing starts automatically */}
+
+      {presetEditor && (
+        <ExportPresetEditor
+          preset={presetEditor.preset}
+          onSaved={handlePresetSaved}
+          onDeleted={handlePresetDeleted}
+          onClose={() => setPresetEditor(null)}
+        />
+      )}
     </div>
   );
 };
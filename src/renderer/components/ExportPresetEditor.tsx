@@ -0,0 +1,310 @@
+import React, { useState } from "react";
+import { ExportPreset, ExportPresetSettings } from "../types";
+import {
+  DEFAULT_PRESET_SETTINGS,
+  PRESET_AUDIO_CODECS,
+  PRESET_CONTAINERS,
+  PRESET_VIDEO_CODECS,
+} from "../utils/exportPresets";
+import "../styles/ExportPresetEditor.css";
+
+const api = window.api;
+
+interface ExportPresetEditorProps {
+  // null creates a new preset
+  preset: ExportPreset | null;
+  onSaved: (preset: ExportPreset) => void;
+  onDeleted: (id: number) => void;
+  onClose: () => void;
+}
+
+const heightOptions = [null, 2160, 1440, 1080, 720, 480, 360];
+const fpsOptions = [null, 60, 30, 24];
+const audioBitrates = [64, 96, 128, 160, 192, 256, 320];
+
+const ExportPresetEditor: React.FC<ExportPresetEditorProps> = ({
+  preset,
+  onSaved,
+  onDeleted,
+  onClose,
+}) => {
+  const [name, setName] = useState(preset?.name || "");
+  const [settings, setSettings] = useState<ExportPresetSettings>(
+    preset?.settings || DEFAULT_PRESET_SETTINGS
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof ExportPresetSettings>(
+    key: K,
+    value: ExportPresetSettings[K]
+  ) => {
+    setSettings((prev) => {
+      const next = { ...prev, [key]: value };
+      // Keep WebM presets on the codecs the container accepts
+      if (key === "container" && value === "webm") {
+        if (next.videoCodec !== "copy") next.videoCodec = "libvpx-vp9";
+        next.audioCodec = "libopus";
+      }
+      return next;
+    });
+    setError(null);
+  };
+
+  const isCopy = settings.videoCodec === "copy";
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await api.saveExportPreset({
+        id: preset?.id,
+        name,
+        settings,
+      });
+      onSaved(saved);
+    } catch (err: any) {
+      // Strip Electron's "Error invoking remote method ..." prefix
+      const message = String(err?.message || err).replace(/^.*Error: /, "");
+      setError(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!preset) return;
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      await api.deleteExportPreset(preset.id);
+      onDeleted(preset.id);
+    } catch (err: any) {
+      setError(String(err?.message || err));
+    }
+  };
+
+  return (
+    <div className="preset-editor-overlay" onClick={onClose}>
+      <div className="preset-editor" onClick={(e) => e.stopPropagation()}>
+        <h3>{preset ? "Edit preset" : "New preset"}</h3>
+
+        <div className="preset-editor-field">
+          <label>Name</label>
+          <input
+            type="text"
+            value={name}
+            placeholder="e.g. Discord 10MB"
+            autoFocus
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+          />
+        </div>
+
+        <div className="preset-editor-grid">
+          <div className="preset-editor-field">
+            <label>Container</label>
+            <select
+              value={settings.container}
+              onChange={(e) =>
+                update(
+                  "container",
+                  e.target.value as ExportPresetSettings["container"]
+                )
+              }
+            >
+              {PRESET_CONTAINERS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="preset-editor-field">
+            <label>Video codec</label>
+            <select
+              value={settings.videoCodec}
+              onChange={(e) =>
+                update(
+                  "videoCodec",
+                  e.target.value as ExportPresetSettings["videoCodec"]
+                )
+              }
+            >
+              {PRESET_VIDEO_CODECS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="preset-editor-field">
+            <label>Quality</label>
+            <select
+              value={settings.rateControl}
+              disabled={isCopy}
+              onChange={(e) =>
+                update(
+                  "rateControl",
+                  e.target.value as ExportPresetSettings["rateControl"]
+                )
+              }
+            >
+              <option value="crf">Constant quality (CRF)</option>
+              <option value="size">Target file size</option>
+            </select>
+          </div>
+
+          {settings.rateControl === "size" ? (
+            <div className="preset-editor-field">
+              <label>Target size (MB)</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.targetSizeMB}
+                disabled={isCopy}
+                onChange={(e) =>
+                  update("targetSizeMB", Number(e.target.value) || 0)
+                }
+              />
+            </div>
+          ) : (
+            <div className="preset-editor-field">
+              <label>CRF (lower is better)</label>
+              <input
+                type="number"
+                min={0}
+                max={51}
+                step={1}
+                value={settings.crf}
+                disabled={isCopy}
+                onChange={(e) => update("crf", Number(e.target.value) || 0)}
+              />
+            </div>
+          )}
+
+          <div className="preset-editor-field">
+            <label>Max resolution</label>
+            <select
+              value={settings.maxHeight ?? ""}
+              disabled={isCopy}
+              onChange={(e) =>
+                update(
+                  "maxHeight",
+                  e.target.value ? Number(e.target.value) : null
+                )
+              }
+            >
+              {heightOptions.map((height) => (
+                <option key={height ?? "source"} value={height ?? ""}>
+                  {height ? `${height}p` : "Source"}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="preset-editor-field">
+            <label>Frame rate</label>
+            <select
+              value={settings.fps ?? ""}
+              disabled={isCopy}
+              onChange={(e) =>
+                update("fps", e.target.value ? Number(e.target.value) : null)
+              }
+            >
+              {fpsOptions.map((fps) => (
+                <option key={fps ?? "source"} value={fps ?? ""}>
+                  {fps ? `${fps} fps` : "Source"}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="preset-editor-field">
+            <label>Audio codec</label>
+            <select
+              value={settings.audioCodec}
+              onChange={(e) =>
+                update(
+                  "audioCodec",
+                  e.target.value as ExportPresetSettings["audioCodec"]
+                )
+              }
+            >
+              {PRESET_AUDIO_CODECS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="preset-editor-field">
+            <label>Audio bitrate</label>
+            <select
+              value={settings.audioBitrateKbps}
+              onChange={(e) =>
+                update("audioBitrateKbps", Number(e.target.value))
+              }
+            >
+              {audioBitrates.map((kbps) => (
+                <option key={kbps} value={kbps}>
+                  {kbps} kbps
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="preset-editor-field">
+          <label>Audio tracks</label>
+          <select
+            value={settings.audioMode}
+            onChange={(e) =>
+              update(
+                "audioMode",
+                e.target.value as ExportPresetSettings["audioMode"]
+              )
+            }
+          >
+            <option value="combine">Combine audio tracks</option>
+            <option value="separate">Keep tracks separate</option>
+          </select>
+        </div>
+
+        {isCopy && (
+          <p className="preset-editor-hint">
+            Copying keeps the original video stream, so size, resolution and
+            frame rate don't apply.
+          </p>
+        )}
+        {error && <p className="preset-editor-error">{error}</p>}
+
+        <div className="preset-editor-actions">
+          {preset && (
+            <button className="btn preset-delete-btn" onClick={handleDelete}>
+              Delete
+            </button>
+          )}
+          <span className="preset-editor-spacer" />
+          <button className="btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="btn preset-save-btn"
+            onClick={handleSave}
+            disabled={isSaving || !name.trim()}
+            data-glow
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPresetEditor;
@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useRef } from "react";
+import { ExportJob } from "../types";
+import "../styles/ExportQueue.css";
+
+const api = window.api;
+
+const STATUS_LABELS: Record<ExportJob["status"], string> = {
+  queued: "Queued",
+  running: "Exporting",
+  done: "Done",
+  failed: "Failed",
+  canceled: "Canceled",
+};
+
+const ExportQueueButton: React.FC = () => {
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+  const [concurrency, setConcurrency] = useState(1);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    api.getExportJobs().then(setJobs).catch(() => {});
+    api.getExportConcurrency().then(setConcurrency).catch(() => {});
+
+    const offQueue = api.on("export-queue-updated", (list: ExportJob[]) => {
+      setJobs(list || []);
+    });
+    // Live progress arrives on the same channel as direct exports, tagged by jobId
+    const offProgress = api.on("export-progress", (progress: any) => {
+      if (!progress?.jobId || typeof progress.percent !== "number") return;
+      setJobs((prev) =>
+        prev.map((job) =>
+          job.id === progress.jobId
+            ? { ...job, progress: Math.round(progress.percent) }
+            : job
+        )
+      );
+    });
+
+    return () => {
+      if (offQueue) offQueue();
+      if (offProgress) offProgress();
+    };
+  }, []);
+
+  // Close on outside click or escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const onDocClick = (e: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(e.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsOpen(false);
+    };
+    document.addEventListener("mousedown", onDocClick);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("mousedown", onDocClick);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [isOpen]);
+
+  const handleConcurrencyChange = async (value: number) => {
+    try {
+      setConcurrency(await api.setExportConcurrency(value));
+    } catch (error) {
+      console.error("Error setting export concurrency:", error);
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(
+    (job) => job.status === "queued" || job.status === "running"
+  ).length;
+  const hasFinished = jobs.some(
+    (job) => job.status !== "queued" && job.status !== "running"
+  );
+
+  return (
+    <div className="export-queue no-drag" ref={containerRef}>
+      <button
+        className={`btn queue-toggle-btn ${isOpen ? "open" : ""}`}
+        onClick={() => setIsOpen((v) => !v)}
+        title="Export queue"
+        data-glow
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="16"
+          height="16"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M3 5h.01" />
+          <path d="M3 12h.01" />
+          <path d="M3 19h.01" />
+          <path d="M8 5h13" />
+          <path d="M8 12h13" />
+          <path d="M8 19h13" />
+        </svg>
+        Queue
+        {activeCount > 0 && (
+          <span className="queue-badge">{activeCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="export-queue-menu">
+          <div className="export-queue-header">
+            <span className="export-queue-title">Export Queue</span>
+            <label className="export-queue-concurrency">
+              At a time
+              <select
+                value={concurrency}
+                onChange={(e) =>
+                  handleConcurrencyChange(Number(e.target.value))
+                }
+              >
+                {[1, 2, 3, 4].map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {hasFinished && (
+              <button
+                className="export-queue-clear"
+                onClick={() => api.clearFinishedExportJobs()}
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+
+          <div className="export-queue-list">
+            {jobs
+              .slice()
+              .reverse()
+              .map((job) => (
+                <div key={job.id} className={`export-job ${job.status}`}>
+                  <div className="export-job-info">
+                    <span className="export-job-label" title={job.label}>
+                      {job.label}
+                    </span>
+                    <span
+                      className="export-job-file"
+                      title={job.error || job.outputPath}
+                    >
+                      {job.status === "failed" && job.error
+                        ? job.error
+                        : window.path.basename(job.outputPath)}
+                    </span>
+                    {job.status === "running" && (
+                      <div className="export-job-progress">
+                        <div
+                          className="export-job-progress-fill"
+                          style={{ width: `${job.progress}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <span className="export-job-status">
+                    {job.status === "running"
+                      ? `${job.progress}%`
+                      : STATUS_LABELS[job.status]}
+                  </span>
+                  <div className="export-job-actions">
+                    {(job.status === "queued" || job.status === "running") && (
+                      <button
+                        className="export-job-action"
+                        onClick={() => api.cancelExportJob(job.id)}
+                        title="Cancel"
+                      >
+                        ×
+                      </button>
+                    )}
+                    {(job.status === "failed" ||
+                      job.status === "canceled") && (
+                      <button
+                        className="export-job-action"
+                        onClick={() => api.retryExportJob(job.id)}
+                        title="Retry"
+                      >
+                        ↻
+                      </button>
+                    )}
+                    {job.status !== "queued" && job.status !== "running" && (
+                      <button
+                        className="export-job-action"
+                        onClick={() => api.removeExportJob(job.id)}
+                        title="Remove from list"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportQueueButton;
@@ -0,0 +1,163 @@
+import React from "react";
+import { AspectPreset, TransformEdit } from "../types";
+import {
+  ASPECT_PRESETS,
+  FULL_FRAME,
+  fitCropToAspect,
+  flipCrop,
+  getAspectRatio,
+  getQuarterTurns,
+  getRotatedSize,
+  rotateCrop,
+} from "../utils/crop";
+import "../styles/FrameControls.css";
+
+interface FrameControlsProps {
+  transform: TransformEdit;
+  // Intrinsic video size; aspect presets are fitted to it
+  videoSize: { width: number; height: number } | null;
+  isCropping: boolean;
+  onCroppingChange: (isCropping: boolean) => void;
+  onChange: (transform: TransformEdit) => void;
+  // Toggles the text overlay editor
+  isEditingText: boolean;
+  onEditingTextChange: (isEditingText: boolean) => void;
+}
+
+const FrameControls: React.FC<FrameControlsProps> = ({
+  transform,
+  videoSize,
+  isCropping,
+  onCroppingChange,
+  onChange,
+  isEditingText,
+  onEditingTextChange,
+}) => {
+  const aspect = transform.aspect ?? "free";
+
+  // Re-fit the crop whenever its aspect or the frame's orientation changes
+  const withAspect = (
+    next: TransformEdit,
+    preset: AspectPreset
+  ): TransformEdit => {
+    const ratio = getAspectRatio(preset);
+    if (!ratio || !videoSize) return { ...next, aspect: preset };
+    return {
+      ...next,
+      aspect: preset,
+      crop: fitCropToAspect(
+        next.crop ?? FULL_FRAME,
+        ratio,
+        getRotatedSize(videoSize, next)
+      ),
+    };
+  };
+
+  const handleSelectAspect = (preset: AspectPreset) => {
+    onChange(withAspect(transform, preset));
+    onCroppingChange(true);
+  };
+
+  const handleRotate = (direction: 1 | -1) => {
+    // With one flip on, the picture turns the other way on screen
+    const onScreen = transform.flipH !== transform.flipV ? -direction : direction;
+    const next: TransformEdit = {
+      ...transform,
+      rotation: ((getQuarterTurns(transform) + direction + 4) % 4) * 90,
+      crop: transform.crop && rotateCrop(transform.crop, onScreen as 1 | -1),
+    };
+    onChange(transform.crop ? withAspect(next, aspect) : next);
+  };
+
+  const handleFlip = (axis: "horizontal" | "vertical") => {
+    const crop = transform.crop && flipCrop(transform.crop, axis);
+    onChange(
+      axis === "horizontal"
+        ? { ...transform, flipH: !transform.flipH, crop }
+        : { ...transform, flipV: !transform.flipV, crop }
+    );
+  };
+
+  const handleReset = () => {
+    onChange({});
+    onCroppingChange(false);
+  };
+
+  const hasEdits =
+    getQuarterTurns(transform) !== 0 ||
+    !!transform.flipH ||
+    !!transform.flipV ||
+    !!transform.crop;
+
+  return (
+    <div className="frame-controls">
+      <button
+        className={`frame-btn ${isCropping ? "active" : ""}`}
+        onClick={() => onCroppingChange(!isCropping)}
+        disabled={!videoSize}
+        title="Crop the frame"
+      >
+        {isCropping ? "Done" : "Crop"}
+      </button>
+      {isCropping &&
+        ASPECT_PRESETS.map((preset) => (
+          <button
+            key={preset}
+            className={`frame-btn ${aspect === preset ? "active" : ""}`}
+            onClick={() => handleSelectAspect(preset)}
+          >
+            {preset === "free" ? "Free" : preset}
+          </button>
+        ))}
+      <span className="frame-controls-divider" />
+      <button
+        className="frame-btn"
+        onClick={() => handleRotate(-1)}
+        title="Rotate left"
+      >
+        ⟲
+      </button>
+      <button
+        className="frame-btn"
+        onClick={() => handleRotate(1)}
+        title="Rotate right"
+      >
+        ⟳
+      </button>
+      <button
+        className={`frame-btn ${transform.flipH ? "active" : ""}`}
+        onClick={() => handleFlip("horizontal")}
+        title="Flip horizontally"
+      >
+        ⇋
+      </button>
+      <button
+        className={`frame-btn ${transform.flipV ? "active" : ""}`}
+        onClick={() => handleFlip("vertical")}
+        title="Flip vertically"
+      >
+        ⇅
+      </button>
+      {hasEdits && (
+        <button
+          className="frame-btn"
+          onClick={handleReset}
+          title="Clear crop, rotation and flips"
+        >
+          Reset
+        </button>
+      )}
+      <span className="frame-controls-divider" />
+      <button
+        className={`frame-btn ${isEditingText ? "active" : ""}`}
+        onClick={() => onEditingTextChange(!isEditingText)}
+        disabled={!videoSize}
+        title="Add titles and captions"
+      >
+        Text
+      </button>
+    </div>
+  );
+};
+
+export default FrameControls;
@@ -1,9 +1,23 @@
 import React, { useEffect, useRef, useState } from "react";
-import { SortBy, SortOrder } from "../types";
+import { SortBy, SortOrder, Tag, TagMatchMode } from "../types";
 import { useGlowEffect } from "../hooks/useGlowEffect";
 import "../styles/SearchBar.css";
 import "../styles/GlowWrapper.css";
 
+// Shown in the syntax help; clicking one adds it to the search
+const SEARCH_SYNTAX: Array<{ example: string; description: string }> = [
+  { example: "sunset", description: "Names, folders, notes, tags, transcripts" },
+  { example: '"road trip"', description: "Exact phrase" },
+  { example: "-draft", description: "Leave out matches" },
+  { example: "folder:2023", description: "In a matching folder" },
+  { example: "tag:travel,hike", description: "Has either tag" },
+  { example: "duration:>30s", description: "Longer than 30 s (s, m, h)" },
+  { example: "size:<50mb", description: "Smaller than 50 MB (kb, mb, gb)" },
+  { example: "edited:<7d", description: "Edited in the last 7 days (h, d, w)" },
+  { example: "is:favorite", description: "Favorites" },
+  { example: "is:edited", description: "Has saved edits" },
+];
+
 interface SearchBarProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
@@ -11,6 +25,13 @@ interface SearchBarProps {
   onSortByChange: (sortBy: SortBy) => void;
   sortOrder: SortOrder;
   onSortOrderChange: (sortOrder: SortOrder) => void;
+  tags?: Tag[];
+  selectedTagIds?: number[];
+  onSelectedTagIdsChange?: (tagIds: number[]) => void;
+  tagMatchMode?: TagMatchMode;
+  onTagMatchModeChange?: (mode: TagMatchMode) => void;
+  onRenameTag?: (tag: Tag, newName: string) => void;
+  onDeleteTag?: (tag: Tag) => void;
 }
 
 const SearchBar: React.FC<SearchBarProps> = ({
@@ -20,9 +41,22 @@ const SearchBar: React.FC<SearchBarProps> = ({
   onSortByChange,
   sortOrder,
   onSortOrderChange,
+  tags = [],
+  selectedTagIds = [],
+  onSelectedTagIdsChange,
+  tagMatchMode = "any",
+  onTagMatchModeChange,
+  onRenameTag,
+  onDeleteTag,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const [isTagMenuOpen, setIsTagMenuOpen] = useState(false);
+  const tagMenuRef = useRef<HTMLDivElement>(null);
+  const [editingTagId, setEditingTagId] = useState<number | null>(null);
+  const [editingTagName, setEditingTagName] = useState("");
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const helpRef = useRef<HTMLDivElement>(null);
 
   // Initialize glow effect system
   useGlowEffect();
@@ -47,15 +81,48 @@ const SearchBar: React.FC<SearchBarProps> = ({
     return found ? found.label : `${sortBy} — ${sortOrder}`;
   })();
 
+  const handleToggleTag = (tagId: number) => {
+    if (!onSelectedTagIdsChange) return;
+    if (selectedTagIds.includes(tagId)) {
+      onSelectedTagIdsChange(selectedTagIds.filter((id) => id !== tagId));
+    } else {
+      onSelectedTagIdsChange([...selectedTagIds, tagId]);
+    }
+  };
+
+  const startRenaming = (tag: Tag) => {
+    setEditingTagId(tag.id);
+    setEditingTagName(tag.name);
+  };
+
+  const commitRename = (tag: Tag) => {
+    const newName = editingTagName.trim();
+    setEditingTagId(null);
+    if (newName && newName !== tag.name && onRenameTag) {
+      onRenameTag(tag, newName);
+    }
+  };
+
   useEffect(() => {
     const onDocClick = (e: MouseEvent) => {
-      if (!dropdownRef.current) return;
-      if (!dropdownRef.current.contains(e.target as Node)) {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
         setIsOpen(false);
       }
+      if (tagMenuRef.current && !tagMenuRef.current.contains(e.target as Node)) {
+        setIsTagMenuOpen(false);
+        setEditingTagId(null);
+      }
+      if (helpRef.current && !helpRef.current.contains(e.target as Node)) {
+        setIsHelpOpen(false);
+      }
     };
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape") setIsOpen(false);
+      if (e.key === "Escape") {
+        setIsOpen(false);
+        setIsTagMenuOpen(false);
+        setEditingTagId(null);
+        setIsHelpOpen(false);
+      }
     };
     document.addEventListener("mousedown", onDocClick);
     document.addEventListener("keydown", onKey);
@@ -67,7 +134,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
 
   return (
     <div className="search-bar" data-glow>
-      <div className="search-input-wrapper">
+      <div className="search-input-wrapper" ref={helpRef}>
         <svg
           xmlns="http://www.w3.org/2000/svg"
           width="24"
@@ -90,6 +157,179 @@ const SearchBar: React.FC<SearchBarProps> = ({
           value={searchQuery}
           onChange={(e) => onSearchChange(e.target.value)}
         />
+        <button
+          className={`search-help-toggle ${isHelpOpen ? "open" : ""}`}
+          onClick={() => setIsHelpOpen((v) => !v)}
+          type="button"
+          title="Search syntax"
+        >
+          ?
+        </button>
+        {isHelpOpen && (
+          <div className="sort-menu search-help-menu">
+            {SEARCH_SYNTAX.map((item) => (
+              <button
+                key={item.example}
+                className="sort-item search-help-item"
+                type="button"
+                onClick={() =>
+                  onSearchChange(`${searchQuery.trim()} ${item.example}`.trim())
+                }
+              >
+                <code>{item.example}</code>
+                <span>{item.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="tag-controls" ref={tagMenuRef}>
+        <button
+          className={`sort-toggle tag-toggle ${isTagMenuOpen ? "open" : ""} ${
+            selectedTagIds.length > 0 ? "active" : ""
+          }`}
+          onClick={() => setIsTagMenuOpen((v) => !v)}
+          aria-haspopup="listbox"
+          aria-expanded={isTagMenuOpen}
+          type="button"
+          title="Filter by tags"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M12.586 2.586A2 2 0 0 0 11.172 2H4a2 2 0 0 0-2 2v7.172a2 2 0 0 0 .586 1.414l8.704 8.704a2.426 2.426 0 0 0 3.42 0l6.58-6.58a2.426 2.426 0 0 0 0-3.42z" />
+            <circle cx="7.5" cy="7.5" r=".5" fill="currentColor" />
+          </svg>
+          <span className="sort-toggle-label">
+            {selectedTagIds.length > 0
+              ? `Tags (${selectedTagIds.length})`
+              : "Tags"}
+          </span>
+        </button>
+        {isTagMenuOpen && (
+          <div className="sort-menu tag-menu" role="listbox">
+            <div className="tag-menu-header">
+              <div className="tag-match-toggle">
+                <button
+                  type="button"
+                  className={`tag-match-option ${
+                    tagMatchMode === "any" ? "active" : ""
+                  }`}
+                  onClick={() => onTagMatchModeChange?.("any")}
+                  title="Show clips with any of the selected tags"
+                >
+                  Any (OR)
+                </button>
+                <button
+                  type="button"
+                  className={`tag-match-option ${
+                    tagMatchMode === "all" ? "active" : ""
+                  }`}
+                  onClick={() => onTagMatchModeChange?.("all")}
+                  title="Show clips with all of the selected tags"
+                >
+                  All (AND)
+                </button>
+              </div>
+              {selectedTagIds.length > 0 && (
+                <button
+                  type="button"
+                  className="tag-menu-clear"
+                  onClick={() => onSelectedTagIdsChange?.([])}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {tags.length === 0 ? (
+              <div className="tag-menu-empty">No tags yet</div>
+            ) : (
+              tags.map((tag) => {
+                const active = selectedTagIds.includes(tag.id);
+                if (editingTagId === tag.id) {
+                  return (
+                    <div key={tag.id} className="sort-item tag-item editing">
+                      <input
+                        className="tag-rename-input"
+                        value={editingTagName}
+                        autoFocus
+                        onChange={(e) => setEditingTagName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename(tag);
+                          if (e.key === "Escape") {
+                            e.stopPropagation();
+                            setEditingTagId(null);
+                          }
+                        }}
+                        onBlur={() => commitRename(tag)}
+                      />
+                    </div>
+                  );
+                }
+                return (
+                  <div
+                    key={tag.id}
+                    className={`sort-item tag-item ${active ? "active" : ""}`}
+                    role="option"
+                    aria-selected={active}
+                    onClick={() => handleToggleTag(tag.id)}
+                  >
+                    <span className="tag-item-check">{active ? "✓" : ""}</span>
+                    <span className="tag-item-name">{tag.name}</span>
+                    <span className="tag-item-count">{tag.clipCount}</span>
+                    {onRenameTag && (
+                      <button
+                        type="button"
+                        className="tag-item-action"
+                        title="Rename (use an existing name to merge)"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startRenaming(tag);
+                        }}
+                      >
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          width="14"
+                          height="14"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          <path d="M21.174 6.812a1 1 0 0 0-3.986-3.987L3.842 16.174a2 2 0 0 0-.5.83l-1.321 4.352a.5.5 0 0 0 .623.622l4.353-1.32a2 2 0 0 0 .83-.497z" />
+                        </svg>
+                      </button>
+                    )}
+                    {onDeleteTag && (
+                      <button
+                        type="button"
+                        className="tag-item-action"
+                        title="Delete tag"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteTag(tag);
+                        }}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
       </div>
 
       <div className="sort-controls" ref={dropdownRef}>
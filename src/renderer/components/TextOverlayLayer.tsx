@@ -0,0 +1,108 @@
+import React, { useRef } from "react";
+import { TextOverlay } from "../types";
+import { isOverlayVisible, moveOverlay } from "../utils/textOverlay";
+import "../styles/TextOverlayLayer.css";
+
+interface TextOverlayLayerProps {
+  overlays: TextOverlay[];
+  currentTime: number;
+  // Pixel height of the layer (the cropped frame), for font sizes
+  height: number;
+  // Without editing, overlays are only shown
+  isEditing: boolean;
+  selectedId: string | null;
+  onSelect?: (id: string) => void;
+  onChange?: (overlay: TextOverlay) => void;
+}
+
+interface OverlayDrag {
+  id: string;
+  startX: number;
+  startY: number;
+  startOverlay: TextOverlay;
+}
+
+const TextOverlayLayer: React.FC<TextOverlayLayerProps> = ({
+  overlays,
+  currentTime,
+  height,
+  isEditing,
+  selectedId,
+  onSelect,
+  onChange,
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<OverlayDrag | null>(null);
+
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    overlay: TextOverlay
+  ) => {
+    if (!isEditing) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSelect?.(overlay.id);
+    dragRef.current = {
+      id: overlay.id,
+      startX: e.clientX,
+      startY: e.clientY,
+      startOverlay: overlay,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const layer = layerRef.current;
+    if (!drag || !layer || !onChange) return;
+
+    const rect = layer.getBoundingClientRect();
+    onChange(
+      moveOverlay(
+        drag.startOverlay,
+        drag.startOverlay.x + (e.clientX - drag.startX) / rect.width,
+        drag.startOverlay.y + (e.clientY - drag.startY) / rect.height
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Selected overlays stay visible while editing, so they can be placed
+  // before seeking into their time range
+  const shown = overlays.filter(
+    (overlay) =>
+      isOverlayVisible(overlay, currentTime) ||
+      (isEditing && overlay.id === selectedId)
+  );
+
+  return (
+    <div
+      ref={layerRef}
+      className={`text-overlay-layer ${isEditing ? "editing" : ""}`}
+    >
+      {shown.map((overlay) => (
+        <div
+          key={overlay.id}
+          className={`text-overlay ${
+            overlay.id === selectedId && isEditing ? "selected" : ""
+          } ${isOverlayVisible(overlay, currentTime) ? "" : "inactive"}`}
+          style={{
+            left: `${overlay.x * 100}%`,
+            top: `${overlay.y * 100}%`,
+            fontSize: `${overlay.fontSize * height}px`,
+            color: overlay.color,
+          }}
+          onPointerDown={(e) => handlePointerDown(e, overlay)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {overlay.text}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TextOverlayLayer;
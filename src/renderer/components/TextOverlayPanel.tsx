@@ -0,0 +1,163 @@
+import React from "react";
+import { TextOverlay } from "../types";
+import {
+  MAX_OVERLAY_FONT_SIZE,
+  MIN_OVERLAY_FONT_SIZE,
+  OVERLAY_COLORS,
+} from "../utils/textOverlay";
+import "../styles/TextOverlayPanel.css";
+
+interface TextOverlayPanelProps {
+  overlays: TextOverlay[];
+  selectedId: string | null;
+  currentTime: number;
+  onAdd: () => void;
+  onSelect: (id: string) => void;
+  onChange: (overlay: TextOverlay) => void;
+  onDelete: (id: string) => void;
+  onSeek: (time: number) => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+};
+
+const TextOverlayPanel: React.FC<TextOverlayPanelProps> = ({
+  overlays,
+  selectedId,
+  currentTime,
+  onAdd,
+  onSelect,
+  onChange,
+  onDelete,
+  onSeek,
+}) => {
+  const selected = overlays.find((overlay) => overlay.id === selectedId);
+
+  // Keep at least a tenth of a second between start and end
+  const handleSetStart = () => {
+    if (!selected) return;
+    onChange({
+      ...selected,
+      start: Math.min(currentTime, selected.end - 0.1),
+    });
+  };
+
+  const handleSetEnd = () => {
+    if (!selected) return;
+    onChange({
+      ...selected,
+      end: Math.max(currentTime, selected.start + 0.1),
+    });
+  };
+
+  return (
+    <div className="text-overlay-panel">
+      <div className="text-overlay-panel-header">
+        <span>Text</span>
+        <button className="text-overlay-add-btn" onClick={onAdd}>
+          + Add at playhead
+        </button>
+      </div>
+
+      {overlays.length === 0 ? (
+        <p className="text-overlay-empty">
+          Add a title or caption, then drag it into place on the video.
+        </p>
+      ) : (
+        <div className="text-overlay-list">
+          {overlays.map((overlay) => (
+            <button
+              key={overlay.id}
+              className={`text-overlay-item ${
+                overlay.id === selectedId ? "active" : ""
+              }`}
+              onClick={() => {
+                onSelect(overlay.id);
+                onSeek(overlay.start);
+              }}
+            >
+              <span className="text-overlay-item-text">
+                {overlay.text.trim() || "(empty)"}
+              </span>
+              <span className="text-overlay-item-time">
+                {formatTime(overlay.start)}–{formatTime(overlay.end)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="text-overlay-editor">
+          <textarea
+            className="text-overlay-input"
+            value={selected.text}
+            rows={2}
+            onChange={(e) => onChange({ ...selected, text: e.target.value })}
+          />
+          <label className="text-overlay-row">
+            Size
+            <input
+              type="range"
+              min={MIN_OVERLAY_FONT_SIZE}
+              max={MAX_OVERLAY_FONT_SIZE}
+              step={0.005}
+              value={selected.fontSize}
+              onChange={(e) =>
+                onChange({ ...selected, fontSize: Number(e.target.value) })
+              }
+            />
+          </label>
+          <div className="text-overlay-row">
+            Color
+            <div className="text-overlay-colors">
+              {OVERLAY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  className={`text-overlay-swatch ${
+                    selected.color === color ? "active" : ""
+                  }`}
+                  style={{ background: color }}
+                  onClick={() => onChange({ ...selected, color })}
+                  title={color}
+                />
+              ))}
+              <input
+                type="color"
+                value={selected.color}
+                onChange={(e) =>
+                  onChange({ ...selected, color: e.target.value })
+                }
+                title="Custom color"
+              />
+            </div>
+          </div>
+          <div className="text-overlay-row">
+            <span>
+              {formatTime(selected.start)} – {formatTime(selected.end)}
+            </span>
+            <div className="text-overlay-timing">
+              <button onClick={handleSetStart} title="Start at the playhead">
+                Set start
+              </button>
+              <button onClick={handleSetEnd} title="End at the playhead">
+                Set end
+              </button>
+            </div>
+          </div>
+          <button
+            className="text-overlay-delete-btn"
+            onClick={() => onDelete(selected.id)}
+          >
+            Delete text
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextOverlayPanel;
@@ -1,8 +1,14 @@
 import React, { useRef, useEffect, useState } from "react";
 import TrackLane from "./TrackLane";
-import { AudioTrack } from "../types";
+import TimelineMinimap from "./TimelineMinimap";
+import { AudioTrack, ClipSegment } from "../types";
+import { snapToFrame } from "../utils/frameRate";
 import "../styles/Timeline.css";
 
+// Narrowest window the timeline can zoom to, in seconds
+const MIN_VIEW_DURATION = 0.5;
+const ZOOM_STEP = 1.5;
+
 interface TimelineProps {
   duration: number;
   currentTime: number;
@@ -13,9 +19,27 @@ interface TimelineProps {
   onTrimEndChange: (time: number) => void;
   videoPath: string;
   audioTracks: AudioTrack[];
-  audioBuffers: AudioBuffer[];
+  // One per track, undefined while still loading
+  audioBuffers: (AudioBuffer | undefined)[];
   onVolumeChange: (trackIndex: number, volume: number) => void;
   onMuteToggle: (trackIndex: number) => void;
+  // additive keeps the other soloed tracks
+  onSoloToggle?: (trackIndex: number, additive: boolean) => void;
+  // Fades, normalization and volume keyframes
+  onAudioTrackEdit?: (trackIndex: number, changes: Partial<AudioTrack>) => void;
+  // Add / remove audio files laid under the clip
+  onAddAudioTrack?: () => void;
+  onRemoveAudioTrack?: (trackIndex: number) => void;
+  // Loudness-normalize the combined mix
+  normalizeMix?: boolean;
+  onNormalizeMixChange?: (normalize: boolean) => void;
+  segments?: ClipSegment[];
+  activeSegmentId?: string | null;
+  onSelectSegment?: (segmentId: string) => void;
+  // Source keyframe times; cuts on these are exact even without re-encoding
+  keyframes?: number[];
+  // Trim handles snap to frame boundaries at this rate
+  frameRate?: number;
 }
 
 const Timeline: React.FC<TimelineProps> = ({
@@ -31,12 +55,70 @@ const Timeline: React.FC<TimelineProps> = ({
   audioBuffers,
   onVolumeChange,
   onMuteToggle,
+  onSoloToggle,
+  onAudioTrackEdit,
+  onAddAudioTrack,
+  onRemoveAudioTrack,
+  normalizeMix = false,
+  onNormalizeMixChange,
+  segments = [],
+  activeSegmentId = null,
+  onSelectSegment,
+  keyframes = [],
+  frameRate,
 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isSoloActive = audioTracks.some((track) => track.isSolo);
   const timelineRef = useRef<HTMLDivElement>(null);
   const [isDraggingStart, setIsDraggingStart] = useState(false);
   const [isDraggingEnd, setIsDraggingEnd] = useState(false);
   const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
 
+  // Visible window: zoom 1 shows the whole clip, viewStart scrolls when zoomed in
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const maxZoom = Math.max(1, duration / MIN_VIEW_DURATION);
+  const viewDuration = duration > 0 ? duration / zoom : 0;
+  const viewEnd = viewStart + viewDuration;
+
+  // Where a time falls across the visible width (outside 0..1 when scrolled off)
+  const toViewFraction = (time: number): number =>
+    viewDuration > 0 ? (time - viewStart) / viewDuration : 0;
+
+  const setViewport = (nextZoom: number, nextStart: number) => {
+    const clampedZoom = Math.max(1, Math.min(maxZoom, nextZoom));
+    const length = duration / clampedZoom;
+    setZoom(clampedZoom);
+    setViewStart(Math.max(0, Math.min(duration - length, nextStart)));
+  };
+
+  // Zoom while keeping anchorTime at the same spot on screen
+  const zoomAround = (anchorTime: number, factor: number) => {
+    const nextZoom = Math.max(1, Math.min(maxZoom, zoom * factor));
+    const fraction = Math.max(0, Math.min(1, toViewFraction(anchorTime)));
+    setViewport(nextZoom, anchorTime - fraction * (duration / nextZoom));
+  };
+
+  const zoomToRange = (start: number, end: number) => {
+    const length = Math.max(MIN_VIEW_DURATION, (end - start) * 1.1);
+    setViewport(duration / length, (start + end) / 2 - length / 2);
+  };
+
+  useEffect(() => {
+    setZoom(1);
+    setViewStart(0);
+  }, [duration]);
+
+  // Page along with the playhead when playback or seeking leaves the window
+  useEffect(() => {
+    if (zoom <= 1 || isDraggingPlayhead || isDraggingStart || isDraggingEnd) {
+      return;
+    }
+    if (currentTime < viewStart || currentTime > viewEnd) {
+      setViewport(zoom, currentTime - viewDuration * 0.1);
+    }
+  }, [currentTime]);
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -45,6 +127,16 @@ const Timeline: React.FC<TimelineProps> = ({
       .padStart(2, "0")}`;
   };
 
+  // Ruler labels gain decimals once ticks are less than a second apart
+  const formatRulerTime = (seconds: number, interval: number): string => {
+    if (interval >= 1) return formatTime(seconds);
+    const decimals = interval >= 0.1 ? 1 : 2;
+    const fraction = Math.floor((seconds % 1) * 10 ** decimals + 1e-6);
+    return `${formatTime(seconds)}.${fraction
+      .toString()
+      .padStart(decimals, "0")}`;
+  };
+
   const getTimelineIntervals = (
     duration: number,
     rulerWidthPx: number
@@ -60,7 +152,7 @@ const Timeline: React.FC<TimelineProps> = ({
 
     // Nice intervals in seconds
     const niceNumbers = [
-      0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 20, 30, 60, 120, 180, 300, 600, 900, 1200,
+      0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 20, 30, 60, 120, 180, 300, 600, 900, 1200,
       1800, 3600,
     ];
 
@@ -117,7 +209,7 @@ const Timeline: React.FC<TimelineProps> = ({
     const rect = timelineRef.current.getBoundingClientRect();
     const x = clientX - rect.left;
     const percentage = Math.max(0, Math.min(1, x / rect.width));
-    return percentage * duration;
+    return viewStart + percentage * viewDuration;
   };
 
   const getTimeFromPositionWithOffset = (clientX: number): number => {
@@ -128,7 +220,7 @@ const Timeline: React.FC<TimelineProps> = ({
     const x = clientX - rect.left;
     const availableWidth = rect.width;
     const percentage = Math.max(0, Math.min(1, x / availableWidth));
-    return percentage * duration;
+    return viewStart + percentage * viewDuration;
   };
 
   const handleMouseDown = (
@@ -158,6 +250,10 @@ const Timeline: React.FC<TimelineProps> = ({
       time = getTimeFromPosition(e.clientX);
     }
 
+    if ((isDraggingStart || isDraggingEnd) && frameRate) {
+      time = snapToFrame(time, frameRate);
+    }
+
     if (isDraggingStart) {
       const newTrimStart = Math.max(0, Math.min(time, trimEnd - 0.1));
       onTrimStartChange(newTrimStart);
@@ -192,7 +288,8 @@ const Timeline: React.FC<TimelineProps> = ({
       target.closest(".trim-handle-overlay") ||
       target.closest(".global-playhead-overlay") ||
       target.closest(".track-header") ||
-      target.closest(".volume-control")
+      target.closest(".volume-control") ||
+      target.closest(".volume-envelope-point")
     ) {
       return;
     }
@@ -216,14 +313,88 @@ const Timeline: React.FC<TimelineProps> = ({
     trimStart,
     trimEnd,
     duration,
+    frameRate,
+    zoom,
+    viewStart,
   ]);
 
-  const currentPercentage = (currentTime / duration) * 100;
-  const trimStartPercentage = (trimStart / duration) * 100;
-  const trimEndPercentage = (trimEnd / duration) * 100;
+  // Ctrl/pinch + wheel (or plain wheel over the ruler) zooms at the cursor;
+  // Shift + wheel and horizontal swipes scroll a zoomed timeline
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const overRuler = !!(e.target as HTMLElement).closest(".time-ruler");
+      const horizontal = e.shiftKey ? e.deltaY : e.deltaX;
+
+      if ((e.ctrlKey || e.metaKey || overRuler) && !e.shiftKey) {
+        e.preventDefault();
+        const delta = Math.max(-50, Math.min(50, e.deltaY));
+        zoomAround(
+          getTimeFromPositionWithOffset(e.clientX),
+          Math.exp(-delta * 0.01)
+        );
+      } else if (zoom > 1 && horizontal !== 0) {
+        e.preventDefault();
+        const width =
+          document.querySelector(".track-content")?.clientWidth || 1;
+        setViewport(zoom, viewStart + (horizontal / width) * viewDuration);
+      }
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [zoom, viewStart, duration]);
+
+  // Z: zoom to the trim selection, Shift+Z: whole clip, +/-: zoom at the playhead
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      switch (e.key) {
+        case "z":
+          e.preventDefault();
+          zoomToRange(trimStart, trimEnd);
+          break;
+        case "Z":
+          e.preventDefault();
+          setViewport(1, 0);
+          break;
+        case "=":
+        case "+":
+          e.preventDefault();
+          zoomAround(currentTime, ZOOM_STEP);
+          break;
+        case "-":
+        case "_":
+          e.preventDefault();
+          zoomAround(currentTime, 1 / ZOOM_STEP);
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [zoom, viewStart, duration, trimStart, trimEnd, currentTime]);
+
+  const currentFraction = toViewFraction(currentTime);
+  const trimStartFraction = toViewFraction(trimStart);
+  const trimEndFraction = toViewFraction(trimEnd);
+  const isInView = (fraction: number) => fraction >= 0 && fraction <= 1;
 
   return (
-    <div className="timeline-container" style={{ position: "relative" }}>
+    <div
+      ref={containerRef}
+      className="timeline-container"
+      style={{ position: "relative" }}
+    >
       {/* Time ruler with seek area */}
       <div className="time-ruler-container">
         <div className="time-ruler-spacer">
@@ -241,7 +412,7 @@ const Timeline: React.FC<TimelineProps> = ({
           {(() => {
             const rulerWidthPx = timelineRef.current?.clientWidth ?? 0;
             const { majorInterval, mediumInterval, minorInterval } =
-              getTimelineIntervals(duration, rulerWidthPx);
+              getTimelineIntervals(viewDuration, rulerWidthPx);
             const markers: React.ReactElement[] = [];
 
             // Collect all marker times with their types
@@ -250,16 +421,26 @@ const Timeline: React.FC<TimelineProps> = ({
               type: "major" | "medium" | "minor";
             }> = [];
 
-            markerData.push({ time: 0, type: "major" });
+            // Ticks on multiples of the interval inside the visible window
+            const firstIndex = (interval: number) =>
+              Math.ceil((viewStart - 1e-9) / interval);
 
-            for (let i = 1; i * majorInterval < duration; i++) {
+            for (
+              let i = firstIndex(majorInterval);
+              i * majorInterval < viewEnd;
+              i++
+            ) {
               const time = i * majorInterval;
               markerData.push({ time, type: "major" });
             }
 
             if (mediumInterval) {
               const eps = 1e-9;
-              for (let i = 1; i * mediumInterval < duration; i++) {
+              for (
+                let i = firstIndex(mediumInterval);
+                i * mediumInterval < viewEnd;
+                i++
+              ) {
                 const time = i * mediumInterval;
                 const k = Math.round(time / majorInterval);
                 const alignsWithMajor =
@@ -273,7 +454,11 @@ const Timeline: React.FC<TimelineProps> = ({
             // Generate minor markers between start and end (lowest priority
             if (minorInterval) {
               const eps = 1e-9;
-              for (let i = 1; i * minorInterval < duration; i++) {
+              for (
+                let i = firstIndex(minorInterval);
+                i * minorInterval < viewEnd;
+                i++
+              ) {
                 const time = i * minorInterval;
                 const kMajor = Math.round(time / majorInterval);
                 const alignsWithMajor =
@@ -316,18 +501,19 @@ const Timeline: React.FC<TimelineProps> = ({
             );
 
             markerData.forEach((data, index) => {
-              const percentageKey = Math.round((data.time / duration) * 100000);
+              const fraction = toViewFraction(data.time);
+              const percentageKey = Math.round(fraction * 100000);
               if (usedPercentageKeys.has(percentageKey)) {
                 return;
               }
 
-              const isFirst = data.time === 0;
-              const isLast = Math.abs(data.time - duration) < 0.000001;
+              const isFirst = Math.abs(fraction) < 0.000001;
+              const isLast = Math.abs(fraction - 1) < 0.000001;
 
               let canPlace = true;
               if (!isFirst && !isLast) {
                 if (rulerWidthPx > 0) {
-                  const px = (data.time / duration) * rulerWidthPx;
+                  const px = fraction * rulerWidthPx;
                   for (const placedPx of placedPixelPositions) {
                     if (Math.abs(px - placedPx) < minPixelGap) {
                       canPlace = false;
@@ -349,9 +535,7 @@ const Timeline: React.FC<TimelineProps> = ({
                 usedPercentageKeys.add(percentageKey);
                 placedTimes.push(data.time);
                 if (rulerWidthPx > 0) {
-                  placedPixelPositions.push(
-                    (data.time / duration) * rulerWidthPx
-                  );
+                  placedPixelPositions.push(fraction * rulerWidthPx);
                 }
 
                 markers.push(
@@ -360,11 +544,11 @@ const Timeline: React.FC<TimelineProps> = ({
                     className={`time-marker time-marker-${data.type} ${
                       isFirst ? "first" : ""
                     } ${isLast ? "last" : ""}`}
-                    style={{ left: `${(data.time / duration) * 100}%` }}
+                    style={{ left: `${fraction * 100}%` }}
                   >
                     {data.type === "major" && (
                       <span className="time-label">
-                        {formatTime(data.time)}
+                        {formatRulerTime(data.time, majorInterval)}
                       </span>
                     )}
                   </div>
@@ -387,6 +571,9 @@ const Timeline: React.FC<TimelineProps> = ({
           duration={duration}
           trimStart={trimStart}
           trimEnd={trimEnd}
+          videoPath={videoPath}
+          viewStart={viewStart}
+          viewEnd={viewEnd}
         />
 
         {/* Audio Tracks */}
@@ -399,62 +586,210 @@ const Timeline: React.FC<TimelineProps> = ({
             duration={duration}
             trimStart={trimStart}
             trimEnd={trimEnd}
+            viewStart={viewStart}
+            viewEnd={viewEnd}
             volume={track.volume}
             isMuted={track.isMuted}
+            isSolo={track.isSolo}
+            isSilencedBySolo={isSoloActive && !track.isSolo}
+            fadeIn={track.fadeIn}
+            fadeOut={track.fadeOut}
+            normalize={track.normalize}
+            volumeKeyframes={track.volumeKeyframes}
             audioBuffer={audioBuffers[index]}
+            audioOffset={track.offset}
+            isExternal={!!track.externalPath}
+            onRemoveTrack={
+              track.externalPath && onRemoveAudioTrack
+                ? () => onRemoveAudioTrack(track.index)
+                : undefined
+            }
             onVolumeChange={(volume) => onVolumeChange(track.index, volume)}
             onMuteToggle={() => onMuteToggle(track.index)}
+            onSoloToggle={
+              onSoloToggle
+                ? (additive) => onSoloToggle(track.index, additive)
+                : undefined
+            }
+            onTrackEdit={
+              onAudioTrackEdit
+                ? (changes) => onAudioTrackEdit(track.index, changes)
+                : undefined
+            }
           />
         ))}
 
-        {/* Empty spacing track at bottom */}
+        {/* Empty spacing track at bottom, with the mix settings in its header */}
         <div className="track-lane track-spacer">
-          <div className="track-header track-header-spacer"></div>
+          <div className="track-header track-header-spacer">
+            {audioTracks.length > 0 && onNormalizeMixChange && (
+              <button
+                className={`mix-normalize-btn ${normalizeMix ? "active" : ""}`}
+                onClick={() => onNormalizeMixChange(!normalizeMix)}
+                title="Normalize the loudness of the combined mix (EBU R128)"
+              >
+                Normalize mix
+              </button>
+            )}
+            {onAddAudioTrack && (
+              <button
+                className="add-audio-btn"
+                onClick={onAddAudioTrack}
+                title="Add an audio file as another track"
+              >
+                + Audio
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Zoom controls and overview of the whole clip */}
+      <div className="timeline-zoom-row">
+        <div className="timeline-zoom-controls">
+          <button
+            className="timeline-zoom-btn"
+            onClick={() => zoomAround(currentTime, 1 / ZOOM_STEP)}
+            disabled={zoom <= 1}
+            title="Zoom out (-)"
+          >
+            −
+          </button>
+          <button
+            className="timeline-zoom-btn"
+            onClick={() => zoomAround(currentTime, ZOOM_STEP)}
+            disabled={zoom >= maxZoom}
+            title="Zoom in (+)"
+          >
+            +
+          </button>
+          <button
+            className="timeline-zoom-btn"
+            onClick={() => zoomToRange(trimStart, trimEnd)}
+            title="Zoom to selection (Z)"
+          >
+            Sel
+          </button>
+          <button
+            className="timeline-zoom-btn"
+            onClick={() => setViewport(1, 0)}
+            disabled={zoom <= 1}
+            title="Show whole clip (Shift+Z)"
+          >
+            Fit
+          </button>
+          <span className="timeline-zoom-level">{Math.round(zoom * 100)}%</span>
         </div>
+        <TimelineMinimap
+          duration={duration}
+          viewStart={viewStart}
+          viewDuration={viewDuration}
+          currentTime={currentTime}
+          trimStart={trimStart}
+          trimEnd={trimEnd}
+          onViewStartChange={(start) => setViewport(zoom, start)}
+        />
       </div>
 
+      {/* Keyframe markers on the video track */}
+      {keyframes.length > 0 && duration > 0 && (
+        <div
+          className="keyframe-markers"
+          style={{
+            left: "calc(180px + 12px)",
+            width: "calc(100% - 180px - 24px)",
+            top: "39px",
+            height: "32px",
+          }}
+        >
+          {keyframes
+            .filter((time) => time >= viewStart && time <= viewEnd)
+            .map((time) => (
+              <div
+                key={time}
+                className="keyframe-marker"
+                style={{ left: `${toViewFraction(time) * 100}%` }}
+              />
+            ))}
+        </div>
+      )}
+
+      {/* Named segments on the video track; the active one is edited via the trim handles */}
+      {segments.map((segment) => {
+        const isActive = segment.id === activeSegmentId;
+        // Clip to the visible window when zoomed in
+        const visibleStart = Math.max(segment.start, viewStart);
+        const visibleEnd = Math.min(segment.end, viewEnd);
+        if (visibleEnd <= visibleStart) return null;
+        return (
+          <div
+            key={segment.id}
+            className={`segment-overlay ${isActive ? "active" : ""}`}
+            style={{
+              left: `calc(180px + 12px + (100% - 180px - 24px) * ${toViewFraction(
+                visibleStart
+              )})`,
+              width: `calc((100% - 180px - 24px) * ${
+                (visibleEnd - visibleStart) / viewDuration
+              })`,
+              top: "39px",
+              height: "32px",
+            }}
+            title={segment.name}
+            onMouseDown={(e) => {
+              if (isActive || !onSelectSegment) return;
+              e.preventDefault();
+              e.stopPropagation();
+              onSelectSegment(segment.id);
+            }}
+          >
+            <span className="segment-overlay-label">{segment.name}</span>
+          </div>
+        );
+      })}
+
       {/* Trim handles only on video track (first track) */}
-      <div
-        className="trim-handle-overlay trim-start"
-        style={{
-          left: `calc(180px + 12px + (100% - 180px - 24px) * ${
-            trimStartPercentage / 100
-          })`,
-          top: "39px",
-          height: "32px",
-        }}
-        onMouseDown={(e) => handleMouseDown(e, "start")}
-      />
-
-      <div
-        className="trim-handle-overlay trim-end"
-        style={{
-          left: `calc(180px + 12px + (100% - 180px - 24px) * ${
-            trimEndPercentage / 100
-          })`,
-          top: "39px",
-          height: "32px",
-        }}
-        onMouseDown={(e) => handleMouseDown(e, "end")}
-      />
+      {isInView(trimStartFraction) && (
+        <div
+          className="trim-handle-overlay trim-start"
+          style={{
+            left: `calc(180px + 12px + (100% - 180px - 24px) * ${trimStartFraction})`,
+            top: "39px",
+            height: "32px",
+          }}
+          onMouseDown={(e) => handleMouseDown(e, "start")}
+        />
+      )}
+
+      {isInView(trimEndFraction) && (
+        <div
+          className="trim-handle-overlay trim-end"
+          style={{
+            left: `calc(180px + 12px + (100% - 180px - 24px) * ${trimEndFraction})`,
+            top: "39px",
+            height: "32px",
+          }}
+          onMouseDown={(e) => handleMouseDown(e, "end")}
+        />
+      )}
 
       {/* Global playhead line that extends through all tracks */}
-      <div
-        className={`global-playhead-overlay ${
-          isDraggingPlayhead ? "dragging" : ""
-        }`}
-        style={{
-          left: `calc(180px + 12px + (100% - 180px - 24px) * ${
-            currentPercentage / 100
-          })`,
-        }}
-        onMouseDown={(e) => {
-          e.stopPropagation();
-          handleMouseDown(e, "playhead");
-        }}
-      >
-        <div className="playhead-handle-top">▼</div>
-      </div>
+      {isInView(currentFraction) && (
+        <div
+          className={`global-playhead-overlay ${
+            isDraggingPlayhead ? "dragging" : ""
+          }`}
+          style={{
+            left: `calc(180px + 12px + (100% - 180px - 24px) * ${currentFraction})`,
+          }}
+          onMouseDown={(e) => {
+            e.stopPropagation();
+            handleMouseDown(e, "playhead");
+          }}
+        >
+          <div className="playhead-handle-top">▼</div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from "react";
+import "../styles/TimelineMinimap.css";
+
+interface TimelineMinimapProps {
+  duration: number;
+  viewStart: number;
+  viewDuration: number;
+  currentTime: number;
+  trimStart: number;
+  trimEnd: number;
+  onViewStartChange: (start: number) => void;
+}
+
+const TimelineMinimap: React.FC<TimelineMinimapProps> = ({
+  duration,
+  viewStart,
+  viewDuration,
+  currentTime,
+  trimStart,
+  trimEnd,
+  onViewStartChange,
+}) => {
+  const minimapRef = useRef<HTMLDivElement>(null);
+  // Time under the cursor relative to viewStart while dragging the viewport
+  const [dragOffset, setDragOffset] = useState<number | null>(null);
+
+  const getTimeFromPosition = (clientX: number): number => {
+    if (!minimapRef.current || duration <= 0) return 0;
+    const rect = minimapRef.current.getBoundingClientRect();
+    const percentage = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return percentage * duration;
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const time = getTimeFromPosition(e.clientX);
+    const insideViewport = time >= viewStart && time <= viewStart + viewDuration;
+    // Clicking outside the viewport centers it there, then drags from the middle
+    const offset = insideViewport ? time - viewStart : viewDuration / 2;
+    if (!insideViewport) onViewStartChange(time - offset);
+    setDragOffset(offset);
+  };
+
+  useEffect(() => {
+    if (dragOffset === null) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      onViewStartChange(getTimeFromPosition(e.clientX) - dragOffset);
+    };
+    const handleMouseUp = () => setDragOffset(null);
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [dragOffset, onViewStartChange]);
+
+  if (duration <= 0) {
+    return <div className="timeline-minimap" />;
+  }
+
+  const toPercent = (time: number) => (time / duration) * 100;
+
+  return (
+    <div
+      ref={minimapRef}
+      className={`timeline-minimap ${dragOffset !== null ? "dragging" : ""}`}
+      onMouseDown={handleMouseDown}
+    >
+      <div
+        className="timeline-minimap-trim"
+        style={{
+          left: `${toPercent(trimStart)}%`,
+          width: `${toPercent(trimEnd - trimStart)}%`,
+        }}
+      />
+      <div
+        className="timeline-minimap-viewport"
+        style={{
+          left: `${toPercent(viewStart)}%`,
+          width: `${toPercent(viewDuration)}%`,
+        }}
+      />
+      <div
+        className="timeline-minimap-playhead"
+        style={{ left: `${toPercent(currentTime)}%` }}
+      />
+    </div>
+  );
+};
+
+export default TimelineMinimap;
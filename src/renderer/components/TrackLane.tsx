@@ -1,6 +1,21 @@
 import React, { useRef, useEffect, useState } from "react";
+import { AudioTrack, VolumeKeyframe } from "../types";
+import {
+  getCachedFilmstripFrame,
+  getFilmstripFrame,
+} from "../utils/filmstripCache";
+import {
+  MAX_KEYFRAME_GAIN,
+  getKeyframeGain,
+  setKeyframe,
+} from "../utils/audioEnvelope";
 import "../styles/TrackLane.css";
 
+// Target on-screen width of one filmstrip frame (16:9 at the lane height)
+const FILMSTRIP_TILE_WIDTH = 56;
+// Closer than this, neighbouring tiles would show the same frame anyway
+const MIN_FILMSTRIP_SPACING = 0.05;
+
 interface TrackLaneProps {
   type: "video" | "audio";
   name: string;
@@ -8,11 +23,30 @@ interface TrackLaneProps {
   duration: number;
   trimStart: number;
   trimEnd: number;
+  // Source for the filmstrip on the video lane
+  videoPath?: string;
+  // Visible window when the timeline is zoomed (defaults to the whole clip)
+  viewStart?: number;
+  viewEnd?: number;
   volume?: number;
   isMuted?: boolean;
+  isSolo?: boolean;
+  // Another track is soloed, so this one is not heard
+  isSilencedBySolo?: boolean;
+  fadeIn?: number;
+  fadeOut?: number;
+  normalize?: boolean;
+  volumeKeyframes?: VolumeKeyframe[];
   audioBuffer?: AudioBuffer;
+  // Clip time where the audio starts (added audio files)
+  audioOffset?: number;
+  // Added audio files can be moved and removed
+  isExternal?: boolean;
+  onRemoveTrack?: () => void;
   onVolumeChange?: (volume: number) => void;
   onMuteToggle?: () => void;
+  onSoloToggle?: (additive: boolean) => void;
+  onTrackEdit?: (changes: Partial<AudioTrack>) => void;
   onSeek?: (time: number) => void;
 }
 
@@ -23,15 +57,37 @@ const TrackLane: React.FC<TrackLaneProps> = ({
   duration,
   trimStart,
   trimEnd,
+  videoPath,
+  viewStart = 0,
+  viewEnd = duration,
   volume = 1.0,
   isMuted = false,
+  isSolo = false,
+  isSilencedBySolo = false,
+  fadeIn = 0,
+  fadeOut = 0,
+  normalize = false,
+  volumeKeyframes = [],
   audioBuffer,
+  audioOffset = 0,
+  isExternal = false,
+  onRemoveTrack,
   onVolumeChange,
   onMuteToggle,
+  onSoloToggle,
+  onTrackEdit,
   onSeek,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Index of the volume keyframe being dragged
+  const draggingKeyframeRef = useRef<number | null>(null);
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
+  // Draft track name while renaming, null otherwise
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [laneWidth, setLaneWidth] = useState(0);
+  // Bumped as filmstrip frames arrive; the frames themselves live in filmstripCache
+  const [, setFramesLoaded] = useState(0);
 
   useEffect(() => {
     if (type === "audio" && audioBuffer && canvasRef.current) {
@@ -39,7 +95,101 @@ const TrackLane: React.FC<TrackLaneProps> = ({
     } else if (type === "video" && canvasRef.current) {
       drawVideoTrack();
     }
-  }, [audioBuffer, duration, type, trimStart, trimEnd]);
+  }, [
+    audioBuffer,
+    audioOffset,
+    duration,
+    type,
+    trimStart,
+    trimEnd,
+    viewStart,
+    viewEnd,
+  ]);
+
+  // Match the canvas to its on-screen size so zoomed waveforms stay sharp
+  const fitCanvas = (canvas: HTMLCanvasElement) => {
+    const width = Math.round(canvas.clientWidth * window.devicePixelRatio);
+    if (width > 0 && canvas.width !== width) canvas.width = width;
+  };
+
+  const viewDuration = viewEnd - viewStart;
+
+  // Follow the lane width so the filmstrip density adapts to resizes
+  useEffect(() => {
+    const content = contentRef.current;
+    if (type !== "video" || !content) return;
+    const observer = new ResizeObserver(() => setLaneWidth(content.clientWidth));
+    observer.observe(content);
+    setLaneWidth(content.clientWidth);
+    return () => observer.disconnect();
+  }, [type]);
+
+  // Frame times on power-of-two subdivisions of the clip, so zooming in
+  // reuses the frames already fetched for coarser levels
+  const getFilmstripLayout = (): { spacing: number; times: number[] } => {
+    if (
+      type !== "video" ||
+      !videoPath ||
+      !duration ||
+      viewDuration <= 0 ||
+      laneWidth <= 0
+    ) {
+      return { spacing: 0, times: [] };
+    }
+    const tileCount = Math.max(1, Math.ceil(laneWidth / FILMSTRIP_TILE_WIDTH));
+    // Cap the level rather than the spacing, so every level stays a
+    // subdivision of the coarser ones
+    const maxLevel = Math.max(
+      0,
+      Math.floor(Math.log2(duration / MIN_FILMSTRIP_SPACING))
+    );
+    const level = Math.min(
+      maxLevel,
+      Math.max(0, Math.ceil(Math.log2((duration * tileCount) / viewDuration)))
+    );
+    const spacing = duration / 2 ** level;
+    const times: number[] = [];
+    for (let i = Math.floor(viewStart / spacing); i * spacing < viewEnd; i++) {
+      times.push(i * spacing);
+    }
+    return { spacing, times };
+  };
+
+  const filmstrip = getFilmstripLayout();
+  const filmstripKey = `${filmstrip.spacing}|${filmstrip.times[0]}|${filmstrip.times.length}`;
+
+  useEffect(() => {
+    if (!videoPath || filmstrip.times.length === 0) return;
+    let isCurrent = true;
+    // Wait for wheel zooming to settle before queueing frames
+    const timer = setTimeout(() => {
+      for (const time of filmstrip.times) {
+        if (getCachedFilmstripFrame(videoPath, time)) continue;
+        getFilmstripFrame(videoPath, time, () => isCurrent).then((framePath) => {
+          if (isCurrent && framePath) setFramesLoaded((n) => n + 1);
+        });
+      }
+    }, 150);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [videoPath, filmstripKey]);
+
+  // Until a tile's own frame arrives, show the frame from a coarser level
+  const findFilmstripFrame = (time: number): string | undefined => {
+    if (!videoPath) return undefined;
+    let spacing = filmstrip.spacing;
+    for (let level = 0; level < 8 && spacing <= duration; level++) {
+      const framePath = getCachedFilmstripFrame(
+        videoPath,
+        Math.floor(time / spacing + 1e-9) * spacing
+      );
+      if (framePath) return framePath;
+      spacing *= 2;
+    }
+    return undefined;
+  };
 
   const drawWaveform = () => {
     const canvas = canvasRef.current;
@@ -48,10 +198,23 @@ const TrackLane: React.FC<TrackLaneProps> = ({
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
+    fitCanvas(canvas);
     const width = canvas.width;
     const height = canvas.height;
     const data = audioBuffer.getChannelData(0);
-    const step = Math.ceil(data.length / width);
+    if (!duration || viewDuration <= 0) return;
+
+    // Only the samples inside the visible window (which may start before or
+    // end after an offset buffer)
+    const sampleRate = audioBuffer.sampleRate;
+    const firstSample = Math.floor((viewStart - audioOffset) * sampleRate);
+    const lastSample = Math.min(
+      data.length,
+      Math.ceil((viewEnd - audioOffset) * sampleRate)
+    );
+    const step = (viewDuration * sampleRate) / width;
+    // Zoomed out over long clips, sampling every sample per pixel gets slow
+    const stride = Math.max(1, Math.floor(step / 2000));
     const amp = height / 2;
 
     ctx.clearRect(0, 0, width, height);
@@ -64,11 +227,16 @@ const TrackLane: React.FC<TrackLaneProps> = ({
       let min = 1.0;
       let max = -1.0;
 
-      for (let j = 0; j < step; j++) {
-        const datum = data[i * step + j];
+      const from = Math.max(0, firstSample + Math.floor(i * step));
+      const to = Math.min(lastSample, firstSample + Math.floor((i + 1) * step));
+      if (from >= lastSample) break;
+      if (to <= 0) continue;
+      for (let j = from; j < Math.max(to, from + 1); j += stride) {
+        const datum = data[j];
         if (datum < min) min = datum;
         if (datum > max) max = datum;
       }
+      if (min > max) continue;
 
       const yMin = (1 + min) * amp;
       const yMax = (1 + max) * amp;
@@ -110,17 +278,19 @@ const TrackLane: React.FC<TrackLaneProps> = ({
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
+    fitCanvas(canvas);
     const width = canvas.width;
     const height = canvas.height;
 
     ctx.clearRect(0, 0, width, height);
 
     // Validate duration to avoid division by zero or NaN
-    if (!duration || duration <= 0 || !isFinite(duration)) return;
+    if (!duration || duration <= 0 || !isFinite(duration) || viewDuration <= 0)
+      return;
 
-    // Calculate active region (non-trimmed area)
-    const activeStartX = (trimStart / duration) * width;
-    const activeEndX = (trimEnd / duration) * width;
+    // Calculate active region (non-trimmed area) within the visible window
+    const activeStartX = ((trimStart - viewStart) / viewDuration) * width;
+    const activeEndX = ((trimEnd - viewStart) / viewDuration) * width;
     const activeWidth = activeEndX - activeStartX;
 
     // Validate calculated values
@@ -219,14 +389,202 @@ const TrackLane: React.FC<TrackLaneProps> = ({
     );
   };
 
-  const activeLeft = (trimStart / duration) * 100;
-  const activeWidth = ((trimEnd - trimStart) / duration) * 100;
+  // Where a pointer sits on the lane, as a clip time and a keyframe gain
+  const getEnvelopePosition = (
+    clientX: number,
+    clientY: number
+  ): VolumeKeyframe | null => {
+    const content = contentRef.current;
+    if (!content || viewDuration <= 0) return null;
+    const rect = content.getBoundingClientRect();
+    const fractionX = Math.max(
+      0,
+      Math.min(1, (clientX - rect.left) / rect.width)
+    );
+    const fractionY = Math.max(
+      0,
+      Math.min(1, (clientY - rect.top) / rect.height)
+    );
+    let gain = (1 - fractionY) * MAX_KEYFRAME_GAIN;
+    // Snap to unchanged (100%) like the volume slider
+    if (Math.abs(gain - 1) < 0.05) gain = 1;
+    return {
+      time: Math.max(
+        0,
+        Math.min(duration, viewStart + fractionX * viewDuration)
+      ),
+      volume: Math.round(gain * 100) / 100,
+    };
+  };
+
+  const handleEnvelopeDoubleClick = (e: React.MouseEvent) => {
+    if (type !== "audio" || !onTrackEdit) return;
+    const keyframe = getEnvelopePosition(e.clientX, e.clientY);
+    if (!keyframe) return;
+    onTrackEdit({ volumeKeyframes: setKeyframe(volumeKeyframes, keyframe) });
+  };
+
+  const handleKeyframePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    index: number
+  ) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingKeyframeRef.current = index;
+  };
+
+  const handleKeyframePointerMove = (
+    e: React.PointerEvent<HTMLDivElement>,
+    index: number
+  ) => {
+    if (draggingKeyframeRef.current !== index || !onTrackEdit) return;
+    const position = getEnvelopePosition(e.clientX, e.clientY);
+    if (!position) return;
+
+    // Stay between the neighbouring keyframes so the order never changes
+    const previous = volumeKeyframes[index - 1];
+    const next = volumeKeyframes[index + 1];
+    const time = Math.max(
+      previous ? previous.time + 0.001 : 0,
+      Math.min(next ? next.time - 0.001 : duration, position.time)
+    );
+    onTrackEdit({
+      volumeKeyframes: volumeKeyframes.map((keyframe, i) =>
+        i === index ? { time, volume: position.volume } : keyframe
+      ),
+    });
+  };
+
+  const handleKeyframePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    draggingKeyframeRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleRemoveKeyframe = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    onTrackEdit?.({
+      volumeKeyframes: volumeKeyframes.filter((_, i) => i !== index),
+    });
+  };
+
+  const handleFadeChange = (
+    field: "fadeIn" | "fadeOut",
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const seconds = parseFloat(e.target.value);
+    onTrackEdit?.({
+      [field]: Number.isFinite(seconds) ? Math.max(0, seconds) : 0,
+    });
+  };
+
+  // Negative offsets start the clip partway into the file
+  const handleOffsetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const seconds = parseFloat(e.target.value);
+    onTrackEdit?.({ offset: Number.isFinite(seconds) ? seconds : 0 });
+  };
+
+  const canEditTrack = type === "audio" && !!onTrackEdit;
+
+  const handleCommitRename = () => {
+    const trimmed = draftName?.trim();
+    if (trimmed && trimmed !== name) {
+      onTrackEdit?.({ name: trimmed });
+    }
+    setDraftName(null);
+  };
+
+  const toViewX = (time: number) => ((time - viewStart) / viewDuration) * 100;
+  const toGainY = (gain: number) => (1 - gain / MAX_KEYFRAME_GAIN) * 100;
+
+  // Keyframe line across the visible window, plus the shaded fade ramps
+  const renderEnvelope = () => {
+    if (type !== "audio" || viewDuration <= 0) return null;
+
+    const rangeLength = Math.max(0, trimEnd - trimStart);
+    const fadeInEnd = trimStart + Math.min(fadeIn, rangeLength);
+    const fadeOutStart = trimEnd - Math.min(fadeOut, rangeLength);
+    const linePoints =
+      volumeKeyframes.length > 0
+        ? [
+            {
+              time: viewStart,
+              volume: getKeyframeGain(volumeKeyframes, viewStart),
+            },
+            ...volumeKeyframes.filter(
+              (k) => k.time > viewStart && k.time < viewEnd
+            ),
+            {
+              time: viewEnd,
+              volume: getKeyframeGain(volumeKeyframes, viewEnd),
+            },
+          ]
+        : [];
+
+    return (
+      <div className="volume-envelope">
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none">
+          {fadeIn > 0 && (
+            <polygon
+              className="volume-envelope-fade"
+              points={[
+                `${toViewX(trimStart)},0`,
+                `${toViewX(fadeInEnd)},0`,
+                `${toViewX(trimStart)},100`,
+              ].join(" ")}
+            />
+          )}
+          {fadeOut > 0 && (
+            <polygon
+              className="volume-envelope-fade"
+              points={[
+                `${toViewX(fadeOutStart)},0`,
+                `${toViewX(trimEnd)},0`,
+                `${toViewX(trimEnd)},100`,
+              ].join(" ")}
+            />
+          )}
+          {linePoints.length > 0 && (
+            <polyline
+              className="volume-envelope-line"
+              points={linePoints
+                .map((k) => `${toViewX(k.time)},${toGainY(k.volume)}`)
+                .join(" ")}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {volumeKeyframes.map((keyframe, index) =>
+          keyframe.time < viewStart || keyframe.time > viewEnd ? null : (
+            <div
+              key={index}
+              className="volume-envelope-point"
+              style={{
+                left: `${toViewX(keyframe.time)}%`,
+                top: `${toGainY(keyframe.volume)}%`,
+                borderColor: color,
+              }}
+              title={`${Math.round(
+                keyframe.volume * 100
+              )}% (double-click to remove)`}
+              onPointerDown={(e) => handleKeyframePointerDown(e, index)}
+              onPointerMove={(e) => handleKeyframePointerMove(e, index)}
+              onPointerUp={handleKeyframePointerUp}
+              onDoubleClick={(e) => handleRemoveKeyframe(e, index)}
+            />
+          )
+        )}
+      </div>
+    );
+  };
+
+  const activeLeft = ((trimStart - viewStart) / viewDuration) * 100;
+  const activeWidth = ((trimEnd - trimStart) / viewDuration) * 100;
 
   return (
     <div
       className={`track-lane ${
         type === "video" ? "video-track" : "audio-track"
-      }`}
+      } ${isSilencedBySolo ? "solo-silenced" : ""}`}
     >
       <div className="track-header">
         {type === "video" ? (
@@ -261,28 +619,156 @@ const TrackLane: React.FC<TrackLaneProps> = ({
             </button>
             {showVolumeSlider && (
               <div className="volume-slider-popup">
-                <input
-                  type="range"
-                  min="0"
-                  max="2"
-                  step="0.01"
-                  value={volume}
-                  onChange={handleVolumeChange}
-                  className="volume-slider-horizontal"
-                />
-                <span className="volume-value">
-                  {Math.round(volume * 100)}%
-                </span>
+                <div className="volume-slider-row">
+                  <input
+                    type="range"
+                    min="0"
+                    max="2"
+                    step="0.01"
+                    value={volume}
+                    onChange={handleVolumeChange}
+                    className="volume-slider-horizontal"
+                  />
+                  <span className="volume-value">
+                    {Math.round(volume * 100)}%
+                  </span>
+                </div>
+                {onTrackEdit && (
+                  <div className="track-audio-options">
+                    <label className="track-option">
+                      Fade in
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={fadeIn}
+                        onChange={(e) => handleFadeChange("fadeIn", e)}
+                      />
+                      s
+                    </label>
+                    <label className="track-option">
+                      Fade out
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={fadeOut}
+                        onChange={(e) => handleFadeChange("fadeOut", e)}
+                      />
+                      s
+                    </label>
+                    <label className="track-option track-option-toggle">
+                      <input
+                        type="checkbox"
+                        checked={normalize}
+                        onChange={(e) =>
+                          onTrackEdit({ normalize: e.target.checked })
+                        }
+                      />
+                      Normalize loudness (EBU R128)
+                    </label>
+                    {volumeKeyframes.length > 0 ? (
+                      <button
+                        className="track-option-btn"
+                        onClick={() => onTrackEdit({ volumeKeyframes: [] })}
+                      >
+                        Clear {volumeKeyframes.length} volume point
+                        {volumeKeyframes.length === 1 ? "" : "s"}
+                      </button>
+                    ) : (
+                      <div className="track-option-hint">
+                        Double-click the waveform to add volume points
+                      </div>
+                    )}
+                    {isExternal && (
+                      <>
+                        <label className="track-option">
+                          Starts at
+                          <input
+                            type="number"
+                            step="0.1"
+                            value={Math.round(audioOffset * 1000) / 1000}
+                            onChange={handleOffsetChange}
+                          />
+                          s
+                        </label>
+                        {onRemoveTrack && (
+                          <button
+                            className="track-option-btn"
+                            onClick={onRemoveTrack}
+                          >
+                            Remove track
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
         )}
         <div className="track-info">
-          <div className="track-name">{name}</div>
+          {canEditTrack && (
+            <label
+              className="track-color-swatch"
+              style={{ backgroundColor: color }}
+              title="Track color"
+            >
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => onTrackEdit?.({ color: e.target.value })}
+              />
+            </label>
+          )}
+          {draftName !== null ? (
+            <input
+              className="track-name-input"
+              value={draftName}
+              autoFocus
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={handleCommitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleCommitRename();
+                if (e.key === "Escape") setDraftName(null);
+              }}
+            />
+          ) : (
+            <div
+              className="track-name"
+              title={canEditTrack ? `${name} (double-click to rename)` : name}
+              onDoubleClick={
+                canEditTrack ? () => setDraftName(name) : undefined
+              }
+            >
+              {name}
+            </div>
+          )}
+          {normalize && (
+            <span className="track-badge" title="Loudness normalized">
+              LN
+            </span>
+          )}
+          {type === "audio" && onSoloToggle && (
+            <button
+              className={`track-solo-btn ${isSolo ? "active" : ""}`}
+              onClick={(e) =>
+                onSoloToggle(e.ctrlKey || e.metaKey || e.shiftKey)
+              }
+              title="Solo (Ctrl+click to solo alongside other tracks)"
+            >
+              S
+            </button>
+          )}
         </div>
       </div>
 
-      <div className="track-content">
+      <div
+        ref={contentRef}
+        className="track-content"
+        onDoubleClick={handleEnvelopeDoubleClick}
+      >
         <div
           className="track-background"
           style={{
@@ -295,6 +781,27 @@ const TrackLane: React.FC<TrackLaneProps> = ({
           }}
         />
 
+        {filmstrip.times.length > 0 && (
+          <div className="track-filmstrip">
+            {filmstrip.times.map((time) => {
+              const framePath = findFilmstripFrame(time);
+              if (!framePath) return null;
+              return (
+                <img
+                  key={time}
+                  src={window.path.toLocalURL(framePath)}
+                  alt=""
+                  draggable={false}
+                  style={{
+                    left: `${((time - viewStart) / viewDuration) * 100}%`,
+                    width: `${(filmstrip.spacing / viewDuration) * 100}%`,
+                  }}
+                />
+              );
+            })}
+          </div>
+        )}
+
         <canvas
           ref={canvasRef}
           className="track-canvas-full"
@@ -302,6 +809,8 @@ const TrackLane: React.FC<TrackLaneProps> = ({
           height={40}
         />
 
+        {renderEnvelope()}
+
         {type === "video" && (
           <div
             className="track-active-area"
@@ -0,0 +1,286 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AudioTrack, Transcript, TranscriptionSettings } from "../types";
+import "../styles/TranscriptPanel.css";
+
+const api = window.api;
+const path = window.path;
+
+interface TranscriptPanelProps {
+  videoPath: string;
+  // Empty until the clip's hash is known
+  contentHash: string;
+  // The clip's own tracks can be transcribed; added audio files can't
+  audioTracks: AudioTrack[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  videoPath,
+  contentHash,
+  audioTracks,
+  currentTime,
+  onSeek,
+}) => {
+  const sourceTracks = audioTracks.filter((track) => !track.externalPath);
+  const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [trackIndex, setTrackIndex] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<TranscriptionSettings | null>(null);
+  const [engines, setEngines] = useState<Array<{ id: string; name: string }>>(
+    []
+  );
+  const [showSettings, setShowSettings] = useState(false);
+  const activeLineRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    api
+      .getTranscriptionSettings()
+      .then((result) => {
+        setSettings(result.settings);
+        setEngines(result.engines);
+        if (!result.settings.binaryPath) setShowSettings(true);
+      })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    setTranscripts([]);
+    setError(null);
+    if (!contentHash) return;
+    api
+      .getTranscripts(contentHash)
+      .then((list) => {
+        setTranscripts(list);
+        if (list.length > 0) setTrackIndex(list[0].trackIndex);
+      })
+      .catch(() => {});
+  }, [contentHash]);
+
+  useEffect(() => {
+    return api.on("transcription-progress", (payload: any) => {
+      if (
+        payload?.contentHash === contentHash &&
+        payload?.trackIndex === trackIndex
+      ) {
+        setProgress(payload.percent);
+      }
+    });
+  }, [contentHash, trackIndex]);
+
+  const transcript = transcripts.find((t) => t.trackIndex === trackIndex);
+  const activeLine = transcript
+    ? transcript.segments.findIndex(
+        (segment) => currentTime >= segment.start && currentTime < segment.end
+      )
+    : -1;
+
+  // Keep the spoken line in view during playback
+  useEffect(() => {
+    activeLineRef.current?.scrollIntoView({ block: "nearest" });
+  }, [activeLine]);
+
+  const handleSettingsChange = async (
+    changes: Partial<TranscriptionSettings>
+  ) => {
+    setSettings(await api.setTranscriptionSettings(changes));
+  };
+
+  const handleChooseFile = async (kind: "binary" | "model") => {
+    const file = await api.selectTranscriberFile(kind);
+    if (!file) return;
+    await handleSettingsChange(
+      kind === "binary" ? { binaryPath: file } : { modelPath: file }
+    );
+  };
+
+  const handleTranscribe = async () => {
+    if (!contentHash) return;
+    setError(null);
+    setProgress(0);
+    try {
+      const result = await api.transcribeClip(
+        videoPath,
+        contentHash,
+        trackIndex
+      );
+      setTranscripts((prev) => [
+        ...prev.filter((t) => t.trackIndex !== result.trackIndex),
+        result,
+      ]);
+    } catch (err: any) {
+      // Strip Electron's "Error invoking remote method ..." prefix
+      const message = String(err?.message || err).replace(/^.*Error: /, "");
+      setError(message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExportSrt = async () => {
+    if (!contentHash || !transcript) return;
+    const base = path.basename(videoPath, path.extname(videoPath));
+    const result = await api.selectSaveLocation(
+      path.join(path.dirname(videoPath), `${base}.srt`),
+      [{ name: "Subtitles", extensions: ["srt"] }]
+    );
+    if (result.canceled || !result.filePath) return;
+    try {
+      await api.exportTranscriptSrt(contentHash, trackIndex, result.filePath);
+    } catch (err: any) {
+      setError(String(err?.message || err).replace(/^.*Error: /, ""));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!contentHash || !transcript) return;
+    await api.deleteTranscript(contentHash, trackIndex);
+    setTranscripts((prev) => prev.filter((t) => t.trackIndex !== trackIndex));
+  };
+
+  const fileName = (filePath: string) =>
+    filePath ? path.basename(filePath) : "Not set";
+
+  return (
+    <div className="transcript-panel">
+      <div className="transcript-header">
+        <select
+          value={trackIndex}
+          onChange={(e) => setTrackIndex(Number(e.target.value))}
+          disabled={progress !== null}
+        >
+          {sourceTracks.map((track) => (
+            <option key={track.index} value={track.index}>
+              {track.name}
+            </option>
+          ))}
+        </select>
+        {progress !== null ? (
+          <button
+            className="transcript-btn"
+            onClick={() =>
+              contentHash && api.cancelTranscription(contentHash, trackIndex)
+            }
+          >
+            Cancel ({Math.round(progress)}%)
+          </button>
+        ) : (
+          <button
+            className="transcript-btn primary"
+            onClick={handleTranscribe}
+            disabled={!contentHash || sourceTracks.length === 0}
+          >
+            {transcript ? "Redo" : "Transcribe"}
+          </button>
+        )}
+        <button
+          className={`transcript-btn ${showSettings ? "active" : ""}`}
+          onClick={() => setShowSettings(!showSettings)}
+          title="Transcription engine settings"
+        >
+          ⚙
+        </button>
+      </div>
+
+      {showSettings && settings && (
+        <div className="transcript-settings">
+          <label>
+            Engine
+            <select
+              value={settings.engine}
+              onChange={(e) => handleSettingsChange({ engine: e.target.value })}
+            >
+              {engines.map((engine) => (
+                <option key={engine.id} value={engine.id}>
+                  {engine.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Program
+            <button
+              className="transcript-file-btn"
+              onClick={() => handleChooseFile("binary")}
+              title={settings.binaryPath}
+            >
+              {fileName(settings.binaryPath)}
+            </button>
+          </label>
+          <label>
+            Model
+            <button
+              className="transcript-file-btn"
+              onClick={() => handleChooseFile("model")}
+              title={settings.modelPath}
+            >
+              {fileName(settings.modelPath)}
+            </button>
+          </label>
+          <label>
+            Language
+            <input
+              type="text"
+              value={settings.language}
+              placeholder="auto"
+              onChange={(e) =>
+                setSettings({ ...settings, language: e.target.value })
+              }
+              onBlur={(e) =>
+                handleSettingsChange({
+                  language: e.target.value.trim() || "auto",
+                })
+              }
+            />
+          </label>
+        </div>
+      )}
+
+      {error && <p className="transcript-error">{error}</p>}
+
+      <div className="transcript-lines">
+        {transcript ? (
+          transcript.segments.map((segment, i) => (
+            <button
+              key={i}
+              ref={i === activeLine ? activeLineRef : undefined}
+              className={`transcript-line ${i === activeLine ? "active" : ""}`}
+              onClick={() => onSeek(segment.start)}
+            >
+              <span className="transcript-line-time">
+                {formatTime(segment.start)}
+              </span>
+              <span className="transcript-line-text">{segment.text}</span>
+            </button>
+          ))
+        ) : (
+          <p className="transcript-empty">
+            {progress !== null
+              ? "Transcribing…"
+              : "No transcript for this track yet."}
+          </p>
+        )}
+      </div>
+
+      {transcript && (
+        <div className="transcript-footer">
+          <button className="transcript-btn" onClick={handleExportSrt}>
+            Export SRT
+          </button>
+          <button className="transcript-btn" onClick={handleDelete}>
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
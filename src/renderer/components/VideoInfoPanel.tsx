@@ -1,6 +1,12 @@
-import React, { useState } from "react";
-import { VideoMetadata } from "../types";
+import React, { useEffect, useState } from "react";
+import { VideoMetadata, Tag, SubtitleEdit } from "../types";
 import { useGlowEffect } from "../hooks/useGlowEffect";
+import {
+  describeFrameRate,
+  formatTimecode,
+  getFrameRate,
+} from "../utils/frameRate";
+import { getSubtitleStreams, isImageSubtitle } from "../utils/subtitles";
 import "../styles/VideoInfoPanel.css";
 
 interface VideoInfoPanelProps {
@@ -11,6 +17,18 @@ interface VideoInfoPanelProps {
   trimEnd: number;
   isFavorite: boolean;
   onToggleFavorite: () => void;
+  tags?: Tag[];
+  availableTags?: Tag[];
+  onAddTag?: (name: string) => void;
+  onRemoveTag?: (tag: Tag) => void;
+  // Free-form notes, saved when the field loses focus
+  notes?: string;
+  onNotesChange?: (notes: string) => void;
+  // Subtitle track shown in the preview and carried into exports
+  subtitles?: SubtitleEdit | null;
+  subtitleError?: string | null;
+  onSubtitlesChange?: (subtitles: SubtitleEdit | null) => void;
+  onImportSubtitles?: () => void;
 }
 
 const VideoInfoPanel: React.FC<VideoInfoPanelProps> = ({
@@ -21,11 +39,34 @@ const VideoInfoPanel: React.FC<VideoInfoPanelProps> = ({
   trimEnd,
   isFavorite,
   onToggleFavorite,
+  tags = [],
+  availableTags = [],
+  onAddTag,
+  onRemoveTag,
+  notes = "",
+  onNotesChange,
+  subtitles = null,
+  subtitleError = null,
+  onSubtitlesChange,
+  onImportSubtitles,
 }) => {
   // Initialize glow effect system
   useGlowEffect();
 
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [newTagName, setNewTagName] = useState("");
+  const [notesDraft, setNotesDraft] = useState(notes);
+
+  useEffect(() => {
+    setNotesDraft(notes);
+  }, [notes]);
+
+  const handleAddTag = () => {
+    const name = newTagName.trim();
+    if (!name || !onAddTag) return;
+    onAddTag(name);
+    setNewTagName("");
+  };
 
   const formatFileSize = (bytes?: number): string => {
     if (!bytes) return "N/A";
@@ -61,7 +102,22 @@ const VideoInfoPanel: React.FC<VideoInfoPanelProps> = ({
     return videoStream;
   };
 
+  // Picking a track keeps the export mode already chosen
+  const handleSelectSubtitleStream = (streamIndex: number) => {
+    if (!onSubtitlesChange) return;
+    onSubtitlesChange(
+      subtitles?.streamIndex === streamIndex
+        ? null
+        : { streamIndex, mode: subtitles?.mode ?? "none" }
+    );
+  };
+
+  const getFileName = (filePath: string) =>
+    filePath.split(/[\\/]/).pop() || filePath;
+
   const videoInfo = getVideoInfo();
+  const subtitleStreams = getSubtitleStreams(metadata);
+  const frameRate = getFrameRate(metadata);
   const duration = metadata?.format.duration || 0;
   const trimDuration = trimEnd - trimStart;
 
@@ -159,6 +215,13 @@ const VideoInfoPanel: React.FC<VideoInfoPanelProps> = ({
                   </span>
                 </div>
 
+                <div className="property-item">
+                  <span className="property-label">Frame Rate</span>
+                  <span className="property-value">
+                    {videoInfo ? describeFrameRate(frameRate) : "N/A"}
+                  </span>
+                </div>
+
                 <div className="property-item">
                   <span className="property-label">Duration</span>
                   <span className="property-value">{formatTime(duration)}</span>
@@ -181,23 +244,177 @@ const VideoInfoPanel: React.FC<VideoInfoPanelProps> = ({
                 <div className="property-item">
                   <span className="property-label">Trim Start</span>
                   <span className="property-value">
-                    {formatTime(trimStart)}
+                    {formatTimecode(trimStart, frameRate.fps)}
                   </span>
                 </div>
 
                 <div className="property-item">
                   <span className="property-label">Trim End</span>
-                  <span className="property-value">{formatTime(trimEnd)}</span>
+                  <span className="property-value">
+                    {formatTimecode(trimEnd, frameRate.fps)}
+                  </span>
                 </div>
 
                 <div className="property-item">
                   <span className="property-label">Trim Duration</span>
                   <span className="property-value highlight">
-                    {formatTime(trimDuration)}
+                    {formatTimecode(trimDuration, frameRate.fps)}
                   </span>
                 </div>
               </div>
             </div>
+
+            {onAddTag && (
+              <div className="panel-section clip-tags">
+                <div className="section-header">
+                  <h3>TAGS</h3>
+                </div>
+
+                {tags.length > 0 && (
+                  <div className="clip-tag-list">
+                    {tags.map((tag) => (
+                      <span key={tag.id} className="clip-tag">
+                        {tag.name}
+                        {onRemoveTag && (
+                          <button
+                            className="clip-tag-remove"
+                            onClick={() => onRemoveTag(tag)}
+                            title="Remove tag"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <input
+                  type="text"
+                  className="tag-input"
+                  placeholder="Add a tag..."
+                  list="clip-tag-suggestions"
+                  value={newTagName}
+                  onChange={(e) => setNewTagName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleAddTag();
+                  }}
+                />
+                <datalist id="clip-tag-suggestions">
+                  {availableTags
+                    .filter((tag) => !tags.some((t) => t.id === tag.id))
+                    .map((tag) => (
+                      <option key={tag.id} value={tag.name} />
+                    ))}
+                </datalist>
+              </div>
+            )}
+
+            {onNotesChange && (
+              <div className="panel-section clip-notes">
+                <div className="section-header">
+                  <h3>NOTES</h3>
+                </div>
+
+                <textarea
+                  className="description-input"
+                  placeholder="Add notes (searchable from the library)..."
+                  value={notesDraft}
+                  onChange={(e) => setNotesDraft(e.target.value)}
+                  onBlur={() => {
+                    if (notesDraft !== notes) onNotesChange(notesDraft);
+                  }}
+                />
+              </div>
+            )}
+
+            {onSubtitlesChange && (
+              <div className="panel-section clip-subtitles">
+                <div className="section-header">
+                  <h3>SUBTITLES</h3>
+                </div>
+
+                <div className="subtitle-track-list">
+                  {subtitleStreams.map((stream, i) => {
+                    const isImage = isImageSubtitle(stream.codec_name);
+                    return (
+                      <button
+                        key={i}
+                        className={`subtitle-track ${
+                          subtitles?.streamIndex === i ? "active" : ""
+                        }`}
+                        onClick={() => handleSelectSubtitleStream(i)}
+                        disabled={isImage}
+                        title={
+                          isImage
+                            ? "Image subtitles can't be previewed or exported"
+                            : "Show this track"
+                        }
+                      >
+                        <span className="subtitle-track-name">
+                          {stream.tags?.title || `Track ${i + 1}`}
+                        </span>
+                        <span className="subtitle-track-meta">
+                          {[stream.tags?.language, stream.codec_name]
+                            .filter(Boolean)
+                            .join(" · ")
+                            .toUpperCase()}
+                        </span>
+                      </button>
+                    );
+                  })}
+                  {subtitles?.filePath && (
+                    <div className="subtitle-track active">
+                      <span className="subtitle-track-name">
+                        {getFileName(subtitles.filePath)}
+                      </span>
+                      <button
+                        className="clip-tag-remove"
+                        onClick={() => onSubtitlesChange(null)}
+                        title="Remove imported subtitles"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  )}
+                  {subtitleStreams.length === 0 && !subtitles?.filePath && (
+                    <p className="subtitle-empty">No subtitle tracks</p>
+                  )}
+                </div>
+
+                {subtitleError && (
+                  <p className="subtitle-error">{subtitleError}</p>
+                )}
+
+                {subtitles && (
+                  <label className="subtitle-mode">
+                    In exports
+                    <select
+                      value={subtitles.mode}
+                      onChange={(e) =>
+                        onSubtitlesChange({
+                          ...subtitles,
+                          mode: e.target.value as SubtitleEdit["mode"],
+                        })
+                      }
+                    >
+                      <option value="none">Left out</option>
+                      <option value="soft">Soft track (MP4, MOV, MKV)</option>
+                      <option value="burn">Burned in</option>
+                    </select>
+                  </label>
+                )}
+
+                {onImportSubtitles && (
+                  <button
+                    className="subtitle-import-btn"
+                    onClick={onImportSubtitles}
+                  >
+                    Import SRT/VTT…
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,9 +1,19 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   VideoColorSampler,
   ColorRGB,
   MultiZoneColors,
 } from "../utils/colorSampler";
+import { CropRect, TextOverlay, TransformEdit } from "../types";
+import {
+  FULL_FRAME,
+  getAspectRatio,
+  getQuarterTurns,
+  getRotatedSize,
+  getTransformCss,
+} from "../utils/crop";
+import CropOverlay from "./CropOverlay";
+import TextOverlayLayer from "./TextOverlayLayer";
 import "../styles/VideoPlayer.css";
 
 interface VideoPlayerProps {
@@ -15,6 +25,21 @@ interface VideoPlayerProps {
   onEnded: () => void;
   onColorChange?: (colors: MultiZoneColors) => void;
   playerRef?: React.RefObject<HTMLDivElement | null>;
+  // Rotation/flip preview and the crop, drawn over the picture
+  transform?: TransformEdit;
+  // Intrinsic size of the video, needed to lay out rotation and crop
+  videoSize?: { width: number; height: number } | null;
+  isCropping?: boolean;
+  onCropChange?: (crop: CropRect) => void;
+  // Text drawn over the cropped frame; draggable while editing text
+  overlays?: TextOverlay[];
+  currentTime?: number;
+  isEditingText?: boolean;
+  selectedOverlayId?: string | null;
+  onSelectOverlay?: (id: string) => void;
+  onOverlayChange?: (overlay: TextOverlay) => void;
+  // Subtitle showing at the current time
+  subtitleText?: string | null;
 }
 
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
@@ -26,11 +51,34 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   onEnded,
   onColorChange,
   playerRef,
+  transform = {},
+  videoSize,
+  isCropping = false,
+  onCropChange,
+  overlays = [],
+  currentTime = 0,
+  isEditingText = false,
+  selectedOverlayId = null,
+  onSelectOverlay,
+  onOverlayChange,
+  subtitleText = null,
 }) => {
   const internalPlayerRef = useRef<HTMLDivElement>(null);
   const actualPlayerRef = playerRef || internalPlayerRef;
   const samplerRef = useRef<VideoColorSampler | null>(null);
   const animationFrameRef = useRef<number | undefined>(undefined);
+  const [playerSize, setPlayerSize] = useState({ width: 0, height: 0 });
+
+  // The rotated frame is fitted to the player by hand, so follow its size
+  useEffect(() => {
+    const player = actualPlayerRef.current;
+    if (!player) return;
+    const observer = new ResizeObserver(() =>
+      setPlayerSize({ width: player.clientWidth, height: player.clientHeight })
+    );
+    observer.observe(player);
+    return () => observer.disconnect();
+  }, [actualPlayerRef]);
 
   useEffect(() => {
     samplerRef.current = new VideoColorSampler();
@@ -116,9 +164,70 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     });
   };
 
+  // Where the rotated frame sits in the player, and how the unrotated video
+  // element has to be placed so that rotating it about its center fills that
+  const getFrameLayout = () => {
+    if (!videoSize || !videoSize.width || !playerSize.width) return null;
+    const rotated = getRotatedSize(videoSize, transform);
+    const scale = Math.min(
+      playerSize.width / rotated.width,
+      playerSize.height / rotated.height
+    );
+    const frame = {
+      width: rotated.width * scale,
+      height: rotated.height * scale,
+    };
+    const video = {
+      width: videoSize.width * scale,
+      height: videoSize.height * scale,
+    };
+    return {
+      rotated,
+      frameStyle: {
+        left: (playerSize.width - frame.width) / 2,
+        top: (playerSize.height - frame.height) / 2,
+        width: frame.width,
+        height: frame.height,
+      },
+      videoStyle: {
+        position: "absolute" as const,
+        left: (playerSize.width - video.width) / 2,
+        top: (playerSize.height - video.height) / 2,
+        width: video.width,
+        height: video.height,
+        transform: getTransformCss(transform),
+      },
+    };
+  };
+
+  const layout = getFrameLayout();
+  const isReoriented =
+    getQuarterTurns(transform) !== 0 || !!transform.flipH || !!transform.flipV;
+  const showCrop = !!layout && (isCropping || !!transform.crop);
+  // Text is placed on the cropped frame, so hide it while the crop changes
+  const showText =
+    !!layout &&
+    !isCropping &&
+    (overlays.length > 0 || isEditingText || !!subtitleText);
+
+  // The cropped frame's area in the player
+  const getTextLayerStyle = () => {
+    if (!layout) return undefined;
+    const crop = transform.crop ?? FULL_FRAME;
+    const frame = layout.frameStyle;
+    return {
+      left: frame.left + crop.x * frame.width,
+      top: frame.top + crop.y * frame.height,
+      width: crop.width * frame.width,
+      height: crop.height * frame.height,
+    };
+  };
+  const textLayerStyle = getTextLayerStyle();
+
   return (
     <div className="video-player" ref={actualPlayerRef}>
       <video
+        style={layout && isReoriented ? layout.videoStyle : undefined}
         ref={videoRef}
         src={window.path.toLocalURL(videoPath)}
         onTimeUpdate={onTimeUpdate}
@@ -129,6 +238,39 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         muted={true}
         crossOrigin="anonymous"
       />
+      {layout && showCrop && (
+        <div className="video-crop-frame" style={layout.frameStyle}>
+          <CropOverlay
+            crop={transform.crop ?? FULL_FRAME}
+            aspect={getAspectRatio(transform.aspect)}
+            frameWidth={layout.rotated.width}
+            frameHeight={layout.rotated.height}
+            isEditing={isCropping}
+            onChange={onCropChange}
+          />
+        </div>
+      )}
+      {showText && textLayerStyle && (
+        <div className="video-text-frame" style={textLayerStyle}>
+          <TextOverlayLayer
+            overlays={overlays}
+            currentTime={currentTime}
+            height={textLayerStyle.height}
+            isEditing={isEditingText}
+            selectedId={selectedOverlayId}
+            onSelect={onSelectOverlay}
+            onChange={onOverlayChange}
+          />
+          {subtitleText && (
+            <div
+              className="video-subtitle"
+              style={{ fontSize: textLayerStyle.height * 0.05 }}
+            >
+              {subtitleText}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
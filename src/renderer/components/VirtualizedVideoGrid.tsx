@@ -1,6 +1,6 @@
 import React, { useRef, useEffect, useState, useCallback } from "react";
 import { useVirtualizer, type VirtualItem } from "@tanstack/react-virtual";
-import { VideoFile, VideoFileWithMetadata } from "../types";
+import { HighlightPart, VideoFile, VideoFileWithMetadata } from "../types";
 import "../styles/VideoGrid.css";
 import LazyThumbnail from "./LazyThumbnail";
 
@@ -26,6 +26,18 @@ interface VideoCardProps {
 const CARD_MIN_WIDTH = 280;
 const CARD_GAP = 24;
 const ROW_GAP = 24;
+const MAX_VISIBLE_TAGS = 3;
+
+const renderHighlighted = (parts: HighlightPart[]) =>
+  parts.map((part, i) =>
+    part.match ? (
+      <mark key={i} className="search-highlight">
+        {part.text}
+      </mark>
+    ) : (
+      <React.Fragment key={i}>{part.text}</React.Fragment>
+    )
+  );
 
 // VideoCard component
 const VideoCard: React.FC<VideoCardProps> = ({
@@ -307,6 +319,26 @@ const VideoCard: React.FC<VideoCardProps> = ({
                 {formatDuration(displayDuration)}
               </div>
             )}
+            {videoWithMeta.tags && videoWithMeta.tags.length > 0 && (
+              <div className="tag-chips">
+                {videoWithMeta.tags.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
+                  <span key={tag.id} className="tag-chip" title={tag.name}>
+                    {tag.name}
+                  </span>
+                ))}
+                {videoWithMeta.tags.length > MAX_VISIBLE_TAGS && (
+                  <span
+                    className="tag-chip more"
+                    title={videoWithMeta.tags
+                      .slice(MAX_VISIBLE_TAGS)
+                      .map((t) => t.name)
+                      .join(", ")}
+                  >
+                    +{videoWithMeta.tags.length - MAX_VISIBLE_TAGS}
+                  </span>
+                )}
+              </div>
+            )}
           </LazyThumbnail>
           <button
             className={`favorite-button ${
@@ -374,49 +406,59 @@ const VideoCard: React.FC<VideoCardProps> = ({
 
         <div className="video-info">
           <h3 className="video-name" title={video.name}>
-            {video.name}
+            {videoWithMeta.searchMatch?.name
+              ? renderHighlighted(videoWithMeta.searchMatch.name)
+              : video.name}
           </h3>
-          <div className="video-meta">
-            <span className="meta-item">
-              <svg
-                className="meta-icon"
-                xmlns="http://www.w3.org/2000/svg"
-                width="24"
-                height="24"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              >
-                <path d="M8 2v4" />
-                <path d="M16 2v4" />
-                <rect width="18" height="18" x="3" y="4" rx="2" />
-                <path d="M3 10h18" />
-              </svg>
-              {formatDate(video.created)}
-            </span>
-            <span className="meta-item">
-              <svg
-                className="meta-icon"
-                xmlns="http://www.w3.org/2000/svg"
-                width="24"
-                height="24"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              >
-                <path d="M15.2 3a2 2 0 0 1 1.4.6l3.8 3.8a2 2 0 0 1 .6 1.4V19a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2z" />
-                <path d="M17 21v-7a1 1 0 0 0-1-1H8a1 1 0 0 0-1 1v7" />
-                <path d="M7 3v4a1 1 0 0 0 1 1h7" />
-              </svg>
-              {formatFileSize(video.size)}
-            </span>
-          </div>
+          {videoWithMeta.searchMatch?.snippet ? (
+            // Where the search hit in the notes or transcript, in place of
+            // date and size so the card keeps its height
+            <div className="video-meta search-snippet">
+              {renderHighlighted(videoWithMeta.searchMatch.snippet)}
+            </div>
+          ) : (
+            <div className="video-meta">
+              <span className="meta-item">
+                <svg
+                  className="meta-icon"
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="24"
+                  height="24"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M8 2v4" />
+                  <path d="M16 2v4" />
+                  <rect width="18" height="18" x="3" y="4" rx="2" />
+                  <path d="M3 10h18" />
+                </svg>
+                {formatDate(video.created)}
+              </span>
+              <span className="meta-item">
+                <svg
+                  className="meta-icon"
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="24"
+                  height="24"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M15.2 3a2 2 0 0 1 1.4.6l3.8 3.8a2 2 0 0 1 .6 1.4V19a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2z" />
+                  <path d="M17 21v-7a1 1 0 0 0-1-1H8a1 1 0 0 0-1 1v7" />
+                  <path d="M7 3v4a1 1 0 0 0 1 1h7" />
+                </svg>
+                {formatFileSize(video.size)}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -9,6 +9,8 @@ interface IElectronAPI {
     close: () => Promise<void>;
   };
   selectFolder: () => Promise<string | null>;
+  selectAudioFile: () => Promise<string | null>;
+  selectSubtitleFile: () => Promise<string | null>;
   scanVideos: (folderPath: string) => Promise<any[]>;
   watchFolder: (folderPath: string) => Promise<void>;
   unwatchFolder: (folderPath: string) => Promise<void>;
@@ -17,15 +19,54 @@ interface IElectronAPI {
   startDrag: (payload: { filePath: string; iconPath?: string }) => Promise<void>;
   getVideoMetadata: (videoPath: string) => Promise<any>;
   getCachedMetadata: (videoPath: string) => Promise<any>;
+  getKeyframes: (videoPath: string) => Promise<number[]>;
   getCachedThumbnail: (videoPath: string, duration?: number, trimStart?: number, trimEnd?: number) => Promise<string>;
+  getCachedFilmstripFrame: (videoPath: string, time: number) => Promise<string>;
   generateThumbnail: (videoPath: string, outputPath: string, timestampSeconds?: number) => Promise<string>;
   generateTimelineThumbnails: (videoPath: string, outputDir: string, count?: number) => Promise<string[]>;
   getClipHash: (filepath: string, duration?: number | null) => Promise<string>;
   saveClipEdits: (data: any) => Promise<any>;
   getClipEdits: (contentHash: string) => Promise<any>;
+  clearClipEdits: (contentHash: string) => Promise<any>;
   toggleFavorite: (data: any) => Promise<any>;
   isFavorite: (contentHash: string) => Promise<boolean>;
   getAllFavorites: () => Promise<any[]>;
+  getAllTags: () => Promise<any[]>;
+  getClipTags: (contentHash: string) => Promise<any[]>;
+  addClipTag: (data: { contentHashes: string[]; name: string }) => Promise<any>;
+  removeClipTag: (data: { contentHashes: string[]; tagId: number }) => Promise<any>;
+  renameTag: (tagId: number, name: string) => Promise<any>;
+  mergeTags: (sourceTagIds: number[], targetTagId: number) => Promise<any>;
+  deleteTag: (tagId: number) => Promise<any>;
+  getClipNotes: (contentHash: string) => Promise<string>;
+  setClipNotes: (data: {
+    contentHash: string;
+    filepath: string;
+    fileSize: number;
+    duration: number | null;
+    notes: string;
+  }) => Promise<boolean>;
+  syncSearchIndex: (
+    root: string,
+    entries: import('./types').SearchIndexEntry[]
+  ) => Promise<boolean>;
+  indexSearchEntry: (
+    root: string,
+    entry: import('./types').SearchIndexEntry
+  ) => Promise<boolean>;
+  searchClips: (
+    root: string,
+    query: string
+  ) => Promise<{ ranked: boolean; matches: import('./types').SearchMatch[] }>;
+  getCollections: (root: string | null) => Promise<import('./types').Collection[]>;
+  saveCollection: (data: {
+    id?: number;
+    name: string;
+    query: string;
+    sortBy: import('./types').SortBy;
+    sortOrder: import('./types').SortOrder;
+  }) => Promise<Omit<import('./types').Collection, 'count'>>;
+  deleteCollection: (id: number) => Promise<any>;
   selectSaveLocation: (
     defaultPath: string,
     filters?: Array<{ name: string; extensions: string[] }>
@@ -40,11 +81,83 @@ interface IElectronAPI {
     targetSizeMB?: number,
     jobId?: string,
     audioMode?: 'combine' | 'separate',
-    outputType?: 'video' | 'mp3'
+    outputType?: 'video' | 'mp3' | 'gif' | 'webp',
+    options?: {
+      preset?: import('./types').ExportPresetSettings;
+      resolution?: import('./types').ScaleChoice;
+      frameRate?: import('./types').ScaleChoice;
+      twoPass?: boolean;
+      animation?: { fps?: number; width?: number; loop?: boolean };
+      audioMix?: import('./types').AudioMixEdit;
+      transform?: import('./types').TransformEdit;
+      speed?: number;
+      overlays?: import('./types').TextOverlay[];
+      subtitles?: import('./types').SubtitleEdit;
+    }
   ) => Promise<any>;
-  cancelExport: () => Promise<boolean>;
+  exportReel: (options: {
+    outputPath: string;
+    items: Array<{
+      inputPath: string;
+      startTime: number;
+      endTime: number;
+      audioTracks?: any[];
+      audioMix?: import('./types').AudioMixEdit;
+      transform?: import('./types').TransformEdit;
+      speed?: number;
+      overlays?: import('./types').TextOverlay[];
+    }>;
+    quality: 'full' | 'compressed';
+    targetSizeMB?: number;
+    jobId?: string;
+    outputType?: 'video' | 'mp3';
+    normalize?: { width?: number; height?: number; fps?: number };
+    preset?: import('./types').ExportPresetSettings;
+    resolution?: import('./types').ScaleChoice;
+    frameRate?: import('./types').ScaleChoice;
+    twoPass?: boolean;
+  }) => Promise<any>;
+  cancelExport: (jobId?: string) => Promise<boolean>;
+  enqueueExport: (job: { kind: 'video' | 'reel'; label: string; params: any }) => Promise<any>;
+  getExportJobs: () => Promise<any[]>;
+  cancelExportJob: (jobId: string) => Promise<boolean>;
+  retryExportJob: (jobId: string) => Promise<boolean>;
+  removeExportJob: (jobId: string) => Promise<boolean>;
+  clearFinishedExportJobs: () => Promise<boolean>;
+  getExportConcurrency: () => Promise<number>;
+  setExportConcurrency: (concurrency: number) => Promise<number>;
+  getExportPresets: () => Promise<import('./types').ExportPreset[]>;
+  saveExportPreset: (data: {
+    id?: number;
+    name: string;
+    settings: Partial<import('./types').ExportPresetSettings>;
+  }) => Promise<import('./types').ExportPreset>;
+  deleteExportPreset: (id: number) => Promise<any>;
+  exportPresetsToFile: (ids?: number[]) => Promise<{ canceled: boolean; count: number }>;
+  importPresetsFromFile: () => Promise<{ canceled: boolean; count: number }>;
   extractAudioTracks: (videoPath: string, outputDir: string) => Promise<string[]>;
   getCachedExtractedAudio: (videoPath: string, forceRefresh?: boolean) => Promise<string[]>;
+  getSubtitleCues: (
+    videoPath: string,
+    source: { streamIndex?: number; filePath?: string }
+  ) => Promise<import('./types').SubtitleCue[]>;
+  getTranscriptionSettings: () => Promise<{
+    settings: import('./types').TranscriptionSettings;
+    engines: Array<{ id: string; name: string }>;
+  }>;
+  setTranscriptionSettings: (
+    settings: Partial<import('./types').TranscriptionSettings>
+  ) => Promise<import('./types').TranscriptionSettings>;
+  selectTranscriberFile: (kind: 'binary' | 'model') => Promise<string | null>;
+  transcribeClip: (
+    videoPath: string,
+    contentHash: string,
+    trackIndex: number
+  ) => Promise<import('./types').Transcript>;
+  cancelTranscription: (contentHash: string, trackIndex: number) => Promise<boolean>;
+  getTranscripts: (contentHash: string) => Promise<import('./types').Transcript[]>;
+  deleteTranscript: (contentHash: string, trackIndex: number) => Promise<boolean>;
+  exportTranscriptSrt: (contentHash: string, trackIndex: number, outputPath: string) => Promise<string>;
   readFileBuffer: (filePath: string) => Promise<Buffer>;
   readFileAsDataUrl: (filePath: string) => Promise<string>;
   clearCache: () => Promise<{ success: boolean; filesCleared: number; errors?: string[] }>;
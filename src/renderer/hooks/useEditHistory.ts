@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Changes closer together than this (or made while a mouse button is held)
+// collapse into one undo step, so a whole drag undoes at once
+const COALESCE_MS = 400;
+const MAX_HISTORY = 200;
+
+interface EditHistory {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undo/redo over snapshots of editor state. Every change to `current` is
+ * recorded automatically; `apply` restores a snapshot. History starts over
+ * whenever `resetKey` changes or `enabled` turns on.
+ */
+export function useEditHistory<T>(
+  current: T,
+  apply: (snapshot: T) => void,
+  enabled: boolean,
+  resetKey: string
+): EditHistory {
+  const undoStackRef = useRef<T[]>([]);
+  const redoStackRef = useRef<T[]>([]);
+  // Last state the history knows about; changes are measured against it
+  const committedRef = useRef<T>(current);
+  const currentRef = useRef<T>(current);
+  const isCoalescingRef = useRef(false);
+  const coalesceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isPointerDownRef = useRef(false);
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+
+  currentRef.current = current;
+
+  const syncCounts = () =>
+    setCounts({
+      undo: undoStackRef.current.length,
+      redo: redoStackRef.current.length,
+    });
+
+  const endCoalescing = () => {
+    if (coalesceTimerRef.current) {
+      clearTimeout(coalesceTimerRef.current);
+      coalesceTimerRef.current = null;
+    }
+    if (isCoalescingRef.current) {
+      isCoalescingRef.current = false;
+      committedRef.current = currentRef.current;
+    }
+  };
+
+  const scheduleEndCoalescing = () => {
+    if (coalesceTimerRef.current) clearTimeout(coalesceTimerRef.current);
+    coalesceTimerRef.current = setTimeout(() => {
+      coalesceTimerRef.current = null;
+      // Still dragging: wait for the button to come up
+      if (isPointerDownRef.current) {
+        scheduleEndCoalescing();
+        return;
+      }
+      endCoalescing();
+    }, COALESCE_MS);
+  };
+
+  useEffect(() => {
+    const handlePointerDown = () => {
+      isPointerDownRef.current = true;
+    };
+    const handlePointerUp = () => {
+      isPointerDownRef.current = false;
+    };
+    window.addEventListener("pointerdown", handlePointerDown, true);
+    window.addEventListener("pointerup", handlePointerUp, true);
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown, true);
+      window.removeEventListener("pointerup", handlePointerUp, true);
+      if (coalesceTimerRef.current) clearTimeout(coalesceTimerRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (coalesceTimerRef.current) clearTimeout(coalesceTimerRef.current);
+    coalesceTimerRef.current = null;
+    isCoalescingRef.current = false;
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    committedRef.current = currentRef.current;
+    syncCounts();
+  }, [enabled, resetKey]);
+
+  const serialized = JSON.stringify(current);
+
+  // Record changes: the first change after a pause pushes the prior state
+  useEffect(() => {
+    if (!enabled) return;
+    if (JSON.stringify(committedRef.current) === serialized) return;
+
+    if (!isCoalescingRef.current) {
+      undoStackRef.current.push(committedRef.current);
+      if (undoStackRef.current.length > MAX_HISTORY) {
+        undoStackRef.current.shift();
+      }
+      redoStackRef.current = [];
+      isCoalescingRef.current = true;
+      syncCounts();
+    }
+    scheduleEndCoalescing();
+  }, [serialized, enabled]);
+
+  const undo = useCallback(() => {
+    endCoalescing();
+    const previous = undoStackRef.current.pop();
+    if (previous === undefined) return;
+    redoStackRef.current.push(currentRef.current);
+    committedRef.current = previous;
+    apply(previous);
+    syncCounts();
+  }, [apply]);
+
+  const redo = useCallback(() => {
+    endCoalescing();
+    const next = redoStackRef.current.pop();
+    if (next === undefined) return;
+    undoStackRef.current.push(currentRef.current);
+    committedRef.current = next;
+    apply(next);
+    syncCounts();
+  }, [apply]);
+
+  return {
+    undo,
+    redo,
+    canUndo: counts.undo > 0,
+    canRedo: counts.redo > 0,
+  };
+}
@@ -25,6 +25,9 @@ export interface VideoMetadata {
     bit_rate?: number;
     channels?: number;
     sample_rate?: number;
+    // ffprobe rates such as "60/1" or "30000/1001"
+    r_frame_rate?: string;
+    avg_frame_rate?: string;
     tags?: {
       title?: string;
       language?: string;
@@ -38,26 +41,261 @@ export interface AudioTrack {
   volume: number;
   color: string;
   isMuted: boolean;
+  // While any track is soloed, only soloed tracks are heard
+  isSolo: boolean;
+  fadeIn: number;
+  fadeOut: number;
+  normalize: boolean;
+  // Kept sorted by time
+  volumeKeyframes: VolumeKeyframe[];
+  // Added audio file playing from offset seconds into the clip, instead of
+  // one of the clip's own streams
+  externalPath?: string;
+  offset?: number;
+}
+
+// Gain multiplier (0-2) at a source time, interpolated linearly in between
+export interface VolumeKeyframe {
+  time: number;
+  volume: number;
+}
+
+// Editor state restored by undo/redo
+export interface EditSnapshot {
+  trimStart: number;
+  trimEnd: number;
+  audioTracks: AudioTrack[];
+  segments: ClipSegment[];
+  activeSegmentId: string | null;
+  normalizeMix: boolean;
+  transform: TransformEdit;
+  speed: number;
+  overlays: TextOverlay[];
+  subtitles: SubtitleEdit | null;
+}
+
+export interface Tag {
+  id: number;
+  name: string;
+  clipCount: number;
+}
+
+export type TagMatchMode = 'all' | 'any';
+
+export type ExportJobStatus =
+  | 'queued'
+  | 'running'
+  | 'done'
+  | 'failed'
+  | 'canceled';
+
+export interface ExportJob {
+  id: string;
+  kind: 'video' | 'reel';
+  label: string;
+  outputPath: string;
+  params: any;
+  status: ExportJobStatus;
+  progress: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ExportPresetSettings {
+  container: 'mp4' | 'mov' | 'mkv' | 'webm';
+  videoCodec: 'copy' | 'libx264' | 'libx265' | 'libvpx-vp9';
+  rateControl: 'crf' | 'size';
+  crf: number;
+  targetSizeMB: number;
+  maxHeight: number | null;
+  fps: number | null;
+  audioCodec: 'aac' | 'libmp3lame' | 'libopus';
+  audioBitrateKbps: number;
+  audioMode: 'combine' | 'separate';
+}
+
+// 'auto' fits the bitrate budget, 'source' keeps the input, a number caps height / fps
+export type ScaleChoice = 'auto' | 'source' | number;
+
+export interface ExportPreset {
+  id: number;
+  name: string;
+  settings: ExportPresetSettings;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export type SortBy = 'name' | 'date' | 'size';
 export type SortOrder = 'asc' | 'desc';
 
+// A saved library search, listed as a smart collection
+export interface Collection {
+  id: number;
+  name: string;
+  // In the library search syntax
+  query: string;
+  sortBy: SortBy;
+  sortOrder: SortOrder;
+  // Clips in the current library folder that match
+  count: number;
+}
+
 // Clip edits and favorites
 export interface AudioTrackEdit {
   index: number;
   volume: number;
   isMuted: boolean;
+  isSolo?: boolean;
+  // Custom label and color; absent means the stream title / default color
+  name?: string;
+  color?: string;
+  // Seconds from the start / to the end of the exported range
+  fadeIn?: number;
+  fadeOut?: number;
+  // Loudness-normalize this track (EBU R128) before volume is applied
+  normalize?: boolean;
+  volumeKeyframes?: VolumeKeyframe[];
+  externalPath?: string;
+  offset?: number;
+}
+
+// Settings for the combined mix of all tracks
+export interface AudioMixEdit {
+  normalize: boolean;
+}
+
+// Crop rectangle as fractions (0-1) of the rotated and flipped frame
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AspectPreset = 'free' | '16:9' | '9:16' | '1:1' | '4:5';
+
+// Spatial edits: rotate (clockwise, in 90° steps), then flip, then crop
+export interface TransformEdit {
+  rotation?: number;
+  flipH?: boolean;
+  flipV?: boolean;
+  crop?: CropRect;
+  // Aspect the crop is held to while editing
+  aspect?: AspectPreset;
+}
+
+// Timed caption drawn over the exported frame
+export interface TextOverlay {
+  id: string;
+  text: string;
+  // Center of the text, as fractions (0-1) of the cropped frame
+  x: number;
+  y: number;
+  // Font size as a fraction of the cropped frame's height
+  fontSize: number;
+  // CSS hex color, e.g. #ffffff
+  color: string;
+  // Shown between these source times (seconds)
+  start: number;
+  end: number;
+}
+
+// One timed line of a transcript, in seconds from the start of the clip
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  contentHash: string;
+  // Audio stream the transcript was made from
+  trackIndex: number;
+  engine: string;
+  language: string | null;
+  segments: TranscriptSegment[];
+  createdAt: string;
+}
+
+export interface TranscriptionSettings {
+  engine: string;
+  // Engine executable and model, chosen by the user
+  binaryPath: string;
+  modelPath: string;
+  // Spoken language code, or 'auto' to detect it
+  language: string;
+}
+
+// Subtitle track shown in the editor and carried into exports
+export interface SubtitleEdit {
+  // One of the clip's subtitle streams (nth subtitle stream), or an SRT/VTT file
+  streamIndex?: number;
+  filePath?: string;
+  // Left out of exports, muxed as a soft track, or burned into the frame
+  mode: 'none' | 'soft' | 'burn';
+}
+
+// One subtitle, timed in source seconds
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
 }
 
 export interface ClipEdits {
   trimStart?: number;
   trimEnd?: number;
   audioTracks?: AudioTrackEdit[];
+  segments?: ClipSegment[];
+  audioMix?: AudioMixEdit;
+  transform?: TransformEdit;
+  // Export playback speed (1 = unchanged)
+  speed?: number;
+  overlays?: TextOverlay[];
+  subtitles?: SubtitleEdit;
+}
+
+export interface ClipSegment {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  // Overrides the clip's speed for this segment
+  speed?: number;
 }
 
 export interface VideoFileWithMetadata extends VideoFile {
   contentHash?: string;
   isFavorite?: boolean;
   edits?: ClipEdits;
+  tags?: Tag[];
+  // Set on library search results
+  searchMatch?: SearchMatch;
+}
+
+// A library file as stored in the search index
+export interface SearchIndexEntry {
+  path: string;
+  contentHash: string | null;
+  name: string;
+  // Folder relative to the library root, '' for the root itself
+  folder: string;
+  size: number;
+  duration: number | null;
+}
+
+// Text split into runs that did and didn't match the search
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchMatch {
+  path: string;
+  // Highlighted file name, and the best matching notes or transcript
+  // excerpt; null when the search has no text to highlight
+  name: HighlightPart[] | null;
+  snippet: HighlightPart[] | null;
 }
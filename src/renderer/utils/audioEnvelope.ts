@@ -0,0 +1,105 @@
+import { AudioTrack, VolumeKeyframe } from '../types';
+
+// Volume keyframes range over 0-2, like the track volume slider (1 = unchanged)
+export const MAX_KEYFRAME_GAIN = 2;
+
+// Finest step of the gain curves handed to Web Audio, and how long they may get
+const CURVE_STEP = 0.01;
+const MAX_CURVE_POINTS = 8000;
+
+/**
+ * Gain from the volume keyframes at a time; holds the first/last value outside them
+ */
+export function getKeyframeGain(keyframes: VolumeKeyframe[], time: number): number {
+  if (keyframes.length === 0) return 1;
+  if (time <= keyframes[0].time) return keyframes[0].volume;
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const b = keyframes[i];
+    if (time < b.time) {
+      const a = keyframes[i - 1];
+      const span = b.time - a.time;
+      return span > 0 ? a.volume + ((b.volume - a.volume) * (time - a.time)) / span : b.volume;
+    }
+  }
+  return keyframes[keyframes.length - 1].volume;
+}
+
+/**
+ * Fade-in/out factor inside the exported range; outside it the track plays as-is
+ */
+export function getFadeGain(
+  track: Pick<AudioTrack, 'fadeIn' | 'fadeOut'>,
+  time: number,
+  rangeStart: number,
+  rangeEnd: number
+): number {
+  if (time < rangeStart || time > rangeEnd) return 1;
+  let gain = 1;
+  if (track.fadeIn > 0) {
+    gain *= Math.min(1, (time - rangeStart) / track.fadeIn);
+  }
+  if (track.fadeOut > 0) {
+    gain *= Math.min(1, (rangeEnd - time) / track.fadeOut);
+  }
+  return gain;
+}
+
+/**
+ * Effective gain of a track at a time: volume, keyframes and fades (0 when muted).
+ * Loudness normalization is applied separately.
+ */
+export function getTrackGain(
+  track: AudioTrack,
+  time: number,
+  rangeStart: number,
+  rangeEnd: number
+): number {
+  if (track.isMuted) return 0;
+  return (
+    track.volume *
+    getKeyframeGain(track.volumeKeyframes, time) *
+    getFadeGain(track, time, rangeStart, rangeEnd)
+  );
+}
+
+/**
+ * Tracks as heard: while any track is soloed, the others count as muted
+ */
+export function applySolo(tracks: AudioTrack[]): AudioTrack[] {
+  if (!tracks.some((track) => track.isSolo)) return tracks;
+  return tracks.map((track) => (track.isSolo ? track : { ...track, isMuted: true }));
+}
+
+/**
+ * Sampled gain for AudioParam.setValueCurveAtTime over [from, to]
+ */
+export function buildGainCurve(
+  track: AudioTrack,
+  from: number,
+  to: number,
+  rangeStart: number,
+  rangeEnd: number,
+  scale = 1
+): Float32Array {
+  const span = Math.max(0, to - from);
+  const count = Math.max(2, Math.min(MAX_CURVE_POINTS, Math.ceil(span / CURVE_STEP) + 1));
+  const curve = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const time = from + (span * i) / (count - 1);
+    curve[i] = getTrackGain(track, time, rangeStart, rangeEnd) * scale;
+  }
+  return curve;
+}
+
+/**
+ * Insert or replace a keyframe, keeping the list sorted by time
+ */
+export function setKeyframe(
+  keyframes: VolumeKeyframe[],
+  keyframe: VolumeKeyframe
+): VolumeKeyframe[] {
+  return [...keyframes.filter((k) => k.time !== keyframe.time), keyframe].sort(
+    (a, b) => a.time - b.time
+  );
+}
@@ -0,0 +1,29 @@
+import { ClipEdits, VideoFileWithMetadata } from '../types';
+
+const api = window.api;
+
+/**
+ * The saved trim range of a library clip, falling back to the whole file
+ */
+export async function getSavedClipRange(
+  video: VideoFileWithMetadata
+): Promise<{ start: number; end: number }> {
+  const edits = video.edits;
+  let end = edits?.trimEnd ?? video.duration;
+  if (end === undefined) {
+    const meta = await api.getCachedMetadata(video.path);
+    end = meta?.format?.duration || 0;
+  }
+  return { start: edits?.trimStart ?? 0, end: end ?? 0 };
+}
+
+/**
+ * Export speed of the saved trim: the speed of the segment it matches, or
+ * the clip's
+ */
+export function getSavedClipSpeed(edits: ClipEdits | undefined): number {
+  const segment = edits?.segments?.find(
+    (seg) => seg.start === edits.trimStart && seg.end === edits.trimEnd
+  );
+  return segment?.speed ?? edits?.speed ?? 1;
+}
@@ -0,0 +1,142 @@
+import { AspectPreset, CropRect, TransformEdit } from '../types';
+
+export const ASPECT_PRESETS: AspectPreset[] = ['free', '16:9', '9:16', '1:1', '4:5'];
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// Smallest crop side, as a fraction of the frame
+const MIN_CROP_SIZE = 0.05;
+
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+/**
+ * Width/height of an aspect preset, or null for a free crop
+ */
+export function getAspectRatio(preset: AspectPreset | undefined): number | null {
+  if (!preset || preset === 'free') return null;
+  const [w, h] = preset.split(':').map(Number);
+  return w / h;
+}
+
+/**
+ * Rotation in quarter turns clockwise, normalized to 0-3
+ */
+export function getQuarterTurns(transform: TransformEdit): number {
+  return ((Math.round((transform.rotation || 0) / 90) % 4) + 4) % 4;
+}
+
+/**
+ * Frame size after rotation (the space crops are drawn in)
+ */
+export function getRotatedSize(size: Size, transform: TransformEdit): Size {
+  return getQuarterTurns(transform) % 2 === 1
+    ? { width: size.height, height: size.width }
+    : size;
+}
+
+export function isIdentityTransform(transform: TransformEdit): boolean {
+  return (
+    getQuarterTurns(transform) === 0 &&
+    !transform.flipH &&
+    !transform.flipV &&
+    !transform.crop &&
+    (!transform.aspect || transform.aspect === 'free')
+  );
+}
+
+/**
+ * CSS transform showing the rotation and flips on the unrotated video element
+ */
+export function getTransformCss(transform: TransformEdit): string {
+  const scaleX = transform.flipH ? -1 : 1;
+  const scaleY = transform.flipV ? -1 : 1;
+  return `scale(${scaleX}, ${scaleY}) rotate(${getQuarterTurns(transform) * 90}deg)`;
+}
+
+/**
+ * The largest crop of an aspect ratio that fits the frame, centered on the
+ * current crop where possible
+ */
+export function fitCropToAspect(crop: CropRect, aspect: number, frame: Size): CropRect {
+  // Width/height in frame fractions
+  const ratio = (aspect * frame.height) / frame.width;
+  const width = ratio >= 1 ? 1 : ratio;
+  const height = ratio >= 1 ? 1 / ratio : 1;
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+  return {
+    x: clamp(centerX - width / 2, 0, 1 - width),
+    y: clamp(centerY - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+export function moveCrop(crop: CropRect, dx: number, dy: number): CropRect {
+  return {
+    ...crop,
+    x: clamp(crop.x + dx, 0, 1 - crop.width),
+    y: clamp(crop.y + dy, 0, 1 - crop.height),
+  };
+}
+
+/**
+ * Drag one corner of a crop (the opposite corner stays put), holding an
+ * aspect ratio when one is given (pixel width/height)
+ */
+export function resizeCrop(
+  crop: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  aspect: number | null,
+  frame: Size
+): CropRect {
+  const signX = handle.endsWith('e') ? 1 : -1;
+  const signY = handle.startsWith('s') ? 1 : -1;
+  const anchorX = signX > 0 ? crop.x : crop.x + crop.width;
+  const anchorY = signY > 0 ? crop.y : crop.y + crop.height;
+  const maxWidth = signX > 0 ? 1 - anchorX : anchorX;
+  const maxHeight = signY > 0 ? 1 - anchorY : anchorY;
+
+  let width = clamp(crop.width + signX * dx, MIN_CROP_SIZE, maxWidth);
+  let height = clamp(crop.height + signY * dy, MIN_CROP_SIZE, maxHeight);
+
+  if (aspect) {
+    const ratio = (aspect * frame.height) / frame.width;
+    // Follow whichever side the pointer pulled further, within the room left
+    width = Math.min(Math.max(width, height * ratio), maxWidth, maxHeight * ratio);
+    height = width / ratio;
+  }
+
+  return {
+    x: signX > 0 ? anchorX : anchorX - width,
+    y: signY > 0 ? anchorY : anchorY - height,
+    width,
+    height,
+  };
+}
+
+/**
+ * Move a crop along with the picture when it turns a quarter clockwise (1)
+ * or counterclockwise (-1), so it keeps covering the same content
+ */
+export function rotateCrop(crop: CropRect, direction: 1 | -1): CropRect {
+  return direction === 1
+    ? { x: 1 - (crop.y + crop.height), y: crop.x, width: crop.height, height: crop.width }
+    : { x: crop.y, y: 1 - (crop.x + crop.width), width: crop.height, height: crop.width };
+}
+
+export function flipCrop(crop: CropRect, axis: 'horizontal' | 'vertical'): CropRect {
+  return axis === 'horizontal'
+    ? { ...crop, x: 1 - (crop.x + crop.width) }
+    : { ...crop, y: 1 - (crop.y + crop.height) };
+}
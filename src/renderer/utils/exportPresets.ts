@@ -0,0 +1,62 @@
+import { ExportPresetSettings } from '../types';
+
+export const PRESET_CONTAINERS: Array<{ value: ExportPresetSettings['container']; label: string }> = [
+  { value: 'mp4', label: 'MP4' },
+  { value: 'mov', label: 'MOV' },
+  { value: 'mkv', label: 'MKV' },
+  { value: 'webm', label: 'WebM' },
+];
+
+export const PRESET_VIDEO_CODECS: Array<{ value: ExportPresetSettings['videoCodec']; label: string }> = [
+  { value: 'libx264', label: 'H.264' },
+  { value: 'libx265', label: 'H.265 / HEVC' },
+  { value: 'libvpx-vp9', label: 'VP9' },
+  { value: 'copy', label: 'Copy (no re-encode)' },
+];
+
+export const PRESET_AUDIO_CODECS: Array<{ value: ExportPresetSettings['audioCodec']; label: string }> = [
+  { value: 'aac', label: 'AAC' },
+  { value: 'libmp3lame', label: 'MP3' },
+  { value: 'libopus', label: 'Opus' },
+];
+
+export const DEFAULT_PRESET_SETTINGS: ExportPresetSettings = {
+  container: 'mp4',
+  videoCodec: 'libx264',
+  rateControl: 'crf',
+  crf: 23,
+  targetSizeMB: 25,
+  maxHeight: null,
+  fps: null,
+  audioCodec: 'aac',
+  audioBitrateKbps: 128,
+  audioMode: 'combine',
+};
+
+const labelFor = <T extends string>(options: Array<{ value: T; label: string }>, value: T) =>
+  options.find((opt) => opt.value === value)?.label || value;
+
+/**
+ * One-line summary of a preset, e.g. "MP4 · H.264 CRF 23 · 720p · 30 fps · AAC 128k"
+ */
+export function describePreset(settings: ExportPresetSettings): string {
+  const parts = [labelFor(PRESET_CONTAINERS, settings.container)];
+
+  if (settings.videoCodec === 'copy') {
+    parts.push('Original video');
+  } else {
+    const codec = labelFor(PRESET_VIDEO_CODECS, settings.videoCodec);
+    parts.push(
+      settings.rateControl === 'size'
+        ? `${codec} ${settings.targetSizeMB} MB`
+        : `${codec} CRF ${settings.crf}`
+    );
+    if (settings.maxHeight) parts.push(`${settings.maxHeight}p`);
+    if (settings.fps) parts.push(`${settings.fps} fps`);
+  }
+
+  parts.push(`${labelFor(PRESET_AUDIO_CODECS, settings.audioCodec)} ${settings.audioBitrateKbps}k`);
+  if (settings.audioMode === 'separate') parts.push('separate tracks');
+
+  return parts.join(' · ');
+}
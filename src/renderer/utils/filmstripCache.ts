@@ -0,0 +1,58 @@
+import { createQueue } from './asyncQueue';
+
+const api = window.api;
+
+// Frames decode one ffmpeg process each, keep it light next to audio loading
+const queue = createQueue(2);
+
+const inMemoryCache = new Map<string, string>();
+// Callers share one request; it's skipped only if none of them still wants it
+const pendingRequests = new Map<string, { request: Promise<string>; wanted: Array<() => boolean> }>();
+
+function getCacheKey(videoPath: string, time: number): string {
+  return `${videoPath}|${time.toFixed(3)}`;
+}
+
+export function getCachedFilmstripFrame(videoPath: string, time: number): string | undefined {
+  return inMemoryCache.get(getCacheKey(videoPath, time));
+}
+
+/**
+ * Frame image for a filmstrip tile. Requests that no caller wants any more by
+ * the time they reach the front of the queue (e.g. after zooming away) resolve to ''.
+ */
+export function getFilmstripFrame(
+  videoPath: string,
+  time: number,
+  isWanted: () => boolean = () => true
+): Promise<string> {
+  const cacheKey = getCacheKey(videoPath, time);
+
+  const cached = inMemoryCache.get(cacheKey);
+  if (cached) return Promise.resolve(cached);
+
+  const pending = pendingRequests.get(cacheKey);
+  if (pending) {
+    pending.wanted.push(isWanted);
+    return pending.request;
+  }
+
+  const wanted = [isWanted];
+  const request = queue.add(async () => {
+    try {
+      if (!wanted.some((check) => check())) return '';
+      const out = await api.getCachedFilmstripFrame(videoPath, time);
+      const result = typeof out === 'string' ? out : '';
+      if (result) inMemoryCache.set(cacheKey, result);
+      return result;
+    } catch (err) {
+      console.warn('Filmstrip frame failed:', err);
+      return '';
+    } finally {
+      pendingRequests.delete(cacheKey);
+    }
+  });
+
+  pendingRequests.set(cacheKey, { request, wanted });
+  return request;
+}
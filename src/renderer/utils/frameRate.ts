@@ -0,0 +1,82 @@
+import { VideoMetadata } from '../types';
+
+export interface FrameRate {
+  // Rate used for stepping, snapping and timecode
+  fps: number;
+  // Average over the whole file (avg_frame_rate), when known
+  averageFps: number | null;
+  // Frame times vary, e.g. recordings that drop frames under load
+  isVariable: boolean;
+}
+
+const FALLBACK_FPS = 30;
+// Container time bases (1000/1, 90000/1) sometimes show up as r_frame_rate
+const MAX_PLAUSIBLE_FPS = 1000;
+
+// Parse an ffprobe rate like "30000/1001" into frames per second
+export function parseFrameRate(rate?: string): number | null {
+  if (!rate) return null;
+  const [num, den] = rate.split('/').map(Number);
+  const fps = den ? num / den : num;
+  return Number.isFinite(fps) && fps > 0 && fps <= MAX_PLAUSIBLE_FPS ? fps : null;
+}
+
+/**
+ * Frame rate of the first video stream. For variable frame rate files the
+ * nominal (highest) rate is used, so stepping by one frame never skips a frame.
+ */
+export function getFrameRate(metadata: VideoMetadata | null): FrameRate {
+  const stream = metadata?.streams.find((s) => s.codec_type === 'video');
+  const nominal = parseFrameRate(stream?.r_frame_rate);
+  const average = parseFrameRate(stream?.avg_frame_rate);
+
+  if (!nominal && !average) {
+    return { fps: FALLBACK_FPS, averageFps: null, isVariable: false };
+  }
+  if (!nominal || !average) {
+    return { fps: (nominal || average)!, averageFps: average, isVariable: false };
+  }
+
+  // Constant rate files report the same value twice, give or take rounding
+  const isVariable = Math.abs(nominal - average) / nominal > 0.005;
+  return { fps: Math.max(nominal, average), averageFps: average, isVariable };
+}
+
+// Round a time to the nearest frame boundary
+export function snapToFrame(time: number, fps: number): number {
+  return Math.round(time * fps) / fps;
+}
+
+// Move a whole number of frames from the frame nearest to time
+export function stepFrames(time: number, fps: number, frames: number): number {
+  return (Math.round(time * fps) + frames) / fps;
+}
+
+/**
+ * SMPTE-style timecode, e.g. "00:01:02:15" (non-drop-frame)
+ */
+export function formatTimecode(seconds: number, fps: number): string {
+  const frameCount = Math.max(1, Math.round(fps));
+  const totalFrames = Math.round(Math.max(0, seconds) * fps);
+  const wholeSeconds = Math.floor(totalFrames / fps + 1e-9);
+  const frames = Math.min(
+    frameCount - 1,
+    Math.round(totalFrames - wholeSeconds * fps)
+  );
+
+  const hrs = Math.floor(wholeSeconds / 3600);
+  const mins = Math.floor((wholeSeconds % 3600) / 60);
+  const secs = wholeSeconds % 60;
+  return [hrs, mins, secs, frames]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join(':');
+}
+
+// "60 fps", "29.97 fps", "~59.8 fps (variable, max 60)"
+export function describeFrameRate(frameRate: FrameRate): string {
+  const format = (fps: number) => `${Math.round(fps * 100) / 100}`;
+  if (frameRate.isVariable && frameRate.averageFps) {
+    return `~${format(frameRate.averageFps)} fps (variable, max ${format(frameRate.fps)})`;
+  }
+  return `${format(frameRate.fps)} fps`;
+}
@@ -0,0 +1,147 @@
+// Approximate EBU R128 / ITU-R BS.1770 loudness for previewing normalization.
+// Exports run ffmpeg's loudnorm with the same target.
+
+export const TARGET_LOUDNESS_LUFS = -16;
+
+// Don't boost near-silent tracks into a wall of noise
+const MAX_NORMALIZE_GAIN_DB = 20;
+
+// Energy is kept per 100ms; gating blocks are four of these (400ms, 75% overlap)
+const SUB_BLOCK_SECONDS = 0.1;
+const BLOCK_SUB_BLOCKS = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const energyCache = new WeakMap<AudioBuffer, Float64Array>();
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The two-stage K-weighting filter at any sample rate (as in libebur128)
+function getKWeighting(sampleRate: number): Biquad[] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const Q1 = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q1 + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q1 + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q1 + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q1 + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q2 + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * K-weighted mean square per 100ms, summed over channels. Computed once per buffer.
+ */
+function getSubBlockEnergies(buffer: AudioBuffer): Float64Array {
+  const cached = energyCache.get(buffer);
+  if (cached) return cached;
+
+  const subBlockLength = Math.max(1, Math.round(buffer.sampleRate * SUB_BLOCK_SECONDS));
+  const energies = new Float64Array(Math.ceil(buffer.length / subBlockLength));
+  const [shelf, highPass] = getKWeighting(buffer.sampleRate);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    let u1 = 0, u2 = 0, z1 = 0, z2 = 0;
+    for (let n = 0; n < data.length; n++) {
+      const x = data[n];
+      const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+      x2 = x1; x1 = x; y2 = y1; y1 = y;
+      const z = highPass.b0 * y + highPass.b1 * u1 + highPass.b2 * u2 - highPass.a1 * z1 - highPass.a2 * z2;
+      u2 = u1; u1 = y; z2 = z1; z1 = z;
+      energies[Math.floor(n / subBlockLength)] += (z * z) / subBlockLength;
+    }
+  }
+
+  energyCache.set(buffer, energies);
+  return energies;
+}
+
+export interface LoudnessSource {
+  buffer: AudioBuffer;
+  // Clip time at which the buffer starts (added audio files)
+  offset?: number;
+  // Gain applied to the source at a time (volume automation, fades, ...)
+  gainAt: (time: number) => number;
+}
+
+/**
+ * Gated integrated loudness (LUFS) of the summed sources over [start, end],
+ * or null for silence. Sources are treated as uncorrelated when summed.
+ */
+export function measureLoudness(
+  sources: LoudnessSource[],
+  start: number,
+  end: number
+): number | null {
+  if (sources.length === 0 || end <= start) return null;
+
+  const first = Math.max(0, Math.floor(start / SUB_BLOCK_SECONDS));
+  const last = Math.ceil(end / SUB_BLOCK_SECONDS);
+  const subBlockPower = new Float64Array(Math.max(0, last - first));
+  for (const source of sources) {
+    const energies = getSubBlockEnergies(source.buffer);
+    const shift = Math.round((source.offset || 0) / SUB_BLOCK_SECONDS);
+    for (let i = 0; i < subBlockPower.length; i++) {
+      const block = first + i - shift;
+      if (block < 0) continue;
+      if (block >= energies.length) break;
+      const gain = source.gainAt((first + i + 0.5) * SUB_BLOCK_SECONDS);
+      subBlockPower[i] += gain * gain * energies[block];
+    }
+  }
+
+  const blocks: number[] = [];
+  for (let i = 0; i + BLOCK_SUB_BLOCKS <= subBlockPower.length; i++) {
+    let power = 0;
+    for (let j = 0; j < BLOCK_SUB_BLOCKS; j++) power += subBlockPower[i + j];
+    blocks.push(power / BLOCK_SUB_BLOCKS);
+  }
+  // Ranges under 400ms still get one (short) block
+  if (blocks.length === 0 && subBlockPower.length > 0) {
+    blocks.push(subBlockPower.reduce((sum, p) => sum + p, 0) / subBlockPower.length);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const gatedMean = (gate: number): number | null => {
+    const kept = blocks.filter((power) => power > 0 && toLufs(power) > gate);
+    return kept.length > 0 ? kept.reduce((sum, p) => sum + p, 0) / kept.length : null;
+  };
+
+  const absoluteMean = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (absoluteMean === null) return null;
+  const relativeMean = gatedMean(toLufs(absoluteMean) + RELATIVE_GATE_LU);
+  return relativeMean === null ? null : toLufs(relativeMean);
+}
+
+/**
+ * Linear gain that brings a measured loudness to the target
+ */
+export function getNormalizeGain(loudness: number | null): number {
+  if (loudness === null) return 1;
+  const gainDb = Math.min(MAX_NORMALIZE_GAIN_DB, TARGET_LOUDNESS_LUFS - loudness);
+  return Math.pow(10, gainDb / 20);
+}
@@ -0,0 +1,30 @@
+import { SubtitleCue, VideoMetadata } from '../types';
+
+// Bitmap subtitle codecs; they can be muxed by ffmpeg but not read as text
+const IMAGE_SUBTITLE_CODECS = ['hdmv_pgs_subtitle', 'dvd_subtitle', 'dvb_subtitle', 'xsub'];
+
+export function getSubtitleStreams(metadata: VideoMetadata | null) {
+  return (metadata?.streams || []).filter((s) => s.codec_type === 'subtitle');
+}
+
+export function isImageSubtitle(codecName: string): boolean {
+  return IMAGE_SUBTITLE_CODECS.includes(codecName);
+}
+
+/**
+ * The cue showing at `time`, if any (cues are sorted by start)
+ */
+export function getCueAt(cues: SubtitleCue[], time: number): SubtitleCue | null {
+  for (const cue of cues) {
+    if (cue.start > time) break;
+    if (time < cue.end) return cue;
+  }
+  return null;
+}
+
+/**
+ * Cue text without SRT/WebVTT tags (<i>, <c.red>) or ASS overrides ({\an8})
+ */
+export function stripCueFormatting(text: string): string {
+  return text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '');
+}
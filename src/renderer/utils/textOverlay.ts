@@ -0,0 +1,38 @@
+import { TextOverlay } from '../types';
+
+// New overlays show for this long (seconds), within the trim
+const DEFAULT_OVERLAY_LENGTH = 3;
+
+export const OVERLAY_COLORS = ['#ffffff', '#ffd43b', '#ff6b6b', '#4dabf7', '#69db7c', '#000000'];
+
+// Font size bounds, as fractions of the frame height
+export const MIN_OVERLAY_FONT_SIZE = 0.02;
+export const MAX_OVERLAY_FONT_SIZE = 0.25;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+/**
+ * A caption centered in the lower third, starting at `time`
+ */
+export function createTextOverlay(time: number, trimEnd: number): TextOverlay {
+  const end = Math.min(trimEnd, time + DEFAULT_OVERLAY_LENGTH);
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    text: 'Text',
+    x: 0.5,
+    y: 0.8,
+    fontSize: 0.08,
+    color: '#ffffff',
+    start: time,
+    end: end > time ? end : time + DEFAULT_OVERLAY_LENGTH,
+  };
+}
+
+export function isOverlayVisible(overlay: TextOverlay, time: number): boolean {
+  return time >= overlay.start && time < overlay.end;
+}
+
+export function moveOverlay(overlay: TextOverlay, x: number, y: number): TextOverlay {
+  return { ...overlay, x: clamp(x, 0, 1), y: clamp(y, 0, 1) };
+}
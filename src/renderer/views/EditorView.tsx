@@ -1,24 +1,52 @@
-import React, { useState, useEffect, useLayoutEffect, useRef } from "react";
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+} from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import VideoPlayer from "../components/VideoPlayer";
 import Timeline from "../components/Timeline";
 import VideoInfoPanel from "../components/VideoInfoPanel";
 import ExportPanel from "../components/ExportPanel";
+import FrameControls from "../components/FrameControls";
+import TextOverlayPanel from "../components/TextOverlayPanel";
+import TranscriptPanel from "../components/TranscriptPanel";
 import { useGlowEffect } from "../hooks/useGlowEffect";
+import { useEditHistory } from "../hooks/useEditHistory";
 import {
   VideoFile,
   AudioTrack,
   VideoMetadata,
   ClipEdits,
   AudioTrackEdit,
+  ClipSegment,
+  Tag,
+  EditSnapshot,
+  TransformEdit,
+  TextOverlay,
+  SubtitleCue,
+  SubtitleEdit,
 } from "../types";
 import {
   ColorRGB,
   MultiZoneColors,
   VideoColorSampler,
 } from "../utils/colorSampler";
+import { getFrameRate, stepFrames } from "../utils/frameRate";
+import {
+  applySolo,
+  buildGainCurve,
+  getTrackGain,
+} from "../utils/audioEnvelope";
+import { getNormalizeGain, measureLoudness } from "../utils/loudness";
+import { isIdentityTransform } from "../utils/crop";
+import { createTextOverlay } from "../utils/textOverlay";
+import { getCueAt, stripCueFormatting } from "../utils/subtitles";
 import "../styles/EditorView.css";
 import WindowControls from "../components/WindowControls";
+import ExportQueueButton from "../components/ExportQueueButton";
 
 const api = window.api;
 
@@ -31,6 +59,30 @@ const AUDIO_TRACK_COLORS = [
   "#ec4899",
 ];
 
+// Speeds offered for preview and export
+const SPEED_OPTIONS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 4];
+
+// Read an audio file from disk and decode it for Web Audio
+const decodeAudioFile = async (
+  audioContext: BaseAudioContext,
+  file: string
+): Promise<AudioBuffer> => {
+  const fileBuffer = await api.readFileBuffer(file);
+  const sourceBuffer = fileBuffer.buffer.slice(
+    fileBuffer.byteOffset,
+    fileBuffer.byteOffset + fileBuffer.byteLength
+  );
+  let arrayBuffer: ArrayBuffer;
+  if (sourceBuffer instanceof ArrayBuffer) {
+    arrayBuffer = sourceBuffer;
+  } else {
+    // Convert SharedArrayBuffer to ArrayBuffer
+    arrayBuffer = new ArrayBuffer(sourceBuffer.byteLength);
+    new Uint8Array(arrayBuffer).set(new Uint8Array(sourceBuffer));
+  }
+  return audioContext.decodeAudioData(arrayBuffer);
+};
+
 const EditorView: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
@@ -45,11 +97,42 @@ const EditorView: React.FC = () => {
   const [trimStart, setTrimStart] = useState(0);
   const [trimEnd, setTrimEnd] = useState(0);
   const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
+  const [segments, setSegments] = useState<ClipSegment[]>([]);
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null);
+  const [normalizeMix, setNormalizeMix] = useState(false);
+  const [transform, setTransform] = useState<TransformEdit>({});
+  // Export speed of the whole clip; segments may override it
+  const [speed, setSpeed] = useState(1);
+  // Preview only; follows the export speed of the active range when that changes
+  const [previewRate, setPreviewRate] = useState(1);
+  const [isCropping, setIsCropping] = useState(false);
+  const [overlays, setOverlays] = useState<TextOverlay[]>([]);
+  const [isEditingText, setIsEditingText] = useState(false);
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(
+    null
+  );
+  const [subtitles, setSubtitles] = useState<SubtitleEdit | null>(null);
+  const [subtitleCues, setSubtitleCues] = useState<SubtitleCue[]>([]);
+  const [subtitleError, setSubtitleError] = useState<string | null>(null);
+  const [videoSize, setVideoSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [renamingSegmentId, setRenamingSegmentId] = useState<string | null>(
+    null
+  );
+  const [segmentNameDraft, setSegmentNameDraft] = useState("");
   const [metadata, setMetadata] = useState<VideoMetadata | null>(null);
   const [isLoadingAudio, setIsLoadingAudio] = useState(true);
   const [showLoadingIndicator, setShowLoadingIndicator] = useState(true);
   const [loadingFadingOut, setLoadingFadingOut] = useState(false);
   const [audioBuffers, setAudioBuffers] = useState<AudioBuffer[]>([]);
+  // Decoded added audio files, by path
+  const [externalBuffers, setExternalBuffers] = useState<
+    Record<string, AudioBuffer>
+  >({});
+  const [keyframes, setKeyframes] = useState<number[]>([]);
+  const frameRate = getFrameRate(metadata);
   const [currentColors, setCurrentColors] = useState<MultiZoneColors>({
     center: { r: 15, g: 15, b: 15 },
     topLeft: { r: 15, g: 15, b: 15 },
@@ -68,9 +151,13 @@ const EditorView: React.FC = () => {
   });
   const [gradientCenter, setGradientCenter] = useState({ x: 50, y: 45 });
   const [showExportPanel, setShowExportPanel] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
 
   const [contentHash, setContentHash] = useState<string>("");
   const [isFavorite, setIsFavorite] = useState(false);
+  const [clipTags, setClipTags] = useState<Tag[]>([]);
+  const [notes, setNotes] = useState("");
+  const [allTags, setAllTags] = useState<Tag[]>([]);
   const [editsLoaded, setEditsLoaded] = useState(false);
   const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -85,8 +172,12 @@ const EditorView: React.FC = () => {
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourcesRef = useRef<AudioBufferSourceNode[]>([]);
   const gainNodesRef = useRef<GainNode[]>([]);
+  const mixGainNodeRef = useRef<GainNode | null>(null);
   const audioStartTimeRef = useRef<number>(0);
-  const currentVolumesRef = useRef<number[]>([]);
+  // Tracks as probed from the file, before any saved edits
+  const defaultTracksRef = useRef<AudioTrack[]>([]);
+  // Added audio files already being decoded
+  const requestedExternalsRef = useRef<Set<string>>(new Set());
   const animationFrameRef = useRef<number | null>(null);
   const lastUpdateTimeRef = useRef<number>(0);
 
@@ -118,6 +209,19 @@ const EditorView: React.FC = () => {
     }
   }, []);
 
+  // Keyframe positions for the timeline (probed separately, long clips take a moment)
+  useEffect(() => {
+    if (!video) return;
+    let canceled = false;
+    setKeyframes([]);
+    api.getKeyframes(video.path).then((times) => {
+      if (!canceled) setKeyframes(times);
+    });
+    return () => {
+      canceled = true;
+    };
+  }, [video]);
+
   useEffect(() => {
     if (!isLoadingAudio && showLoadingIndicator) {
       setLoadingFadingOut(true);
@@ -150,18 +254,30 @@ const EditorView: React.FC = () => {
           volume: 1.0,
           color: AUDIO_TRACK_COLORS[index % AUDIO_TRACK_COLORS.length],
           isMuted: false,
+          isSolo: false,
+          fadeIn: 0,
+          fadeOut: 0,
+          normalize: false,
+          volumeKeyframes: [],
         }));
 
       setAudioTracks(defaultTracks);
-      currentVolumesRef.current = defaultTracks.map((t) => t.volume);
+      defaultTracksRef.current = defaultTracks;
       setTrimEnd(audioDuration);
 
-      const [favorite, savedEdits] = await Promise.all([
-        api.isFavorite(hash),
-        api.getClipEdits(hash),
-      ]);
+      const [favorite, savedEdits, tags, availableTags, savedNotes] =
+        await Promise.all([
+          api.isFavorite(hash),
+          api.getClipEdits(hash),
+          api.getClipTags(hash),
+          api.getAllTags(),
+          api.getClipNotes(hash),
+        ]);
 
       setIsFavorite(favorite);
+      setClipTags(tags);
+      setAllTags(availableTags);
+      setNotes(savedNotes);
 
       if (savedEdits) {
         if (savedEdits.trimStart !== undefined) {
@@ -171,6 +287,17 @@ const EditorView: React.FC = () => {
           setTrimEnd(savedEdits.trimEnd);
         }
 
+        if (savedEdits.segments && savedEdits.segments.length > 0) {
+          setSegments(savedEdits.segments);
+          // Re-select the segment that was being edited (its range is the saved trim)
+          const active = savedEdits.segments.find(
+            (seg: ClipSegment) =>
+              seg.start === savedEdits.trimStart &&
+              seg.end === savedEdits.trimEnd
+          );
+          setActiveSegmentId(active ? active.id : null);
+        }
+
         if (savedEdits.audioTracks && savedEdits.audioTracks.length > 0) {
           const tracksWithSavedSettings = defaultTracks.map((track) => {
             const savedTrack = savedEdits.audioTracks?.find(
@@ -179,17 +306,52 @@ const EditorView: React.FC = () => {
             if (savedTrack) {
               return {
                 ...track,
+                name: savedTrack.name || track.name,
+                color: savedTrack.color || track.color,
                 volume: savedTrack.volume,
                 isMuted: savedTrack.isMuted,
+                isSolo: !!savedTrack.isSolo,
+                fadeIn: savedTrack.fadeIn ?? 0,
+                fadeOut: savedTrack.fadeOut ?? 0,
+                normalize: !!savedTrack.normalize,
+                volumeKeyframes: savedTrack.volumeKeyframes ?? [],
               };
             }
             return track;
           });
-          setAudioTracks(tracksWithSavedSettings);
-          currentVolumesRef.current = savedEdits.audioTracks.map(
-            (t: any) => t.volume
-          );
+          const savedExternals = savedEdits.audioTracks
+            .filter((t: AudioTrackEdit) => t.externalPath)
+            .map((t: AudioTrackEdit, i: number) => ({
+              index: t.index,
+              name:
+                t.name ||
+                window.path.basename(
+                  t.externalPath as string,
+                  window.path.extname(t.externalPath as string)
+                ),
+              volume: t.volume,
+              color:
+                t.color ||
+                AUDIO_TRACK_COLORS[
+                  (defaultTracks.length + i) % AUDIO_TRACK_COLORS.length
+                ],
+              isMuted: t.isMuted,
+              isSolo: !!t.isSolo,
+              fadeIn: t.fadeIn ?? 0,
+              fadeOut: t.fadeOut ?? 0,
+              normalize: !!t.normalize,
+              volumeKeyframes: t.volumeKeyframes ?? [],
+              externalPath: t.externalPath,
+              offset: t.offset ?? 0,
+            }));
+          setAudioTracks([...tracksWithSavedSettings, ...savedExternals]);
         }
+
+        setNormalizeMix(!!savedEdits.audioMix?.normalize);
+        setTransform(savedEdits.transform ?? {});
+        setOverlays(savedEdits.overlays ?? []);
+        setSubtitles(savedEdits.subtitles ?? null);
+        setSpeed(savedEdits.speed ?? 1);
       }
 
       setEditsLoaded(true);
@@ -234,23 +396,7 @@ const EditorView: React.FC = () => {
       // Load all audio buffers in parallel for better performance
       const bufferPromises = extractedFiles.map(async (file) => {
         try {
-          const fileBuffer = await api.readFileBuffer(file);
-          const sourceBuffer = fileBuffer.buffer.slice(
-            fileBuffer.byteOffset,
-            fileBuffer.byteOffset + fileBuffer.byteLength
-          );
-          let arrayBuffer: ArrayBuffer;
-          if (sourceBuffer instanceof ArrayBuffer) {
-            arrayBuffer = sourceBuffer;
-          } else {
-            // Convert SharedArrayBuffer to ArrayBuffer
-            arrayBuffer = new ArrayBuffer(sourceBuffer.byteLength);
-            new Uint8Array(arrayBuffer).set(new Uint8Array(sourceBuffer));
-          }
-          const audioBuffer = await tempAudioContext.decodeAudioData(
-            arrayBuffer
-          );
-          return audioBuffer;
+          return await decodeAudioFile(tempAudioContext, file);
         } catch (error) {
           console.error(`Error loading audio file ${file}:`, error);
           return null;
@@ -289,6 +435,109 @@ const EditorView: React.FC = () => {
     }
   };
 
+  // Decode added audio files as they appear (extracted to WAV like clip audio)
+  useEffect(() => {
+    audioTracks.forEach((track) => {
+      const file = track.externalPath;
+      if (!file || requestedExternalsRef.current.has(file)) return;
+      requestedExternalsRef.current.add(file);
+
+      (async () => {
+        const AudioContext =
+          window.AudioContext || (window as any).webkitAudioContext;
+        const tempAudioContext = new AudioContext();
+        try {
+          const [extracted] = await api.getCachedExtractedAudio(file);
+          if (!extracted) return;
+          const buffer = await decodeAudioFile(tempAudioContext, extracted);
+          setExternalBuffers((prev) => ({ ...prev, [file]: buffer }));
+        } catch (error) {
+          console.error(`Error loading audio file ${file}:`, error);
+          requestedExternalsRef.current.delete(file);
+        } finally {
+          await tempAudioContext.close();
+        }
+      })();
+    });
+  }, [audioTracks]);
+
+  // Buffer behind each track, in track order
+  const trackBuffers = useMemo(
+    () =>
+      audioTracks.map((track) =>
+        track.externalPath
+          ? externalBuffers[track.externalPath]
+          : audioBuffers[track.index]
+      ),
+    [audioTracks, audioBuffers, externalBuffers]
+  );
+
+  // Loudness normalization gains for the preview, measured over the trimmed range
+  const trackNormalizeGains = useMemo(
+    () =>
+      audioTracks.map((track, i) => {
+        const buffer = trackBuffers[i];
+        if (!track.normalize || !buffer) return 1;
+        return getNormalizeGain(
+          measureLoudness(
+            [{ buffer, offset: track.offset, gainAt: () => 1 }],
+            trimStart,
+            trimEnd
+          )
+        );
+      }),
+    [audioTracks, trackBuffers, trimStart, trimEnd]
+  );
+
+  // What the preview plays: solo silences the other tracks
+  const heardTracks = useMemo(() => applySolo(audioTracks), [audioTracks]);
+
+  const mixNormalizeGain = useMemo(() => {
+    if (!normalizeMix) return 1;
+    const sources = heardTracks.flatMap((track, i) => {
+      const buffer = trackBuffers[i];
+      return buffer
+        ? [
+            {
+              buffer,
+              offset: track.offset,
+              gainAt: (time: number) =>
+                getTrackGain(track, time, trimStart, trimEnd) *
+                trackNormalizeGains[i],
+            },
+          ]
+        : [];
+    });
+    return getNormalizeGain(measureLoudness(sources, trimStart, trimEnd));
+  }, [
+    normalizeMix,
+    heardTracks,
+    trackBuffers,
+    trimStart,
+    trimEnd,
+    trackNormalizeGains,
+  ]);
+
+  // Latest settings for the audio graph, which outlives the render that built it
+  const previewMixRef = useRef({
+    audioTracks: heardTracks,
+    rate: previewRate,
+    trackBuffers,
+    trimStart,
+    trimEnd,
+    trackNormalizeGains,
+    mixNormalizeGain,
+  });
+  previewMixRef.current = {
+    audioTracks: heardTracks,
+    rate: previewRate,
+    trackBuffers,
+    trimStart,
+    trimEnd,
+    trackNormalizeGains,
+    mixNormalizeGain,
+  };
+
   const handlePlayPause = async () => {
     if (videoRef.current) {
       if (isPlaying) {
@@ -321,7 +570,7 @@ const EditorView: React.FC = () => {
 
           // Start audio if buffers are ready
           if (
-            audioBuffers.length > 0 &&
+            trackBuffers.some(Boolean) &&
             audioContextRef.current &&
             audioContextRef.current.state === "running"
           ) {
@@ -339,7 +588,7 @@ const EditorView: React.FC = () => {
   const startAudio = async () => {
     if (
       !audioContextRef.current ||
-      audioBuffers.length === 0 ||
+      !trackBuffers.some(Boolean) ||
       !videoRef.current
     ) {
       return;
@@ -353,24 +602,28 @@ const EditorView: React.FC = () => {
 
     const sources: AudioBufferSourceNode[] = [];
     const gains: GainNode[] = [];
+    const mixGain = audioContext.createGain();
+    mixGain.connect(audioContext.destination);
 
-    // Create and start a source for each audio buffer
-    audioBuffers.forEach((buffer, bufferIndex) => {
+    // Create and start a source for each track (one node per track, so gains
+    // line up with the tracks even while a buffer is still loading)
+    trackBuffers.forEach((buffer, i) => {
       const source = audioContext.createBufferSource();
-      source.buffer = buffer;
+      source.buffer = buffer ?? null;
+      // Shifts pitch too; exports use atempo, which keeps it
+      source.playbackRate.value = previewRate;
 
       const gainNode = audioContext.createGain();
-      // Use currentVolumesRef which is always up-to-date
-      const volume = currentVolumesRef.current[bufferIndex] ?? 1.0;
-      const track = audioTracks[bufferIndex];
-      const effectiveVolume = track?.isMuted ? 0 : volume;
-      gainNode.gain.value = effectiveVolume;
-
       source.connect(gainNode);
-      gainNode.connect(audioContext.destination);
+      gainNode.connect(mixGain);
 
-      // Start from current video position
-      source.start(0, currentVideoTime);
+      // Start from current video position; added files wait for their offset
+      const position = currentVideoTime - (audioTracks[i]?.offset ?? 0);
+      if (position >= 0) {
+        source.start(0, position);
+      } else {
+        source.start(audioContext.currentTime - position / previewRate, 0);
+      }
 
       sources.push(source);
       gains.push(gainNode);
@@ -378,7 +631,48 @@ const EditorView: React.FC = () => {
 
     audioSourcesRef.current = sources;
     gainNodesRef.current = gains;
+    mixGainNodeRef.current = mixGain;
     audioStartTimeRef.current = audioContext.currentTime - currentVideoTime;
+    scheduleTrackGains(currentVideoTime);
+  };
+
+  // Drive each track's gain from `from` onwards: volume, keyframes, fades and
+  // normalization, sampled into a curve so automation plays back in time
+  const scheduleTrackGains = (from: number) => {
+    const audioContext = audioContextRef.current;
+    if (!audioContext) return;
+
+    const mix = previewMixRef.current;
+    const now = audioContext.currentTime;
+    gainNodesRef.current.forEach((gainNode, i) => {
+      const track = mix.audioTracks[i];
+      gainNode.gain.cancelScheduledValues(0);
+      if (!track) {
+        gainNode.gain.value = 1;
+        return;
+      }
+
+      const bufferEnd =
+        (track.offset ?? 0) + (mix.trackBuffers[i]?.duration ?? 0);
+      const to = Math.max(from, bufferEnd);
+      const curve = buildGainCurve(
+        track,
+        from,
+        to,
+        mix.trimStart,
+        mix.trimEnd,
+        mix.trackNormalizeGains[i] ?? 1
+      );
+      gainNode.gain.setValueCurveAtTime(
+        curve,
+        now,
+        Math.max(0.01, (to - from) / mix.rate)
+      );
+    });
+
+    if (mixGainNodeRef.current) {
+      mixGainNodeRef.current.gain.value = mix.mixNormalizeGain;
+    }
   };
 
   const stopAudio = () => {
@@ -392,8 +686,17 @@ const EditorView: React.FC = () => {
     });
     audioSourcesRef.current = [];
     gainNodesRef.current = [];
+    mixGainNodeRef.current?.disconnect();
+    mixGainNodeRef.current = null;
   };
 
+  // Follow track edits live while playing
+  useEffect(() => {
+    if (isPlaying && videoRef.current) {
+      scheduleTrackGains(videoRef.current.currentTime);
+    }
+  }, [heardTracks, trimStart, trimEnd, trackNormalizeGains, mixNormalizeGain]);
+
   const handleSeek = (time: number) => {
     if (videoRef.current) {
       videoRef.current.currentTime = time;
@@ -452,6 +755,11 @@ const EditorView: React.FC = () => {
     if (videoRef.current) {
       const dur = videoRef.current.duration;
       setDuration(dur);
+      setVideoSize({
+        width: videoRef.current.videoWidth,
+        height: videoRef.current.videoHeight,
+      });
+      videoRef.current.playbackRate = previewRate;
       if (trimEnd === 0) {
         setTrimEnd(dur);
       }
@@ -482,48 +790,329 @@ const EditorView: React.FC = () => {
     setIsPlaying(false);
   };
 
+  // Track changes reach the playing audio through scheduleTrackGains
   const handleVolumeChange = (trackIndex: number, volume: number) => {
-    // Update state for UI
+    handleAudioTrackEdit(trackIndex, { volume });
+  };
+
+  const handleMuteToggle = (trackIndex: number) => {
+    setAudioTracks((prev) =>
+      prev.map((track) =>
+        track.index === trackIndex
+          ? { ...track, isMuted: !track.isMuted }
+          : track
+      )
+    );
+  };
+
+  // Plain click solos just this track (or clears solo if it already is the
+  // only one); additive clicks toggle it alongside the others
+  const handleSoloToggle = (trackIndex: number, additive: boolean) => {
     setAudioTracks((prev) => {
-      const updated = prev.map((track) =>
-        track.index === trackIndex ? { ...track, volume } : track
+      if (additive) {
+        return prev.map((track) =>
+          track.index === trackIndex
+            ? { ...track, isSolo: !track.isSolo }
+            : track
+        );
+      }
+      const isOnlySolo = prev.every(
+        (track) => track.isSolo === (track.index === trackIndex)
       );
-      return updated;
+      return prev.map((track) => ({
+        ...track,
+        isSolo: !isOnlySolo && track.index === trackIndex,
+      }));
     });
+  };
 
-    // Update the ref immediately so it's available for next startAudio() call
-    const arrayIndex = trackIndex;
-    currentVolumesRef.current[arrayIndex] = volume;
+  // Volume, fades, keyframes, names and colors from the track lanes
+  const handleAudioTrackEdit = (
+    trackIndex: number,
+    changes: Partial<AudioTrack>
+  ) => {
+    setAudioTracks((prev) =>
+      prev.map((track) =>
+        track.index === trackIndex ? { ...track, ...changes } : track
+      )
+    );
+  };
 
-    // Apply volume change in real-time to the gain node (if audio is playing)
-    if (gainNodesRef.current[arrayIndex]) {
-      const track = audioTracks.find((t) => t.index === trackIndex);
-      const effectiveVolume = track?.isMuted ? 0 : volume;
-      gainNodesRef.current[arrayIndex].gain.value = effectiveVolume;
+  const activeSegment =
+    segments.find((seg) => seg.id === activeSegmentId) ?? null;
+  const exportSpeed = activeSegment?.speed ?? speed;
+  const currentCue = getCueAt(subtitleCues, currentTime);
+  const subtitleText = currentCue ? stripCueFormatting(currentCue.text) : null;
+
+  // Sets the active segment's speed, or the clip's when no segment is active
+  const handleExportSpeedChange = (value: number) => {
+    if (activeSegmentId) {
+      setSegments((prev) =>
+        prev.map((seg) =>
+          seg.id === activeSegmentId
+            ? { ...seg, speed: value === speed ? undefined : value }
+            : seg
+        )
+      );
+    } else {
+      setSpeed(value);
     }
   };
 
-  const handleMuteToggle = (trackIndex: number) => {
-    // Update state for UI
+  useEffect(() => {
+    setPreviewRate(exportSpeed);
+  }, [exportSpeed]);
+
+  // Audio sources take their rate when started, so restart them
+  useEffect(() => {
+    if (!videoRef.current) return;
+    videoRef.current.playbackRate = previewRate;
+    if (isPlaying) {
+      startAudio();
+    }
+  }, [previewRate]);
+
+  // Lay an audio file under the clip, starting at the trim start
+  // Load the cues of the chosen subtitle track for the preview
+  useEffect(() => {
+    setSubtitleCues([]);
+    setSubtitleError(null);
+    if (!video || !subtitles) return;
+
+    let isCurrent = true;
+    api
+      .getSubtitleCues(video.path, {
+        streamIndex: subtitles.streamIndex,
+        filePath: subtitles.filePath,
+      })
+      .then((cues) => {
+        if (isCurrent) setSubtitleCues(cues);
+      })
+      .catch((error) => {
+        console.error("Error loading subtitles:", error);
+        if (isCurrent) setSubtitleError("Couldn't read this subtitle track");
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [video?.path, subtitles?.streamIndex, subtitles?.filePath]);
+
+  const handleImportSubtitles = async () => {
+    const file = await api.selectSubtitleFile();
+    if (!file) return;
+    setSubtitles((prev) => ({ filePath: file, mode: prev?.mode ?? "none" }));
+  };
+
+  const handleAddExternalAudio = async () => {
+    const file = await api.selectAudioFile();
+    if (!file) return;
+
     setAudioTracks((prev) => {
-      const updated = prev.map((track) =>
-        track.index === trackIndex
-          ? { ...track, isMuted: !track.isMuted }
-          : track
+      const index = Math.max(-1, ...prev.map((t) => t.index)) + 1;
+      return [
+        ...prev,
+        {
+          index,
+          name: window.path.basename(file, window.path.extname(file)),
+          volume: 1.0,
+          color: AUDIO_TRACK_COLORS[prev.length % AUDIO_TRACK_COLORS.length],
+          isMuted: false,
+          isSolo: false,
+          fadeIn: 0,
+          fadeOut: 0,
+          normalize: false,
+          volumeKeyframes: [],
+          externalPath: file,
+          offset: trimStart,
+        },
+      ];
+    });
+  };
+
+  // Only added files can be removed; the clip's own streams stay
+  const handleRemoveAudioTrack = (trackIndex: number) => {
+    setAudioTracks((prev) =>
+      prev.filter(
+        (track) => !(track.index === trackIndex && track.externalPath)
+      )
+    );
+  };
+
+  // Trim handle changes edit the active segment, if there is one
+  const handleTrimStartChange = (time: number) => {
+    setTrimStart(time);
+    if (activeSegmentId) {
+      setSegments((prev) =>
+        prev.map((seg) =>
+          seg.id === activeSegmentId ? { ...seg, start: time } : seg
+        )
+      );
+    }
+  };
+
+  const handleTrimEndChange = (time: number) => {
+    setTrimEnd(time);
+    if (activeSegmentId) {
+      setSegments((prev) =>
+        prev.map((seg) =>
+          seg.id === activeSegmentId ? { ...seg, end: time } : seg
+        )
       );
+    }
+  };
+
+  const handleSelectSegment = (segmentId: string) => {
+    const segment = segments.find((seg) => seg.id === segmentId);
+    if (!segment) return;
+
+    setActiveSegmentId(segmentId);
+    setTrimStart(segment.start);
+    setTrimEnd(segment.end);
+    handleSeek(segment.start);
+  };
+
+  const handleAddSegment = () => {
+    const DEFAULT_SEGMENT_LENGTH = 10;
+    let start: number;
+    let end: number;
+
+    if (segments.length === 0) {
+      // The current trim range becomes the first segment
+      start = trimStart;
+      end = trimEnd;
+    } else {
+      start = Math.min(currentTime, Math.max(0, duration - 0.1));
+      end = Math.min(duration, start + DEFAULT_SEGMENT_LENGTH);
+    }
 
-      // Apply mute in real-time to the gain node (if audio is playing)
-      const arrayIndex = trackIndex;
-      if (gainNodesRef.current[arrayIndex]) {
-        const updatedTrack = updated.find((t) => t.index === trackIndex);
-        const effectiveVolume = updatedTrack?.isMuted
-          ? 0
-          : updatedTrack?.volume ?? 1.0;
-        gainNodesRef.current[arrayIndex].gain.value = effectiveVolume;
+    const segment: ClipSegment = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      name: `Segment ${segments.length + 1}`,
+      start,
+      end,
+    };
+
+    setSegments((prev) => [...prev, segment]);
+    setActiveSegmentId(segment.id);
+    setTrimStart(start);
+    setTrimEnd(end);
+  };
+
+  const handleAddOverlay = () => {
+    const overlay = createTextOverlay(currentTime, trimEnd);
+    setOverlays((prev) => [...prev, overlay]);
+    setSelectedOverlayId(overlay.id);
+  };
+
+  const handleOverlayChange = (overlay: TextOverlay) => {
+    setOverlays((prev) =>
+      prev.map((item) => (item.id === overlay.id ? overlay : item))
+    );
+  };
+
+  const handleDeleteOverlay = (overlayId: string) => {
+    setOverlays((prev) => prev.filter((item) => item.id !== overlayId));
+    if (overlayId === selectedOverlayId) {
+      setSelectedOverlayId(null);
+    }
+  };
+
+  const handleDeleteSegment = (segmentId: string) => {
+    const remaining = segments.filter((seg) => seg.id !== segmentId);
+    setSegments(remaining);
+
+    if (segmentId === activeSegmentId) {
+      const next = remaining[0];
+      setActiveSegmentId(next ? next.id : null);
+      if (next) {
+        setTrimStart(next.start);
+        setTrimEnd(next.end);
       }
+    }
+  };
 
-      return updated;
-    });
+  const handleStartRenameSegment = (segment: ClipSegment) => {
+    setRenamingSegmentId(segment.id);
+    setSegmentNameDraft(segment.name);
+  };
+
+  const handleCommitRenameSegment = () => {
+    const name = segmentNameDraft.trim();
+    if (renamingSegmentId && name) {
+      setSegments((prev) =>
+        prev.map((seg) =>
+          seg.id === renamingSegmentId ? { ...seg, name } : seg
+        )
+      );
+    }
+    setRenamingSegmentId(null);
+  };
+
+  // Restore trims, segments and track settings, e.g. from undo/redo
+  const applyEditSnapshot = (snapshot: EditSnapshot) => {
+    setTrimStart(snapshot.trimStart);
+    setTrimEnd(snapshot.trimEnd);
+    setSegments(snapshot.segments);
+    setActiveSegmentId(snapshot.activeSegmentId);
+    setAudioTracks(snapshot.audioTracks);
+    setNormalizeMix(snapshot.normalizeMix);
+    setTransform(snapshot.transform);
+    setSpeed(snapshot.speed);
+    setOverlays(snapshot.overlays);
+    setSubtitles(snapshot.subtitles);
+  };
+
+  const { undo, redo, canUndo, canRedo } = useEditHistory<EditSnapshot>(
+    {
+      trimStart,
+      trimEnd,
+      audioTracks,
+      segments,
+      activeSegmentId,
+      normalizeMix,
+      transform,
+      speed,
+      overlays,
+      subtitles,
+    },
+    applyEditSnapshot,
+    editsLoaded,
+    contentHash
+  );
+
+  // Drop the stored edits; the reset itself stays undoable
+  const handleRevertToOriginal = async () => {
+    if (!contentHash) return;
+    if (
+      !window.confirm(
+        "Revert this clip to the original? Trims, segments, crop, speed, text, subtitle and audio track changes will be cleared."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+      }
+      await api.clearClipEdits(contentHash);
+      applyEditSnapshot({
+        trimStart: 0,
+        trimEnd: duration,
+        audioTracks: defaultTracksRef.current,
+        segments: [],
+        activeSegmentId: null,
+        normalizeMix: false,
+        transform: {},
+        speed: 1,
+        overlays: [],
+        subtitles: null,
+      });
+      setIsCropping(false);
+      setIsEditingText(false);
+    } catch (error) {
+      console.error("Error reverting edits:", error);
+    }
   };
 
   // Save edits to database
@@ -541,17 +1130,73 @@ const EditorView: React.FC = () => {
       }
 
       // Only save audio tracks if any are modified from default
+      // Labels only count (and are saved) when changed, so stream titles still apply
+      // Added files have no defaults, so their labels are always kept
+      const getCustomLabel = (track: AudioTrack) => {
+        const original = track.externalPath
+          ? undefined
+          : defaultTracksRef.current.find((t) => t.index === track.index);
+        return {
+          name: track.name !== original?.name ? track.name : undefined,
+          color: track.color !== original?.color ? track.color : undefined,
+        };
+      };
+      const isRelabeled = (track: AudioTrack) => {
+        const label = getCustomLabel(track);
+        return label.name !== undefined || label.color !== undefined;
+      };
       const hasModifiedAudio = audioTracks.some(
-        (track) => track.volume !== 1.0 || track.isMuted
+        (track) =>
+          track.volume !== 1.0 ||
+          track.isMuted ||
+          track.isSolo ||
+          track.externalPath ||
+          isRelabeled(track) ||
+          track.fadeIn > 0 ||
+          track.fadeOut > 0 ||
+          track.normalize ||
+          track.volumeKeyframes.length > 0
       );
       if (hasModifiedAudio) {
         edits.audioTracks = audioTracks.map((track) => ({
           index: track.index,
+          ...getCustomLabel(track),
           volume: track.volume,
           isMuted: track.isMuted,
+          isSolo: track.isSolo,
+          fadeIn: track.fadeIn,
+          fadeOut: track.fadeOut,
+          normalize: track.normalize,
+          volumeKeyframes: track.volumeKeyframes,
+          externalPath: track.externalPath,
+          offset: track.externalPath ? track.offset : undefined,
         }));
       }
 
+      if (normalizeMix) {
+        edits.audioMix = { normalize: true };
+      }
+
+      if (!isIdentityTransform(transform)) {
+        edits.transform = transform;
+      }
+
+      if (speed !== 1) {
+        edits.speed = speed;
+      }
+
+      if (overlays.length > 0) {
+        edits.overlays = overlays;
+      }
+
+      if (subtitles) {
+        edits.subtitles = subtitles;
+      }
+
+      if (segments.length > 0) {
+        edits.segments = segments;
+      }
+
       await api.saveClipEdits({
         contentHash,
         filepath: video.path,
@@ -587,6 +1232,57 @@ const EditorView: React.FC = () => {
     }
   };
 
+  const handleAddTag = async (name: string) => {
+    if (!contentHash) return;
+
+    try {
+      const tag: Tag = await api.addClipTag({
+        contentHashes: [contentHash],
+        name,
+      });
+      setClipTags((prev) =>
+        prev.some((t) => t.id === tag.id)
+          ? prev
+          : [...prev, tag].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setAllTags(await api.getAllTags());
+    } catch (error: any) {
+      console.error("Error adding tag:", error);
+      // Strip Electron's "Error invoking remote method ..." prefix
+      const message = String(error?.message || error).replace(/^.*Error: /, "");
+      alert(`Failed to add tag: ${message}`);
+    }
+  };
+
+  const handleRemoveTag = async (tag: Tag) => {
+    if (!contentHash) return;
+
+    try {
+      await api.removeClipTag({ contentHashes: [contentHash], tagId: tag.id });
+      setClipTags((prev) => prev.filter((t) => t.id !== tag.id));
+      setAllTags(await api.getAllTags());
+    } catch (error) {
+      console.error("Error removing tag:", error);
+    }
+  };
+
+  const handleNotesChange = async (value: string) => {
+    if (!contentHash) return;
+
+    try {
+      await api.setClipNotes({
+        contentHash,
+        filepath: video.path,
+        fileSize: video.size,
+        duration: duration || null,
+        notes: value,
+      });
+      setNotes(value);
+    } catch (error) {
+      console.error("Error saving notes:", error);
+    }
+  };
+
   // Auto-save edits when trim points or audio tracks change (debounced)
   useEffect(() => {
     if (!editsLoaded) return;
@@ -606,7 +1302,19 @@ const EditorView: React.FC = () => {
         clearTimeout(saveTimerRef.current);
       }
     };
-  }, [trimStart, trimEnd, audioTracks, editsLoaded, contentHash]);
+  }, [
+    trimStart,
+    trimEnd,
+    audioTracks,
+    segments,
+    normalizeMix,
+    transform,
+    speed,
+    overlays,
+    subtitles,
+    editsLoaded,
+    contentHash,
+  ]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -634,10 +1342,19 @@ const EditorView: React.FC = () => {
         return;
       }
 
-      if (!videoRef.current) return;
+      // Undo: Ctrl+Z, redo: Ctrl+Shift+Z or Ctrl+Y
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (key === "z" || key === "y")) {
+        e.preventDefault();
+        if (key === "y" || e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
 
-      const fps = 30;
-      const frameDuration = 1 / fps;
+      if (!videoRef.current) return;
 
       switch (e.key) {
         case " ":
@@ -664,11 +1381,13 @@ const EditorView: React.FC = () => {
           break;
         case ",":
           e.preventDefault();
-          handleSeek(Math.max(0, currentTime - frameDuration));
+          handleSeek(Math.max(0, stepFrames(currentTime, frameRate.fps, -1)));
           break;
         case ".":
           e.preventDefault();
-          handleSeek(Math.min(duration, currentTime + frameDuration));
+          handleSeek(
+            Math.min(duration, stepFrames(currentTime, frameRate.fps, 1))
+          );
           break;
       }
     };
@@ -677,7 +1396,16 @@ const EditorView: React.FC = () => {
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [currentTime, duration, isPlaying, handlePlayPause, handleSeek]);
+  }, [
+    currentTime,
+    duration,
+    isPlaying,
+    handlePlayPause,
+    handleSeek,
+    frameRate.fps,
+    undo,
+    redo,
+  ]);
 
   const handleBack = () => {
     // Show black overlay and hide light rays immediately
@@ -706,8 +1434,8 @@ const EditorView: React.FC = () => {
     if (!isResizingTimeline) return;
 
     const deltaY = resizeStartYRef.current - e.clientY;
-    // Minimum: controls (60) + ruler (36) + at least one track visible (38) = 134px
-    const minHeight = 134;
+    // Minimum: controls (60) + ruler (36) + one track (38) + zoom row (24) = 158px
+    const minHeight = 158;
     const newHeight = Math.max(
       minHeight,
       Math.min(600, resizeStartHeightRef.current + deltaY)
@@ -901,6 +1629,7 @@ const EditorView: React.FC = () => {
             </svg>
             Export
           </button>
+          <ExportQueueButton />
           <WindowControls />
         </div>
       </header>
@@ -917,7 +1646,47 @@ const EditorView: React.FC = () => {
               onEnded={handleVideoEnded}
               onColorChange={handleColorChange}
               playerRef={videoPlayerRef}
+              transform={transform}
+              videoSize={videoSize}
+              isCropping={isCropping}
+              onCropChange={(crop) =>
+                setTransform((prev) => ({ ...prev, crop }))
+              }
+              overlays={overlays}
+              currentTime={currentTime}
+              isEditingText={isEditingText}
+              selectedOverlayId={selectedOverlayId}
+              onSelectOverlay={setSelectedOverlayId}
+              onOverlayChange={handleOverlayChange}
+              subtitleText={subtitleText}
             />
+            <FrameControls
+              transform={transform}
+              videoSize={videoSize}
+              isCropping={isCropping}
+              onCroppingChange={(cropping) => {
+                setIsCropping(cropping);
+                if (cropping) setIsEditingText(false);
+              }}
+              onChange={setTransform}
+              isEditingText={isEditingText}
+              onEditingTextChange={(editing) => {
+                setIsEditingText(editing);
+                if (editing) setIsCropping(false);
+              }}
+            />
+            {isEditingText && (
+              <TextOverlayPanel
+                overlays={overlays}
+                selectedId={selectedOverlayId}
+                currentTime={currentTime}
+                onAdd={handleAddOverlay}
+                onSelect={setSelectedOverlayId}
+                onChange={handleOverlayChange}
+                onDelete={handleDeleteOverlay}
+                onSeek={handleSeek}
+              />
+            )}
           </div>
 
           <div className="editor-sidebar">
@@ -929,6 +1698,16 @@ const EditorView: React.FC = () => {
               trimEnd={trimEnd}
               isFavorite={isFavorite}
               onToggleFavorite={handleToggleFavorite}
+              tags={clipTags}
+              availableTags={allTags}
+              onAddTag={handleAddTag}
+              onRemoveTag={handleRemoveTag}
+              notes={notes}
+              onNotesChange={handleNotesChange}
+              subtitles={subtitles}
+              subtitleError={subtitleError}
+              onSubtitlesChange={setSubtitles}
+              onImportSubtitles={handleImportSubtitles}
             />
           </div>
         </div>
@@ -949,6 +1728,165 @@ const EditorView: React.FC = () => {
             <div className="resize-handle-bar"></div>
           </div>
           <div className="timeline-controls">
+            <div className="segment-controls">
+              {segments.map((segment) =>
+                renamingSegmentId === segment.id ? (
+                  <input
+                    key={segment.id}
+                    className="segment-rename-input"
+                    value={segmentNameDraft}
+                    autoFocus
+                    onChange={(e) => setSegmentNameDraft(e.target.value)}
+                    onBlur={handleCommitRenameSegment}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleCommitRenameSegment();
+                      if (e.key === "Escape") setRenamingSegmentId(null);
+                    }}
+                  />
+                ) : (
+                  <div
+                    key={segment.id}
+                    className={`segment-chip ${
+                      segment.id === activeSegmentId ? "active" : ""
+                    }`}
+                    onClick={() => handleSelectSegment(segment.id)}
+                    onDoubleClick={() => handleStartRenameSegment(segment)}
+                    title={`${segment.name} (${formatTimeDisplay(
+                      segment.start
+                    )} - ${formatTimeDisplay(
+                      segment.end
+                    )}) • Double-click to rename`}
+                  >
+                    <span className="segment-chip-name">{segment.name}</span>
+                    {segment.speed !== undefined && (
+                      <span className="segment-chip-speed">
+                        {segment.speed}×
+                      </span>
+                    )}
+                    <button
+                      className="segment-chip-remove"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteSegment(segment.id);
+                      }}
+                      title="Delete segment"
+                    >
+                      ×
+                    </button>
+                  </div>
+                )
+              )}
+              <button
+                className="btn segment-add-btn"
+                onClick={handleAddSegment}
+                title={
+                  segments.length === 0
+                    ? "Save the current trim as a named segment"
+                    : "Add a segment at the playhead"
+                }
+                data-glow="tiny"
+              >
+                + Segment
+              </button>
+            </div>
+            <div className="history-controls">
+              <label className="speed-select" title="Preview playback rate">
+                Preview
+                <select
+                  value={previewRate}
+                  onChange={(e) => setPreviewRate(Number(e.target.value))}
+                >
+                  {SPEED_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="speed-select"
+                title={
+                  activeSegment
+                    ? `Export speed of "${activeSegment.name}"`
+                    : "Export speed of the clip"
+                }
+              >
+                Export
+                <select
+                  value={exportSpeed}
+                  onChange={(e) =>
+                    handleExportSpeedChange(Number(e.target.value))
+                  }
+                >
+                  {SPEED_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                className={`btn history-btn ${showTranscript ? "active" : ""}`}
+                onClick={() => setShowTranscript(!showTranscript)}
+                title="Show the transcript beside the timeline"
+                data-glow="tiny"
+              >
+                Transcript
+              </button>
+              <button
+                className="btn history-btn"
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                data-glow="tiny"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M9 14 4 9l5-5" />
+                  <path d="M4 9h10.5a5.5 5.5 0 0 1 5.5 5.5a5.5 5.5 0 0 1-5.5 5.5H11" />
+                </svg>
+              </button>
+              <button
+                className="btn history-btn"
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                data-glow="tiny"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="m15 14 5-5-5-5" />
+                  <path d="M20 9H9.5A5.5 5.5 0 0 0 4 14.5A5.5 5.5 0 0 0 9.5 20H13" />
+                </svg>
+              </button>
+              <button
+                className="btn history-btn revert-btn"
+                onClick={handleRevertToOriginal}
+                disabled={!contentHash}
+                title="Revert to original (clears saved edits)"
+                data-glow="tiny"
+              >
+                Revert
+              </button>
+            </div>
             <div className="playback-controls">
               <button
                 className="control-btn btn"
@@ -1036,20 +1974,42 @@ const EditorView: React.FC = () => {
             </div>
           </div>
 
-          <Timeline
-            duration={duration}
-            currentTime={currentTime}
-            trimStart={trimStart}
-            trimEnd={trimEnd}
-            onSeek={handleSeek}
-            onTrimStartChange={setTrimStart}
-            onTrimEndChange={setTrimEnd}
-            videoPath={video.path}
-            audioTracks={audioTracks}
-            audioBuffers={audioBuffers}
-            onVolumeChange={handleVolumeChange}
-            onMuteToggle={handleMuteToggle}
-          />
+          <div className="timeline-body">
+            <Timeline
+              duration={duration}
+              currentTime={currentTime}
+              trimStart={trimStart}
+              trimEnd={trimEnd}
+              onSeek={handleSeek}
+              onTrimStartChange={handleTrimStartChange}
+              onTrimEndChange={handleTrimEndChange}
+              videoPath={video.path}
+              audioTracks={audioTracks}
+              audioBuffers={trackBuffers}
+              onVolumeChange={handleVolumeChange}
+              onMuteToggle={handleMuteToggle}
+              onSoloToggle={handleSoloToggle}
+              onAudioTrackEdit={handleAudioTrackEdit}
+              onAddAudioTrack={handleAddExternalAudio}
+              onRemoveAudioTrack={handleRemoveAudioTrack}
+              normalizeMix={normalizeMix}
+              onNormalizeMixChange={setNormalizeMix}
+              segments={segments}
+              activeSegmentId={activeSegmentId}
+              onSelectSegment={handleSelectSegment}
+              keyframes={keyframes}
+              frameRate={frameRate.fps}
+            />
+            {showTranscript && (
+              <TranscriptPanel
+                videoPath={video.path}
+                contentHash={contentHash}
+                audioTracks={audioTracks}
+                currentTime={currentTime}
+                onSeek={handleSeek}
+              />
+            )}
+          </div>
         </div>
       </div>
 
@@ -1083,6 +2043,13 @@ const EditorView: React.FC = () => {
               trimStart={trimStart}
               trimEnd={trimEnd}
               audioTracks={audioTracks}
+              audioMix={normalizeMix ? { normalize: true } : undefined}
+              transform={isIdentityTransform(transform) ? undefined : transform}
+              speed={speed}
+              overlays={overlays.length > 0 ? overlays : undefined}
+              subtitles={subtitles ?? undefined}
+              segments={segments}
+              activeSegment={activeSegment}
               onClose={() => setShowExportPanel(false)}
             />
           </div>
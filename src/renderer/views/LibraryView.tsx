@@ -2,18 +2,44 @@ import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import VirtualizedVideoGrid from "../components/VirtualizedVideoGrid";
 import SearchBar from "../components/SearchBar";
+import CollectionsSidebar from "../components/CollectionsSidebar";
 import { useGlowEffect } from "../hooks/useGlowEffect";
 import LightRays from "../components/LightRays";
-import { VideoFile, VideoFileWithMetadata, SortBy, SortOrder } from "../types";
+import {
+  VideoFile,
+  VideoFileWithMetadata,
+  SortBy,
+  SortOrder,
+  Tag,
+  TagMatchMode,
+  AudioMixEdit,
+  TransformEdit,
+  TextOverlay,
+  SearchIndexEntry,
+  SearchMatch,
+  Collection,
+} from "../types";
 import "../styles/LibraryView.css";
 import "../styles/GlowWrapper.css";
 import WindowControls from "../components/WindowControls";
+import ExportQueueButton from "../components/ExportQueueButton";
+import BatchExportDialog from "../components/BatchExportDialog";
+import { getSavedClipRange, getSavedClipSpeed } from "../utils/clipRange";
 import LogoUrl from "../../assets/ClipfolioLogo.svg";
 
 const api = window.api;
 const path = window.path;
 const os = window.os;
 
+const toSearchEntry = (video: VideoFileWithMetadata): SearchIndexEntry => ({
+  path: video.path,
+  contentHash: video.contentHash ?? null,
+  name: video.name,
+  folder: video.folderPath || "",
+  size: video.size,
+  duration: video.duration || null,
+});
+
 const LibraryView: React.FC = () => {
   const navigate = useNavigate();
   const [folderPath, setFolderPath] = useState<string | null>(null);
@@ -23,6 +49,10 @@ const LibraryView: React.FC = () => {
   );
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<{
+    ranked: boolean;
+    matches: SearchMatch[];
+  } | null>(null);
   const [appVersion, setAppVersion] = useState<string>("v1.0.0");
   const [sortBy, setSortBy] = useState<SortBy>(() => {
     const saved = localStorage.getItem("sortBy");
@@ -40,7 +70,33 @@ const LibraryView: React.FC = () => {
     const saved = localStorage.getItem("groupByFolder");
     return saved === "true";
   });
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem("selectedTagIds") || "[]");
+      return Array.isArray(saved) ? saved : [];
+    } catch {
+      return [];
+    }
+  });
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>(() => {
+    const saved = localStorage.getItem("tagMatchMode");
+    return saved === "all" ? "all" : "any";
+  });
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = useState<number | null>(
+    () => {
+      const saved = Number(localStorage.getItem("activeCollectionId"));
+      return saved > 0 ? saved : null;
+    }
+  );
+  const [showCollections, setShowCollections] = useState(() => {
+    return localStorage.getItem("showCollections") !== "false";
+  });
   const [selectedVideos, setSelectedVideos] = useState<Set<string>>(new Set());
+  const [showTagInput, setShowTagInput] = useState(false);
+  const [newTagName, setNewTagName] = useState("");
+  const [showBatchExport, setShowBatchExport] = useState(false);
   const hasLoadedRef = React.useRef(false);
 
   // Initialize glow effect system
@@ -99,6 +155,31 @@ const LibraryView: React.FC = () => {
     localStorage.setItem("groupByFolder", String(groupByFolder));
   }, [groupByFolder]);
 
+  useEffect(() => {
+    localStorage.setItem("selectedTagIds", JSON.stringify(selectedTagIds));
+  }, [selectedTagIds]);
+
+  useEffect(() => {
+    localStorage.setItem("tagMatchMode", tagMatchMode);
+  }, [tagMatchMode]);
+
+  useEffect(() => {
+    if (activeCollectionId === null) {
+      localStorage.removeItem("activeCollectionId");
+    } else {
+      localStorage.setItem("activeCollectionId", String(activeCollectionId));
+    }
+  }, [activeCollectionId]);
+
+  useEffect(() => {
+    localStorage.setItem("showCollections", String(showCollections));
+  }, [showCollections]);
+
+  // Load all tags on mount
+  useEffect(() => {
+    loadAllTags();
+  }, []);
+
   useEffect(() => {
     localStorage.setItem("sortBy", sortBy);
   }, [sortBy]);
@@ -116,6 +197,37 @@ const LibraryView: React.FC = () => {
     }
   };
 
+  const loadAllTags = async () => {
+    try {
+      const tags: Tag[] = await api.getAllTags();
+      setAllTags(tags);
+      // Drop filters for tags that no longer exist
+      setSelectedTagIds((prev) =>
+        prev.filter((id) => tags.some((tag) => tag.id === id))
+      );
+    } catch (error) {
+      console.error("Error loading tags:", error);
+    }
+  };
+
+  // Bumped when the index or what it filters on (favorites, tags) changes, so
+  // counts and results don't rerun on every batch while metadata loads
+  const [searchVersion, setSearchVersion] = useState(0);
+  const bumpSearchVersion = () => setSearchVersion((version) => version + 1);
+
+  const loadCollections = async (root: string | null) => {
+    try {
+      const list: Collection[] = await api.getCollections(root);
+      setCollections(list);
+      // Drop the selection if its collection no longer exists
+      setActiveCollectionId((prev) =>
+        list.some((collection) => collection.id === prev) ? prev : null
+      );
+    } catch (error) {
+      console.error("Error loading collections:", error);
+    }
+  };
+
   const loadVideos = async (folder: string) => {
     setLoading(true);
     try {
@@ -135,6 +247,13 @@ const LibraryView: React.FC = () => {
       setFilteredVideos(initialVideos);
       setLoading(false); // Hide loading screen immediately
 
+      // Index names and folders right away; hashes, and with them notes,
+      // tags and transcripts, follow once everything is loaded
+      api
+        .syncSearchIndex(folder, initialVideos.map(toSearchEntry))
+        .then(() => bumpSearchVersion())
+        .catch((error) => console.error("Error indexing videos:", error));
+
       // Fetch metadata, content hash, and favorite status progressively
       const concurrency = 8; // Increased for faster loading
       const result: VideoFileWithMetadata[] = [...initialVideos];
@@ -178,8 +297,9 @@ const LibraryView: React.FC = () => {
               const contentHash = await api.getClipHash(current.path, duration);
               const isFavorite = await api.isFavorite(contentHash);
 
-              // Get saved edits
+              // Get saved edits and tags
               const edits = await api.getClipEdits(contentHash);
+              const tags = await api.getClipTags(contentHash);
 
               const enrichedVideo: VideoFileWithMetadata = {
                 ...current,
@@ -188,6 +308,7 @@ const LibraryView: React.FC = () => {
                 contentHash,
                 isFavorite,
                 edits,
+                tags,
               };
 
               result[currentIndex] = enrichedVideo;
@@ -208,8 +329,15 @@ const LibraryView: React.FC = () => {
         })
       );
 
+      try {
+        await api.syncSearchIndex(folder, result.map(toSearchEntry));
+      } catch (error) {
+        console.error("Error indexing videos:", error);
+      }
+
       // Final update to ensure all data is set
       setVideos(result);
+      bumpSearchVersion();
     } catch (error) {
       console.error("Error loading videos:", error);
       setLoading(false);
@@ -232,8 +360,9 @@ const LibraryView: React.FC = () => {
       const contentHash = await api.getClipHash(filePath, duration);
       const isFavorite = await api.isFavorite(contentHash);
 
-      // Get saved edits
+      // Get saved edits and tags
       const edits = await api.getClipEdits(contentHash);
+      const tags = await api.getClipTags(contentHash);
 
       const newVideo: VideoFileWithMetadata = {
         name: stats.name,
@@ -246,11 +375,16 @@ const LibraryView: React.FC = () => {
         contentHash,
         isFavorite,
         edits,
+        tags,
         relativePath: stats.relativePath,
         folderPath: stats.folderPath,
       };
 
+      if (folderPath) {
+        await api.indexSearchEntry(folderPath, toSearchEntry(newVideo));
+      }
       setVideos((prev) => [...prev, newVideo]);
+      bumpSearchVersion();
     } catch (error) {
       console.error("[LibraryView] Error adding new video:", error);
     }
@@ -258,8 +392,47 @@ const LibraryView: React.FC = () => {
 
   const removeVideo = (filePath: string) => {
     setVideos((prev) => prev.filter((v) => v.path !== filePath));
+    bumpSearchVersion();
   };
 
+  const activeCollection =
+    collections.find((collection) => collection.id === activeCollectionId) ??
+    null;
+  // A collection's query narrowed by whatever is typed in the search bar
+  const effectiveQuery = [activeCollection?.query, searchQuery.trim()]
+    .filter(Boolean)
+    .join(" ");
+
+  // Keep collection counts live as clips are added, removed, tagged or
+  // favorited
+  useEffect(() => {
+    const timer = setTimeout(() => loadCollections(folderPath), 300);
+    return () => clearTimeout(timer);
+  }, [folderPath, searchVersion]);
+
+  // Run the search against the index; favorites and tags can change what
+  // matches, so it reruns with them
+  useEffect(() => {
+    if (!folderPath || !effectiveQuery) {
+      setSearchResults(null);
+      return;
+    }
+
+    let canceled = false;
+    const timer = setTimeout(() => {
+      api
+        .searchClips(folderPath, effectiveQuery)
+        .then((results) => {
+          if (!canceled) setSearchResults(results);
+        })
+        .catch((error) => console.error("Error searching clips:", error));
+    }, 150);
+    return () => {
+      canceled = true;
+      clearTimeout(timer);
+    };
+  }, [effectiveQuery, folderPath, searchVersion]);
+
   useEffect(() => {
     let result = [...videos];
 
@@ -268,15 +441,35 @@ const LibraryView: React.FC = () => {
       result = result.filter((video) => video.isFavorite);
     }
 
-    // Filter by search query
-    if (searchQuery) {
-      result = result.filter((video) =>
-        video.name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+    // Filter by tags
+    if (selectedTagIds.length > 0) {
+      result = result.filter((video) => {
+        const videoTagIds = (video.tags || []).map((tag) => tag.id);
+        return tagMatchMode === "all"
+          ? selectedTagIds.every((id) => videoTagIds.includes(id))
+          : selectedTagIds.some((id) => videoTagIds.includes(id));
+      });
+    }
+
+    // Filter by search results, keeping their order when ranked
+    const searchOrder = new Map<string, number>();
+    if (searchResults) {
+      const matches = new Map<string, SearchMatch>();
+      searchResults.matches.forEach((match, i) => {
+        matches.set(match.path, match);
+        searchOrder.set(match.path, i);
+      });
+      result = result
+        .filter((video) => matches.has(video.path))
+        .map((video) => ({ ...video, searchMatch: matches.get(video.path) }));
     }
 
     // Sort
     result.sort((a, b) => {
+      if (searchResults?.ranked) {
+        return searchOrder.get(a.path)! - searchOrder.get(b.path)!;
+      }
+
       let comparison = 0;
 
       switch (sortBy) {
@@ -296,7 +489,15 @@ const LibraryView: React.FC = () => {
     });
 
     setFilteredVideos(result);
-  }, [searchQuery, sortBy, sortOrder, videos, showFavoritesOnly]);
+  }, [
+    searchResults,
+    sortBy,
+    sortOrder,
+    videos,
+    showFavoritesOnly,
+    selectedTagIds,
+    tagMatchMode,
+  ]);
 
   const handleVideoSelect = React.useCallback(
     (video: VideoFile) => {
@@ -329,6 +530,7 @@ const LibraryView: React.FC = () => {
             v.path === video.path ? { ...v, isFavorite: result.isFavorite } : v
           )
         );
+        bumpSearchVersion();
       } catch (error) {
         console.error("Error toggling favorite:", error);
       }
@@ -370,6 +572,7 @@ const LibraryView: React.FC = () => {
       await api.trashFiles(paths);
 
       // Remove from videos state
+      bumpSearchVersion();
       setVideos((prev) => prev.filter((v) => !selectedVideos.has(v.path)));
       setSelectedVideos(new Set());
     } catch (error) {
@@ -409,6 +612,7 @@ const LibraryView: React.FC = () => {
       }
 
       // Update local state
+      bumpSearchVersion();
       setVideos((prevVideos) =>
         prevVideos.map((v) =>
           selectedVideos.has(v.path)
@@ -424,6 +628,256 @@ const LibraryView: React.FC = () => {
     }
   };
 
+  const handleTagSelected = async () => {
+    const name = newTagName.trim();
+    if (selectedVideos.size === 0 || !name) return;
+
+    try {
+      const selectedVideoObjects = videos.filter(
+        (v) => selectedVideos.has(v.path) && v.contentHash
+      );
+      const tag: Tag = await api.addClipTag({
+        contentHashes: selectedVideoObjects.map((v) => v.contentHash!),
+        name,
+      });
+
+      bumpSearchVersion();
+      setVideos((prevVideos) =>
+        prevVideos.map((v) =>
+          selectedVideos.has(v.path) &&
+          v.contentHash &&
+          !(v.tags || []).some((t) => t.id === tag.id)
+            ? {
+                ...v,
+                tags: [...(v.tags || []), tag].sort((a, b) =>
+                  a.name.localeCompare(b.name)
+                ),
+              }
+            : v
+        )
+      );
+
+      setNewTagName("");
+      setShowTagInput(false);
+      await loadAllTags();
+    } catch (error: any) {
+      console.error("Error tagging selected:", error);
+      // Strip Electron's "Error invoking remote method ..." prefix
+      const message = String(error?.message || error).replace(/^.*Error: /, "");
+      alert(`Failed to tag clips: ${message}`);
+    }
+  };
+
+  // Queue a reel stitching the selected clips (their saved segments, or saved trim)
+  const handleReelSelected = async () => {
+    if (selectedVideos.size < 2) return;
+
+    const selectedVideoObjects = filteredVideos.filter((v) =>
+      selectedVideos.has(v.path)
+    );
+
+    const items: Array<{
+      inputPath: string;
+      startTime: number;
+      endTime: number;
+      audioTracks?: any[];
+      audioMix?: AudioMixEdit;
+      transform?: TransformEdit;
+      speed?: number;
+      overlays?: TextOverlay[];
+    }> = [];
+    for (const video of selectedVideoObjects) {
+      const edits = video.edits;
+      if (edits?.segments && edits.segments.length > 0) {
+        for (const segment of edits.segments) {
+          items.push({
+            inputPath: video.path,
+            startTime: segment.start,
+            endTime: segment.end,
+            audioTracks: edits.audioTracks,
+            audioMix: edits.audioMix,
+            transform: edits.transform,
+            speed: segment.speed ?? edits.speed,
+            overlays: edits.overlays,
+          });
+        }
+        continue;
+      }
+
+      const range = await getSavedClipRange(video);
+      items.push({
+        inputPath: video.path,
+        startTime: range.start,
+        endTime: range.end,
+        audioTracks: edits?.audioTracks,
+        audioMix: edits?.audioMix,
+        transform: edits?.transform,
+        speed: getSavedClipSpeed(edits),
+        overlays: edits?.overlays,
+      });
+    }
+
+    const result = await api.selectSaveLocation(
+      window.path.join(folderPath || "", "Highlight reel.mp4"),
+      [{ name: "Videos", extensions: ["mp4", "mov", "mkv"] }]
+    );
+    if (result.canceled || !result.filePath) return;
+
+    try {
+      await api.enqueueExport({
+        kind: "reel",
+        label: `Highlight reel (${selectedVideoObjects.length} clips)`,
+        params: { outputPath: result.filePath, items, quality: "full" },
+      });
+      setSelectedVideos(new Set());
+    } catch (error) {
+      console.error("Error queueing highlight reel:", error);
+      alert("Failed to queue highlight reel. See console for details.");
+    }
+  };
+
+  // Renaming a tag onto an existing name merges the two
+  const handleRenameTag = async (tag: Tag, newName: string) => {
+    const existing = allTags.find(
+      (t) => t.id !== tag.id && t.name.toLowerCase() === newName.toLowerCase()
+    );
+
+    try {
+      if (existing) {
+        const confirmed = confirm(
+          `A tag named "${existing.name}" already exists. Merge "${tag.name}" into it?`
+        );
+        if (!confirmed) return;
+
+        const merged: Tag = await api.mergeTags([tag.id], existing.id);
+        bumpSearchVersion();
+        setVideos((prevVideos) =>
+          prevVideos.map((v) => {
+            if (!v.tags?.some((t) => t.id === tag.id)) return v;
+            const remaining = v.tags.filter(
+              (t) => t.id !== tag.id && t.id !== merged.id
+            );
+            return {
+              ...v,
+              tags: [...remaining, merged].sort((a, b) =>
+                a.name.localeCompare(b.name)
+              ),
+            };
+          })
+        );
+        setSelectedTagIds((prev) =>
+          Array.from(
+            new Set(prev.map((id) => (id === tag.id ? merged.id : id)))
+          )
+        );
+      } else {
+        const renamed: Tag = await api.renameTag(tag.id, newName);
+        bumpSearchVersion();
+        setVideos((prevVideos) =>
+          prevVideos.map((v) =>
+            v.tags?.some((t) => t.id === tag.id)
+              ? {
+                  ...v,
+                  tags: v.tags.map((t) => (t.id === tag.id ? renamed : t)),
+                }
+              : v
+          )
+        );
+      }
+
+      await loadAllTags();
+    } catch (error: any) {
+      console.error("Error renaming tag:", error);
+      // Strip Electron's "Error invoking remote method ..." prefix
+      const message = String(error?.message || error).replace(/^.*Error: /, "");
+      alert(`Failed to rename tag: ${message}`);
+    }
+  };
+
+  const handleDeleteTag = async (tag: Tag) => {
+    const confirmed = confirm(
+      `Delete the tag "${tag.name}"? It will be removed from ${tag.clipCount} clip(s).`
+    );
+    if (!confirmed) return;
+
+    try {
+      await api.deleteTag(tag.id);
+      bumpSearchVersion();
+      setVideos((prevVideos) =>
+        prevVideos.map((v) =>
+          v.tags?.some((t) => t.id === tag.id)
+            ? { ...v, tags: v.tags.filter((t) => t.id !== tag.id) }
+            : v
+        )
+      );
+      await loadAllTags();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      alert("Failed to delete tag. See console for details.");
+    }
+  };
+
+  const handleSelectCollection = (id: number | null) => {
+    setActiveCollectionId(id);
+    const collection = collections.find((c) => c.id === id);
+    if (collection) {
+      setSortBy(collection.sortBy);
+      setSortOrder(collection.sortOrder);
+    }
+  };
+
+  // The current filters written as a search, to start a new collection from
+  const getCurrentQuery = () => {
+    const terms = [effectiveQuery];
+    if (showFavoritesOnly) terms.push("is:favorite");
+    const tagNames = allTags
+      .filter((tag) => selectedTagIds.includes(tag.id))
+      .map((tag) => tag.name);
+    if (tagMatchMode === "all") {
+      tagNames.forEach((name) => terms.push(`tag:"${name}"`));
+    } else if (tagNames.length > 0) {
+      terms.push(`tag:"${tagNames.join(",")}"`);
+    }
+    return terms.filter(Boolean).join(" ");
+  };
+
+  // New collections keep the current sort; edits keep their own
+  const handleSaveCollection = async (data: {
+    id?: number;
+    name: string;
+    query: string;
+  }) => {
+    const existing = collections.find((c) => c.id === data.id);
+    const saved = await api.saveCollection({
+      ...data,
+      sortBy: existing?.sortBy ?? sortBy,
+      sortOrder: existing?.sortOrder ?? sortOrder,
+    });
+    await loadCollections(folderPath);
+    if (data.id === undefined) {
+      // Its filters now live in the collection
+      setSearchQuery("");
+      setShowFavoritesOnly(false);
+      setSelectedTagIds([]);
+    }
+    setActiveCollectionId(saved.id);
+  };
+
+  const handleDeleteCollection = async (collection: Collection) => {
+    const confirmed = confirm(
+      `Delete the collection "${collection.name}"? Its clips are not affected.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await api.deleteCollection(collection.id);
+      await loadCollections(folderPath);
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      alert("Failed to delete collection. See console for details.");
+    }
+  };
+
   // Group videos by folder
   const groupedVideos = () => {
     const groups = new Map<string, VideoFileWithMetadata[]>();
@@ -475,162 +929,207 @@ const LibraryView: React.FC = () => {
           >
             {folderPath ? "Change Folder" : "Select Folder"}
           </button>
+          <ExportQueueButton />
           <WindowControls />
         </div>
       </header>
 
-      <div
-        className={`library-content ${
-          selectedVideos.size > 0 ? "has-selection-bar" : ""
-        }`}
-        ref={scrollParentRef}
-      >
-        <LightRays
-          raysOrigin="top-center"
-          raysColor="#ffffff"
-          raysSpeed={1.5}
-          lightSpread={0.8}
-          rayLength={1.2}
-          followMouse={true}
-          mouseInfluence={0.1}
-          noiseAmount={0.25}
-          distortion={0.05}
-          className="custom-rays"
-        />
-        <div className="library-controls">
-          <SearchBar
-            searchQuery={searchQuery}
-            onSearchChange={setSearchQuery}
-            sortBy={sortBy}
-            onSortByChange={setSortBy}
-            sortOrder={sortOrder}
-            onSortOrderChange={setSortOrder}
+      <div className="library-body">
+        {folderPath && showCollections && (
+          <CollectionsSidebar
+            collections={collections}
+            totalCount={videos.length}
+            activeId={activeCollectionId}
+            onSelect={handleSelectCollection}
+            currentQuery={getCurrentQuery()}
+            onSave={handleSaveCollection}
+            onDelete={handleDeleteCollection}
+          />
+        )}
+        <div
+          className={`library-content ${
+            selectedVideos.size > 0 ? "has-selection-bar" : ""
+          }`}
+          ref={scrollParentRef}
+        >
+          <LightRays
+            raysOrigin="top-center"
+            raysColor="#ffffff"
+            raysSpeed={1.5}
+            lightSpread={0.8}
+            rayLength={1.2}
+            followMouse={true}
+            mouseInfluence={0.1}
+            noiseAmount={0.25}
+            distortion={0.05}
+            className="custom-rays"
           />
-          <div className="filter-toggles">
-            <button
-              className={`btn filter-toggle-btn ${
-                showFavoritesOnly ? "active" : ""
-              }`}
-              data-glow
-              onClick={() => setShowFavoritesOnly(!showFavoritesOnly)}
-              title="Show favorites only"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill={showFavoritesOnly ? "currentColor" : "none"}
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
+          <div className="library-controls">
+            <SearchBar
+              searchQuery={searchQuery}
+              onSearchChange={setSearchQuery}
+              sortBy={sortBy}
+              onSortByChange={setSortBy}
+              sortOrder={sortOrder}
+              onSortOrderChange={setSortOrder}
+              tags={allTags}
+              selectedTagIds={selectedTagIds}
+              onSelectedTagIdsChange={setSelectedTagIds}
+              tagMatchMode={tagMatchMode}
+              onTagMatchModeChange={setTagMatchMode}
+              onRenameTag={handleRenameTag}
+              onDeleteTag={handleDeleteTag}
+            />
+            <div className="filter-toggles">
+              <button
+                className={`btn filter-toggle-btn ${
+                  showFavoritesOnly ? "active" : ""
+                }`}
+                data-glow
+                onClick={() => setShowFavoritesOnly(!showFavoritesOnly)}
+                title="Show favorites only"
               >
-                <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" />
-              </svg>
-              Favorites Only
-            </button>
-            <button
-              className={`btn filter-toggle-btn ${
-                groupByFolder ? "active" : ""
-              }`}
-              data-glow
-              onClick={() => setGroupByFolder(!groupByFolder)}
-              title="Group clips by folder"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill={groupByFolder ? "currentColor" : "none"}
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill={showFavoritesOnly ? "currentColor" : "none"}
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" />
+                </svg>
+                Favorites Only
+              </button>
+              <button
+                className={`btn filter-toggle-btn ${
+                  groupByFolder ? "active" : ""
+                }`}
+                data-glow
+                onClick={() => setGroupByFolder(!groupByFolder)}
+                title="Group clips by folder"
               >
-                <path d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z" />
-              </svg>
-              Group by Folder
-            </button>
-          </div>
-        </div>
-        {loading ? (
-          <div className="loading-state">
-            <div className="spinner"></div>
-            <p>Loading videos...</p>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill={groupByFolder ? "currentColor" : "none"}
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z" />
+                </svg>
+                Group by Folder
+              </button>
+              <button
+                className={`btn filter-toggle-btn ${
+                  showCollections ? "active" : ""
+                }`}
+                data-glow
+                onClick={() => setShowCollections(!showCollections)}
+                title="Show saved searches"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <rect width="18" height="18" x="3" y="3" rx="2" />
+                  <path d="M9 3v18" />
+                </svg>
+                Collections
+              </button>
+            </div>
           </div>
-        ) : folderPath ? (
-          groupByFolder ? (
-            <div className="grouped-videos">
-              {groupedVideos().map((group) => (
-                <div key={group.folder} className="video-group">
-                  <h3 className="group-header">
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      width="18"
-                      height="18"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                    >
-                      <path d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z" />
-                    </svg>
-                    {group.folder === "Root" ? "Root Folder" : group.folder}{" "}
-                    <span className="group-count">({group.videos.length})</span>
-                  </h3>
-                  <VirtualizedVideoGrid
-                    videos={group.videos}
-                    onVideoSelect={handleVideoSelect}
-                    onToggleFavorite={handleToggleFavorite}
-                    selectedVideos={selectedVideos}
-                    onToggleSelect={handleToggleSelect}
-                    scrollParentRef={scrollParentRef}
-                  />
-                </div>
-              ))}
+          {loading ? (
+            <div className="loading-state">
+              <div className="spinner"></div>
+              <p>Loading videos...</p>
             </div>
+          ) : folderPath ? (
+            groupByFolder ? (
+              <div className="grouped-videos">
+                {groupedVideos().map((group) => (
+                  <div key={group.folder} className="video-group">
+                    <h3 className="group-header">
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="18"
+                        height="18"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      >
+                        <path d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z" />
+                      </svg>
+                      {group.folder === "Root" ? "Root Folder" : group.folder}{" "}
+                      <span className="group-count">({group.videos.length})</span>
+                    </h3>
+                    <VirtualizedVideoGrid
+                      videos={group.videos}
+                      onVideoSelect={handleVideoSelect}
+                      onToggleFavorite={handleToggleFavorite}
+                      selectedVideos={selectedVideos}
+                      onToggleSelect={handleToggleSelect}
+                      scrollParentRef={scrollParentRef}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <VirtualizedVideoGrid
+                videos={filteredVideos}
+                onVideoSelect={handleVideoSelect}
+                onToggleFavorite={handleToggleFavorite}
+                selectedVideos={selectedVideos}
+                onToggleSelect={handleToggleSelect}
+                scrollParentRef={scrollParentRef}
+              />
+            )
           ) : (
-            <VirtualizedVideoGrid
-              videos={filteredVideos}
-              onVideoSelect={handleVideoSelect}
-              onToggleFavorite={handleToggleFavorite}
-              selectedVideos={selectedVideos}
-              onToggleSelect={handleToggleSelect}
-              scrollParentRef={scrollParentRef}
-            />
-          )
-        ) : (
-          <div className="empty-state">
-            <div className="empty-icon">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="24"
-                height="24"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="clapperboard-icon"
-              >
-                <path d="M20.2 6 3 11l-.9-2.4c-.3-1.1.3-2.2 1.3-2.5l13.5-4c1.1-.3 2.2.3 2.5 1.3Z" />
-                <path d="m6.2 5.3 3.1 3.9" />
-                <path d="m12.4 3.4 3.1 4" />
-                <path d="M3 11h18v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2Z" />
-              </svg>
+            <div className="empty-state">
+              <div className="empty-icon">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="24"
+                  height="24"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="clapperboard-icon"
+                >
+                  <path d="M20.2 6 3 11l-.9-2.4c-.3-1.1.3-2.2 1.3-2.5l13.5-4c1.1-.3 2.2.3 2.5 1.3Z" />
+                  <path d="m6.2 5.3 3.1 3.9" />
+                  <path d="m12.4 3.4 3.1 4" />
+                  <path d="M3 11h18v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2Z" />
+                </svg>
+              </div>
+              <h2>No Folder Selected</h2>
+              <p>Select a folder to view your video clips</p>
+              <button className="btn" data-glow onClick={handleSelectFolder}>
+                Select Folder
+              </button>
             </div>
-            <h2>No Folder Selected</h2>
-            <p>Select a folder to view your video clips</p>
-            <button className="btn" data-glow onClick={handleSelectFolder}>
-              Select Folder
-            </button>
-          </div>
-        )}
+          )}
+        </div>
       </div>
       {selectedVideos.size > 0 &&
         (() => {
@@ -655,6 +1154,106 @@ const LibraryView: React.FC = () => {
                 </button>
               </div>
               <div className="selection-actions">
+                {showTagInput && (
+                  <div className="selection-tag-input">
+                    <input
+                      type="text"
+                      placeholder="Tag name..."
+                      list="library-tag-suggestions"
+                      value={newTagName}
+                      autoFocus
+                      onChange={(e) => setNewTagName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleTagSelected();
+                        if (e.key === "Escape") {
+                          setShowTagInput(false);
+                          setNewTagName("");
+                        }
+                      }}
+                    />
+                    <datalist id="library-tag-suggestions">
+                      {allTags.map((tag) => (
+                        <option key={tag.id} value={tag.name} />
+                      ))}
+                    </datalist>
+                  </div>
+                )}
+                <button
+                  className="btn tag-btn"
+                  data-glow
+                  onClick={() =>
+                    showTagInput && newTagName.trim()
+                      ? handleTagSelected()
+                      : setShowTagInput(!showTagInput)
+                  }
+                  title="Tag selected clips"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="18"
+                    height="18"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M12.586 2.586A2 2 0 0 0 11.172 2H4a2 2 0 0 0-2 2v7.172a2 2 0 0 0 .586 1.414l8.704 8.704a2.426 2.426 0 0 0 3.42 0l6.58-6.58a2.426 2.426 0 0 0 0-3.42z" />
+                    <circle cx="7.5" cy="7.5" r=".5" fill="currentColor" />
+                  </svg>
+                </button>
+                <button
+                  className="btn export-btn"
+                  data-glow
+                  onClick={() => setShowBatchExport(true)}
+                  title="Export selected clips"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="18"
+                    height="18"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                    <polyline points="7 10 12 15 17 10" />
+                    <line x1="12" x2="12" y1="15" y2="3" />
+                  </svg>
+                </button>
+                {selectedVideos.size > 1 && (
+                  <button
+                    className="btn reel-btn"
+                    data-glow
+                    onClick={handleReelSelected}
+                    title="Export selected clips as one highlight reel"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="18"
+                      height="18"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <rect x="2" y="2" width="20" height="20" rx="2.18" />
+                      <path d="M7 2v20" />
+                      <path d="M17 2v20" />
+                      <path d="M2 12h20" />
+                      <path d="M2 7h5" />
+                      <path d="M2 17h5" />
+                      <path d="M17 17h5" />
+                      <path d="M17 7h5" />
+                    </svg>
+                  </button>
+                )}
                 <button
                   className="btn favorite-btn"
                   data-glow="yellow"
@@ -698,6 +1297,13 @@ const LibraryView: React.FC = () => {
             </div>
           );
         })()}
+      {showBatchExport && (
+        <BatchExportDialog
+          videos={filteredVideos.filter((v) => selectedVideos.has(v.path))}
+          defaultOutputDir={folderPath}
+          onClose={() => setShowBatchExport(false)}
+        />
+      )}
     </div>
   );
 };